@@ -0,0 +1,266 @@
+import type { ProxyErrorBody, ProxyErrorCode, ProxyRequest } from './proxy-client';
+
+interface AllowedOrigin {
+  protocol: 'https';
+  paths: RegExp[];
+  headers?: Record<string, string>;
+  // arXiv asks clients to wait 3 seconds between successive API calls.
+  minIntervalMs: number;
+  // 0 disables caching, e.g. for large binary responses.
+  cacheTtlMs: number;
+}
+
+interface CachedResponse {
+  expiresAt: number;
+  status: number;
+  contentType: string;
+  body: ArrayBuffer;
+}
+
+interface OriginQueue {
+  tail: Promise<void>;
+  lastStartedAt: number;
+  pending: number;
+}
+
+const ALLOWED_ORIGINS: Record<string, AllowedOrigin> = {
+  'export.arxiv.org': {
+    protocol: 'https',
+    paths: [/^\/api\/query$/],
+    minIntervalMs: 3000,
+    cacheTtlMs: 10 * 60 * 1000
+  },
+  'api.crossref.org': {
+    protocol: 'https',
+    // DOI suffixes may contain any character, so they arrive percent-encoded.
+    paths: [/^\/works$/, /^\/works\/10\.\d{4,9}\/.+$/],
+    headers: { 'User-Agent': 'academic-good-reads/1.0' },
+    minIntervalMs: 1000,
+    cacheTtlMs: 24 * 60 * 60 * 1000
+  },
+  'arxiv.org': {
+    protocol: 'https',
+    paths: [/^\/pdf\/[\w.\/-]+$/],
+    minIntervalMs: 1000,
+    cacheTtlMs: 0
+  }
+};
+
+// `new URL` resolves dot segments, including percent-encoded ones and ones
+// separated by backslashes, which would let an allowed path reach others.
+const DOT_SEGMENT = /(^|[\/\\])(\.|%2e){1,2}([\/\\]|$)/i;
+
+const UPSTREAM_TIMEOUT_MS = 15000;
+const MAX_QUEUE_LENGTH = 10;
+const MAX_CACHE_ENTRIES = 200;
+
+const cache = new Map<string, CachedResponse>();
+const inFlight = new Map<string, Promise<CachedResponse>>();
+const queues = new Map<string, OriginQueue>();
+
+class ProxyRouteError extends Error {
+  constructor(
+    public readonly code: ProxyErrorCode,
+    public readonly status: number,
+    message: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+}
+
+function errorResponse(error: ProxyRouteError): Response {
+  const body: ProxyErrorBody = {
+    error: { code: error.code, message: error.message, retryAfterMs: error.retryAfterMs }
+  };
+  const headers: Record<string, string> = {};
+  if (error.retryAfterMs !== undefined) {
+    headers['Retry-After'] = Math.ceil(error.retryAfterMs / 1000).toString();
+  }
+  return Response.json(body, { status: error.status, headers });
+}
+
+function parseProxyRequest(value: unknown): ProxyRequest {
+  if (typeof value !== 'object' || value === null) {
+    throw new ProxyRouteError('BAD_REQUEST', 400, 'Request body must be a JSON object');
+  }
+
+  const { protocol, origin, path, method, params } = value as Partial<ProxyRequest>;
+  if (protocol !== 'http' && protocol !== 'https') {
+    throw new ProxyRouteError('BAD_REQUEST', 400, 'Unsupported protocol');
+  }
+  if (method !== 'GET') {
+    throw new ProxyRouteError('BAD_REQUEST', 400, 'Only GET requests can be proxied');
+  }
+  if (typeof origin !== 'string' || typeof path !== 'string') {
+    throw new ProxyRouteError('BAD_REQUEST', 400, 'origin and path are required');
+  }
+  if (params !== undefined && (typeof params !== 'object' || params === null)) {
+    throw new ProxyRouteError('BAD_REQUEST', 400, 'params must be an object');
+  }
+
+  return { protocol, origin, path, method, params };
+}
+
+function decodedPathname(url: URL): string | null {
+  try {
+    return decodeURIComponent(url.pathname);
+  } catch {
+    return null;
+  }
+}
+
+function buildUpstreamUrl(request: ProxyRequest): { url: URL; config: AllowedOrigin } {
+  const config = ALLOWED_ORIGINS[request.origin];
+  if (!config) {
+    throw new ProxyRouteError('ORIGIN_NOT_ALLOWED', 403, `Origin ${request.origin} is not allowed`);
+  }
+  if (DOT_SEGMENT.test(request.path)) {
+    throw new ProxyRouteError('ORIGIN_NOT_ALLOWED', 403, `Path ${request.path} is not allowed`);
+  }
+
+  // The allowlist is checked against the path the request will actually go
+  // to, decoded so encoded separators can't hide dot segments either.
+  const url = new URL(`${config.protocol}://${request.origin}${request.path}`);
+  const pathname = decodedPathname(url);
+  if (
+    url.host !== request.origin || url.search || url.hash || pathname === null ||
+    DOT_SEGMENT.test(pathname) || !config.paths.some(path => path.test(pathname))
+  ) {
+    throw new ProxyRouteError('ORIGIN_NOT_ALLOWED', 403, `Path ${request.path} is not allowed`);
+  }
+  Object.entries(request.params ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([key, value]) => url.searchParams.set(key, String(value)));
+
+  return { url, config };
+}
+
+function schedule<T>(origin: string, minIntervalMs: number, task: () => Promise<T>): Promise<T> {
+  let queue = queues.get(origin);
+  if (!queue) {
+    queue = { tail: Promise.resolve(), lastStartedAt: 0, pending: 0 };
+    queues.set(origin, queue);
+  }
+
+  if (queue.pending >= MAX_QUEUE_LENGTH) {
+    throw new ProxyRouteError(
+      'RATE_LIMITED',
+      429,
+      'Too many queued requests for this service',
+      queue.pending * minIntervalMs
+    );
+  }
+
+  const state = queue;
+  state.pending++;
+
+  const result = state.tail.then(async () => {
+    const wait = state.lastStartedAt + minIntervalMs - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    state.lastStartedAt = Date.now();
+    return task();
+  });
+
+  state.tail = result.then(
+    () => { state.pending--; },
+    () => { state.pending--; }
+  );
+
+  return result;
+}
+
+async function fetchUpstream(url: URL, config: AllowedOrigin): Promise<CachedResponse> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: config.headers,
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      throw new ProxyRouteError('TIMEOUT', 504, 'Upstream service timed out');
+    }
+    throw new ProxyRouteError('UPSTREAM_ERROR', 502, 'Could not reach upstream service');
+  }
+
+  if (response.status === 429 || response.status === 503) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new ProxyRouteError(
+      'RATE_LIMITED',
+      429,
+      'Upstream service is rate limiting requests',
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : config.minIntervalMs
+    );
+  }
+  if (response.status === 404) {
+    throw new ProxyRouteError('NOT_FOUND', 404, 'Upstream resource was not found');
+  }
+  if (!response.ok) {
+    throw new ProxyRouteError('UPSTREAM_ERROR', 502, `Upstream responded with status ${response.status}`);
+  }
+
+  return {
+    expiresAt: Date.now() + config.cacheTtlMs,
+    status: response.status,
+    contentType: response.headers.get('Content-Type') ?? 'application/octet-stream',
+    body: await response.arrayBuffer()
+  };
+}
+
+function storeInCache(key: string, entry: CachedResponse): void {
+  cache.delete(key);
+  cache.set(key, entry);
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey === undefined) break;
+    cache.delete(oldestKey);
+  }
+}
+
+function toResponse(entry: CachedResponse, cacheStatus: 'HIT' | 'MISS'): Response {
+  return new Response(entry.body, {
+    status: entry.status,
+    headers: {
+      'Content-Type': entry.contentType,
+      'X-Proxy-Cache': cacheStatus
+    }
+  });
+}
+
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body: unknown = await request.json().catch(() => {
+      throw new ProxyRouteError('BAD_REQUEST', 400, 'Request body must be valid JSON');
+    });
+    const proxyRequest = parseProxyRequest(body);
+    const { url, config } = buildUpstreamUrl(proxyRequest);
+    const key = url.toString();
+
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return toResponse(cached, 'HIT');
+    }
+
+    let pending = inFlight.get(key);
+    if (!pending) {
+      pending = schedule(proxyRequest.origin, config.minIntervalMs, () => fetchUpstream(url, config))
+        .then(entry => {
+          if (config.cacheTtlMs > 0) storeInCache(key, entry);
+          return entry;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, pending);
+    }
+
+    return toResponse(await pending, 'MISS');
+  } catch (error) {
+    if (error instanceof ProxyRouteError) {
+      return errorResponse(error);
+    }
+    console.error('Proxy route failed:', error);
+    return errorResponse(new ProxyRouteError('UPSTREAM_ERROR', 500, 'Unexpected proxy failure'));
+  }
+}
@@ -0,0 +1,44 @@
+import { buildArxivIdListRequest, buildArxivSearchRequest } from './arxiv-query';
+import type { ArxivQuery } from './arxiv-query';
+import { parseArxivFeed } from './arxiv-parser';
+import type { ArxivParseError } from './arxiv-parser';
+import { proxyRequest } from './proxy-client';
+import type { ArxivPaper } from './types';
+
+export interface ArxivSearchPage {
+  papers: ArxivPaper[];
+  totalResults: number;
+}
+
+export class ArxivRequestError extends Error {
+  constructor(public readonly code: ArxivParseError['code'], message: string) {
+    super(message);
+    this.name = 'ArxivRequestError';
+  }
+}
+
+export async function fetchArxivPage(
+  query: ArxivQuery,
+  start: number,
+  signal?: AbortSignal
+): Promise<ArxivSearchPage> {
+  const response = await proxyRequest(buildArxivSearchRequest(query, start), signal);
+
+  const result = parseArxivFeed(await response.text());
+  if (!result.ok) {
+    throw new ArxivRequestError(result.error.code, result.error.message);
+  }
+
+  return { papers: result.feed.papers, totalResults: result.feed.totalResults };
+}
+
+export async function fetchArxivPapersById(ids: string[], signal?: AbortSignal): Promise<ArxivPaper[]> {
+  const response = await proxyRequest(buildArxivIdListRequest(ids), signal);
+
+  const result = parseArxivFeed(await response.text());
+  if (!result.ok) {
+    throw new ArxivRequestError(result.error.code, result.error.message);
+  }
+
+  return result.feed.papers;
+}
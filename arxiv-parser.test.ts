@@ -0,0 +1,121 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseArxivFeed, splitArxivId } from './arxiv-parser';
+import type { ArxivFeed } from './arxiv-parser';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'arxiv', name), 'utf8');
+}
+
+function parseFeed(name: string): ArxivFeed {
+  const result = parseArxivFeed(fixture(name));
+  if (!result.ok) throw new Error(`Expected ${name} to parse: ${result.error.message}`);
+  return result.feed;
+}
+
+describe('parseArxivFeed', () => {
+  it('reads papers and paging from a search feed', () => {
+    const feed = parseFeed('feed.xml');
+
+    expect(feed.totalResults).toBe(1234);
+    expect(feed.startIndex).toBe(0);
+    expect(feed.itemsPerPage).toBe(2);
+    expect(feed.papers).toHaveLength(2);
+    expect(feed.papers[0]).toMatchObject({
+      id: '1706.03762',
+      title: 'Attention Is All You Need',
+      summary: 'The dominant sequence transduction models are based on complex recurrent or ' +
+        'convolutional neural networks.',
+      published: '2017-06-12T17:57:34Z',
+      updated: '2023-08-02T00:41:18Z'
+    });
+  });
+
+  it('splits the version suffix off new- and old-style ids', () => {
+    const [modern, oldStyle] = parseFeed('feed.xml').papers;
+
+    expect(modern).toMatchObject({ id: '1706.03762', version: 7 });
+    expect(oldStyle).toMatchObject({ id: 'hep-th/9901001', version: 1 });
+  });
+
+  it('uses the PDF link over https', () => {
+    const [modern, oldStyle] = parseFeed('feed.xml').papers;
+
+    expect(modern.pdfLink).toBe('https://arxiv.org/pdf/1706.03762v7');
+    expect(oldStyle.pdfLink).toBe('https://arxiv.org/pdf/hep-th/9901001v1');
+  });
+
+  it('reads the primary category first, followed by secondary ones', () => {
+    const [modern, oldStyle] = parseFeed('feed.xml').papers;
+
+    expect(modern.primaryCategory).toBe('cs.CL');
+    expect(modern.categories).toEqual(['cs.CL', 'cs.LG']);
+    // The primary category is listed even when the feed leaves it out of the categories.
+    expect(oldStyle.primaryCategory).toBe('hep-th');
+    expect(oldStyle.categories).toEqual(['hep-th', 'math-ph']);
+  });
+
+  it('reads the DOI, comment and journal reference', () => {
+    const [modern] = parseFeed('feed.xml').papers;
+
+    expect(modern.doi).toBe('10.48550/arXiv.1706.03762');
+    expect(modern.comment).toBe('15 pages, 5 figures');
+    expect(modern.journalRef).toBe('Advances in Neural Information Processing Systems 30 (2017)');
+  });
+
+  it('reads authors with their affiliations', () => {
+    const [modern, oldStyle] = parseFeed('feed.xml').papers;
+
+    expect(modern.authors).toEqual([
+      { name: 'Ashish Vaswani', affiliations: ['Google Brain'] },
+      { name: 'Noam Shazeer', affiliations: ['Google Brain', 'Google Research'] }
+    ]);
+    expect(oldStyle.authors).toEqual([{ name: 'E. Witten', affiliations: [] }]);
+  });
+
+  it('leaves missing optional elements unset', () => {
+    const feed = parseFeed('sparse-entry.xml');
+
+    expect(feed.totalResults).toBe(0);
+    expect(feed.papers).toHaveLength(1);
+    expect(feed.papers[0]).toEqual({
+      id: '2401.00001',
+      version: null,
+      title: 'Untitled Preprint Without Extras',
+      authors: [{ name: 'Jane Doe', affiliations: [] }],
+      summary: 'No DOI, comment, journal reference, PDF link or categories.',
+      published: '2024-01-01T09:00:00Z',
+      updated: '',
+      pdfLink: 'https://arxiv.org/pdf/2401.00001',
+      journalRef: undefined,
+      doi: undefined,
+      comment: undefined,
+      primaryCategory: null,
+      categories: []
+    });
+  });
+
+  it('reports an error entry as an API error', () => {
+    expect(parseArxivFeed(fixture('api-error.xml'))).toEqual({
+      ok: false,
+      error: { code: 'API_ERROR', message: 'incorrect id format for 1234.12345' }
+    });
+  });
+
+  it('reports responses that are not an Atom feed as malformed', () => {
+    const html = parseArxivFeed('<html><body>Service Unavailable</body></html>');
+    const broken = parseArxivFeed('<feed xmlns="http://www.w3.org/2005/Atom"><entry>');
+
+    expect(html).toMatchObject({ ok: false, error: { code: 'MALFORMED_FEED' } });
+    expect(broken).toMatchObject({ ok: false, error: { code: 'MALFORMED_FEED' } });
+  });
+});
+
+describe('splitArxivId', () => {
+  it('separates the version from the id', () => {
+    expect(splitArxivId('2101.00001v12')).toEqual({ id: '2101.00001', version: 12 });
+    expect(splitArxivId('math.GT/0309136')).toEqual({ id: 'math.GT/0309136', version: null });
+  });
+});
@@ -0,0 +1,130 @@
+import type { ArxivAuthor, ArxivPaper } from './types';
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const ARXIV_NS = 'http://arxiv.org/schemas/atom';
+const OPENSEARCH_NS = 'http://a9.com/-/spec/opensearch/1.1/';
+
+export interface ArxivFeed {
+  papers: ArxivPaper[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+}
+
+export interface ArxivParseError {
+  code: 'API_ERROR' | 'MALFORMED_FEED';
+  message: string;
+}
+
+export type ArxivParseResult =
+  | { ok: true; feed: ArxivFeed }
+  | { ok: false; error: ArxivParseError };
+
+function children(parent: Element, namespace: string, localName: string): Element[] {
+  return Array.from(parent.children).filter(
+    child => child.namespaceURI === namespace && child.localName === localName
+  );
+}
+
+function childText(parent: Element, namespace: string, localName: string): string {
+  return children(parent, namespace, localName)[0]?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+}
+
+function childNumber(parent: Element, namespace: string, localName: string): number {
+  const value = Number(childText(parent, namespace, localName));
+  return Number.isFinite(value) ? value : 0;
+}
+
+// Splits "2101.00001v2" or "hep-th/9901001v1" into base id and version.
+export function splitArxivId(versionedId: string): { id: string; version: number | null } {
+  const match = versionedId.trim().match(/^(.+?)(?:v(\d+))?$/);
+  if (!match) return { id: versionedId, version: null };
+  return { id: match[1], version: match[2] ? Number(match[2]) : null };
+}
+
+function parseAuthor(author: Element): ArxivAuthor {
+  return {
+    name: childText(author, ATOM_NS, 'name'),
+    affiliations: children(author, ARXIV_NS, 'affiliation')
+      .map(affiliation => affiliation.textContent?.trim() ?? '')
+      .filter(Boolean)
+  };
+}
+
+function parseEntry(entry: Element): ArxivPaper | null {
+  const entryId = childText(entry, ATOM_NS, 'id');
+  const absIndex = entryId.indexOf('/abs/');
+  if (absIndex === -1) return null;
+
+  const { id, version } = splitArxivId(entryId.slice(absIndex + '/abs/'.length));
+  const links = children(entry, ATOM_NS, 'link');
+  const pdfHref = links.find(link => link.getAttribute('title') === 'pdf')?.getAttribute('href');
+  const primaryCategory = children(entry, ARXIV_NS, 'primary_category')[0]?.getAttribute('term') ?? null;
+  const categories = children(entry, ATOM_NS, 'category')
+    .map(category => category.getAttribute('term') ?? '')
+    .filter(Boolean);
+
+  return {
+    id,
+    version,
+    title: childText(entry, ATOM_NS, 'title'),
+    authors: children(entry, ATOM_NS, 'author').map(parseAuthor),
+    summary: childText(entry, ATOM_NS, 'summary'),
+    published: childText(entry, ATOM_NS, 'published'),
+    updated: childText(entry, ATOM_NS, 'updated'),
+    pdfLink: pdfHref
+      ? pdfHref.replace(/^http:/, 'https:')
+      : `https://arxiv.org/pdf/${id}${version ? `v${version}` : ''}`,
+    journalRef: childText(entry, ARXIV_NS, 'journal_ref') || undefined,
+    doi: childText(entry, ARXIV_NS, 'doi') || undefined,
+    comment: childText(entry, ARXIV_NS, 'comment') || undefined,
+    primaryCategory,
+    categories: primaryCategory && !categories.includes(primaryCategory)
+      ? [primaryCategory, ...categories]
+      : categories
+  };
+}
+
+// arXiv reports bad queries as a feed holding a single entry whose id points
+// at http://arxiv.org/api/errors rather than as an HTTP error.
+function findApiError(entries: Element[]): ArxivParseError | null {
+  for (const entry of entries) {
+    if (childText(entry, ATOM_NS, 'id').includes('/api/errors')) {
+      return {
+        code: 'API_ERROR',
+        message: childText(entry, ATOM_NS, 'summary') || 'arXiv rejected the query'
+      };
+    }
+  }
+  return null;
+}
+
+export function parseArxivFeed(xml: string): ArxivParseResult {
+  const xmlDoc = new DOMParser().parseFromString(xml, 'text/xml');
+  const feed = xmlDoc.documentElement;
+
+  if (xmlDoc.getElementsByTagName('parsererror').length > 0 ||
+      feed.namespaceURI !== ATOM_NS || feed.localName !== 'feed') {
+    return { ok: false, error: { code: 'MALFORMED_FEED', message: 'arXiv returned an unreadable response' } };
+  }
+
+  const entries = children(feed, ATOM_NS, 'entry');
+  const apiError = findApiError(entries);
+  if (apiError) {
+    return { ok: false, error: apiError };
+  }
+
+  const papers = entries
+    .map(parseEntry)
+    .filter((paper): paper is ArxivPaper => paper !== null);
+
+  return {
+    ok: true,
+    feed: {
+      papers,
+      totalResults: childNumber(feed, OPENSEARCH_NS, 'totalResults'),
+      startIndex: childNumber(feed, OPENSEARCH_NS, 'startIndex'),
+      itemsPerPage: childNumber(feed, OPENSEARCH_NS, 'itemsPerPage')
+    }
+  };
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useCallback } from 'react';
+import {
+  ARXIV_FIELDS,
+  ARXIV_SORT_OPTIONS,
+  compileArxivQuery,
+  createArxivQueryTerm,
+  isArxivQueryEmpty
+} from './arxiv-query';
+import type { ArxivBooleanOperator, ArxivField, ArxivQuery, ArxivQueryTerm } from './arxiv-query';
+
+interface ArxivQueryBuilderProps {
+  query: ArxivQuery;
+  onChange: (query: ArxivQuery) => void;
+  onSubmit: (query: ArxivQuery) => void;
+}
+
+export default function ArxivQueryBuilder({ query, onChange, onSubmit }: ArxivQueryBuilderProps): JSX.Element {
+  const updateTerm = useCallback((termId: string, changes: Partial<ArxivQueryTerm>): void => {
+    onChange({
+      ...query,
+      terms: query.terms.map(term =>
+        term.id === termId ? { ...term, ...changes } : term
+      )
+    });
+  }, [query, onChange]);
+
+  const removeTerm = useCallback((termId: string): void => {
+    onChange({ ...query, terms: query.terms.filter(term => term.id !== termId) });
+  }, [query, onChange]);
+
+  const addTerm = useCallback((): void => {
+    onChange({ ...query, terms: [...query.terms, createArxivQueryTerm()] });
+  }, [query, onChange]);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(query);
+      }}
+      className="mt-4 p-4 bg-white border border-[#D6D0C4] rounded-lg space-y-3"
+    >
+      {query.terms.map((term, index) => (
+        <div key={term.id} className="flex gap-2 items-center">
+          {index === 0 ? (
+            <span className="w-24 text-sm text-gray-500">Where</span>
+          ) : (
+            <select
+              value={term.operator}
+              onChange={(e) => updateTerm(term.id, { operator: e.target.value as ArxivBooleanOperator })}
+              className="w-24 p-2 text-sm border border-[#D6D0C4] rounded bg-white"
+              aria-label="Boolean operator"
+            >
+              <option value="AND">AND</option>
+              <option value="OR">OR</option>
+              <option value="ANDNOT">AND NOT</option>
+            </select>
+          )}
+          <select
+            value={term.field}
+            onChange={(e) => updateTerm(term.id, { field: e.target.value as ArxivField })}
+            className="p-2 text-sm border border-[#D6D0C4] rounded bg-white"
+            aria-label="Search field"
+          >
+            {ARXIV_FIELDS.map(field => (
+              <option key={field.value} value={field.value}>{field.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={term.value}
+            onChange={(e) => updateTerm(term.id, { value: e.target.value })}
+            placeholder={term.field === 'cat' ? 'e.g. cs.LG' : 'Search terms'}
+            className="flex-1 p-2 text-sm border border-[#D6D0C4] rounded focus:ring-2 focus:ring-[#1B3A33]"
+          />
+          <button
+            type="button"
+            onClick={() => removeTerm(term.id)}
+            disabled={query.terms.length === 1}
+            className="px-2 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+            aria-label="Remove term"
+          >
+            {'×'}
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addTerm}
+        className="text-sm text-[#1B3A33] hover:underline"
+      >
+        + Add term
+      </button>
+
+      <div className="flex gap-4 items-center flex-wrap text-sm">
+        <label className="flex items-center gap-2">
+          Submitted from
+          <input
+            type="date"
+            value={query.submittedFrom}
+            onChange={(e) => onChange({ ...query, submittedFrom: e.target.value })}
+            className="p-1 border border-[#D6D0C4] rounded"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          to
+          <input
+            type="date"
+            value={query.submittedTo}
+            onChange={(e) => onChange({ ...query, submittedTo: e.target.value })}
+            className="p-1 border border-[#D6D0C4] rounded"
+          />
+        </label>
+        <select
+          value={query.sortBy}
+          onChange={(e) => onChange({ ...query, sortBy: e.target.value as ArxivQuery['sortBy'] })}
+          className="p-1 border border-[#D6D0C4] rounded bg-white"
+          aria-label="Sort arXiv results by"
+        >
+          {ARXIV_SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={query.sortOrder}
+          onChange={(e) => onChange({ ...query, sortOrder: e.target.value as ArxivQuery['sortOrder'] })}
+          className="p-1 border border-[#D6D0C4] rounded bg-white"
+          aria-label="Sort order"
+        >
+          <option value="descending">Descending</option>
+          <option value="ascending">Ascending</option>
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <code className="text-xs text-gray-500 truncate">
+          {isArxivQueryEmpty(query) ? 'Enter at least one search term' : compileArxivQuery(query)}
+        </code>
+        <button
+          type="submit"
+          disabled={isArxivQueryEmpty(query)}
+          className="px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28] disabled:opacity-50"
+        >
+          Search arXiv
+        </button>
+      </div>
+    </form>
+  );
+}
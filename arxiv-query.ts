@@ -0,0 +1,132 @@
+import { createId } from './ids';
+import type { ProxyRequest } from './proxy-client';
+
+export type ArxivField = 'all' | 'ti' | 'au' | 'abs' | 'cat' | 'co' | 'jr';
+
+export type ArxivBooleanOperator = 'AND' | 'OR' | 'ANDNOT';
+
+export type ArxivSortBy = 'relevance' | 'lastUpdated' | 'submittedDate';
+
+export interface ArxivQueryTerm {
+  id: string;
+  // Joins this term to the ones before it; ignored on the first term.
+  operator: ArxivBooleanOperator;
+  field: ArxivField;
+  value: string;
+}
+
+export interface ArxivQuery {
+  terms: ArxivQueryTerm[];
+  // Inclusive bounds as YYYY-MM-DD, or '' for open-ended.
+  submittedFrom: string;
+  submittedTo: string;
+  sortBy: ArxivSortBy;
+  sortOrder: 'ascending' | 'descending';
+}
+
+export const ARXIV_PAGE_SIZE = 10;
+
+export const ARXIV_FIELDS: { value: ArxivField; label: string }[] = [
+  { value: 'all', label: 'All fields' },
+  { value: 'ti', label: 'Title' },
+  { value: 'au', label: 'Author' },
+  { value: 'abs', label: 'Abstract' },
+  { value: 'cat', label: 'Category' },
+  { value: 'co', label: 'Comment' },
+  { value: 'jr', label: 'Journal ref' }
+];
+
+export const ARXIV_SORT_OPTIONS: { value: ArxivSortBy; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'lastUpdated', label: 'Last updated' },
+  { value: 'submittedDate', label: 'Submitted' }
+];
+
+export function createArxivQueryTerm(field: ArxivField = 'all', value = ''): ArxivQueryTerm {
+  return {
+    id: createId(),
+    operator: 'AND',
+    field,
+    value
+  };
+}
+
+export function createSimpleArxivQuery(text: string): ArxivQuery {
+  return {
+    terms: [createArxivQueryTerm('all', text)],
+    submittedFrom: '',
+    submittedTo: '',
+    sortBy: 'relevance',
+    sortOrder: 'descending'
+  };
+}
+
+function compileTerm(term: ArxivQueryTerm): string {
+  const value = term.value.replace(/["()]/g, ' ').trim().replace(/\s+/g, ' ');
+  return /\s/.test(value) ? `${term.field}:"${value}"` : `${term.field}:${value}`;
+}
+
+function toArxivDate(date: string, endOfDay: boolean): string {
+  return `${date.replace(/-/g, '')}${endOfDay ? '2359' : '0000'}`;
+}
+
+function compileDateRange(query: ArxivQuery): string | null {
+  if (!query.submittedFrom && !query.submittedTo) return null;
+
+  const from = query.submittedFrom ? toArxivDate(query.submittedFrom, false) : '199101010000';
+  const to = query.submittedTo ? toArxivDate(query.submittedTo, true) : '999912312359';
+  return `submittedDate:[${from} TO ${to}]`;
+}
+
+export function isArxivQueryEmpty(query: ArxivQuery): boolean {
+  return query.terms.every(term => !term.value.trim());
+}
+
+export function compileArxivQuery(query: ArxivQuery): string {
+  const terms = query.terms.filter(term => term.value.trim());
+
+  // Terms apply left to right, as listed in the builder, so each step is
+  // parenthesized rather than left to arXiv's operator precedence:
+  // a AND b OR c becomes ((a AND b) OR c).
+  let compiled = terms.reduce((expression, term, index) => {
+    const clause = compileTerm(term);
+    return index === 0 ? clause : `(${expression} ${term.operator} ${clause})`;
+  }, '');
+
+  const dateRange = compileDateRange(query);
+  if (dateRange) {
+    compiled = compiled ? `${compiled} AND ${dateRange}` : dateRange;
+  }
+
+  return compiled;
+}
+
+export function buildArxivSearchRequest(query: ArxivQuery, start: number): ProxyRequest {
+  return {
+    protocol: 'https',
+    origin: 'export.arxiv.org',
+    path: '/api/query',
+    method: 'GET',
+    params: {
+      search_query: compileArxivQuery(query),
+      start,
+      max_results: ARXIV_PAGE_SIZE,
+      sortBy: query.sortBy,
+      sortOrder: query.sortOrder
+    }
+  };
+}
+
+// Looks papers up by arXiv id rather than searching.
+export function buildArxivIdListRequest(ids: string[]): ProxyRequest {
+  return {
+    protocol: 'https',
+    origin: 'export.arxiv.org',
+    path: '/api/query',
+    method: 'GET',
+    params: {
+      id_list: ids.join(','),
+      max_results: ids.length
+    }
+  };
+}
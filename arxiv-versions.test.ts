@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { applyVersionCheck, hasPendingUpdate } from './arxiv-versions';
+import { parseBibtex } from './citation-formats';
+import { createPaper, createPaperFromArxiv } from './paper-factory';
+import type { ArxivPaper } from './types';
+
+const CHECKED_AT = '2024-06-01T00:00:00.000Z';
+
+function remote(version: number | null, updated: string): ArxivPaper {
+  return {
+    id: '1706.03762',
+    version,
+    title: 'Attention Is All You Need',
+    authors: [{ name: 'Ashish Vaswani', affiliations: [] }],
+    summary: 'The dominant sequence transduction models.',
+    published: '2017-06-12T17:57:34Z',
+    updated,
+    pdfLink: `https://arxiv.org/pdf/1706.03762${version ? `v${version}` : ''}`,
+    primaryCategory: 'cs.CL',
+    categories: ['cs.CL']
+  };
+}
+
+describe('applyVersionCheck', () => {
+  it('flags a newer version of a paper added from arXiv', () => {
+    const paper = createPaperFromArxiv(remote(5, '2023-01-01T00:00:00Z'));
+    const checked = applyVersionCheck(paper, remote(7, '2023-08-02T00:41:18Z'), CHECKED_AT);
+
+    expect(hasPendingUpdate(checked)).toBe(true);
+    expect(checked.availableUpdate).toMatchObject({ version: 7, updated: '2023-08-02T00:41:18Z', foundAt: CHECKED_AT });
+  });
+
+  it('leaves papers already on the latest version alone', () => {
+    const paper = createPaperFromArxiv(remote(7, '2023-08-02T00:41:18Z'));
+    const checked = applyVersionCheck(paper, remote(7, '2023-08-02T00:41:18Z'), CHECKED_AT);
+
+    expect(checked).toEqual({ ...paper, versionCheckedAt: CHECKED_AT });
+  });
+
+  it('records the version of an imported paper on its first check instead of flagging it', () => {
+    const [metadata] = parseBibtex(
+      '@misc{vaswani2017attention, title = {Attention Is All You Need}, year = {2017}, ' +
+      'eprint = {1706.03762}, archivePrefix = {arXiv}}'
+    );
+    const paper = createPaper(metadata);
+    const checked = applyVersionCheck(paper, remote(7, '2023-08-02T00:41:18Z'), CHECKED_AT);
+
+    expect(hasPendingUpdate(checked)).toBe(false);
+    expect(checked).toMatchObject({ arxivVersion: 7, updatedDate: '2023-08-02T00:41:18Z', availableUpdate: null });
+    expect(hasPendingUpdate(applyVersionCheck(checked, remote(8, '2024-05-01T00:00:00Z'), CHECKED_AT))).toBe(true);
+  });
+
+  it('keeps a known update when arXiv returns nothing', () => {
+    const paper = createPaperFromArxiv(remote(5, '2023-01-01T00:00:00Z'));
+    const flagged = applyVersionCheck(paper, remote(7, '2023-08-02T00:41:18Z'), CHECKED_AT);
+
+    expect(applyVersionCheck(flagged, undefined, '2024-06-02T00:00:00.000Z').availableUpdate)
+      .toEqual(flagged.availableUpdate);
+  });
+});
@@ -0,0 +1,132 @@
+import type { ArxivPaper, ArxivUpdate, Paper } from './types';
+
+export const VERSION_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+export interface VersionChange {
+  field: 'title' | 'abstract' | 'authors';
+  label: string;
+  diff: DiffPart[];
+}
+
+export function needsVersionCheck(paper: Paper, now: number): boolean {
+  return paper.arxivId !== null && (
+    !paper.versionCheckedAt ||
+    now - new Date(paper.versionCheckedAt).getTime() > VERSION_CHECK_INTERVAL_MS
+  );
+}
+
+// Versions are compared when both are known; otherwise the `updated` dates.
+function isNewer(paper: Paper, remote: ArxivPaper): boolean {
+  if (remote.version !== null && paper.arxivVersion !== null) {
+    return remote.version > paper.arxivVersion;
+  }
+  return new Date(remote.updated).getTime() > new Date(paper.updatedDate).getTime();
+}
+
+// Records the outcome of a check. `remote` is undefined when arXiv didn't
+// return the paper, which leaves any known update in place.
+export function applyVersionCheck(paper: Paper, remote: ArxivPaper | undefined, checkedAt: string): Paper {
+  const checked = { ...paper, versionCheckedAt: checkedAt };
+  if (!remote) return checked;
+  // Papers imported from a citation file don't know their version, and their
+  // PDF link points at the latest one, so the first check only records it.
+  if (paper.arxivVersion === null && paper.versionCheckedAt === null) {
+    return { ...checked, arxivVersion: remote.version, updatedDate: remote.updated };
+  }
+  if (!isNewer(paper, remote)) return checked;
+  // Keep an update the user has already seen, so dismissing it sticks.
+  if (paper.availableUpdate && paper.availableUpdate.updated === remote.updated) return checked;
+
+  return {
+    ...checked,
+    availableUpdate: {
+      version: remote.version,
+      updated: remote.updated,
+      title: remote.title,
+      abstract: remote.summary,
+      authors: remote.authors.map(author => author.name),
+      comment: remote.comment || '',
+      pdfUrl: remote.pdfLink,
+      foundAt: checkedAt,
+      dismissedAt: null
+    }
+  };
+}
+
+export function hasPendingUpdate(paper: Paper): boolean {
+  return paper.availableUpdate !== null && paper.availableUpdate.dismissedAt === null;
+}
+
+// Word-level diff via the longest common subsequence.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], word: string): void => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      parts.push({ type, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  a.slice(i).forEach(word => push('removed', word));
+  b.slice(j).forEach(word => push('added', word));
+  return parts;
+}
+
+// Only the fields that actually differ between the stored and new version.
+export function versionChanges(paper: Paper, update: ArxivUpdate): VersionChange[] {
+  const fields: [VersionChange['field'], string, string, string][] = [
+    ['title', 'Title', paper.title, update.title],
+    ['authors', 'Authors', paper.authors.join(', '), update.authors.join(', ')],
+    ['abstract', 'Abstract', paper.abstract, update.abstract]
+  ];
+  return fields
+    .filter(([, , before, after]) => before.replace(/\s+/g, ' ').trim() !== after.replace(/\s+/g, ' ').trim())
+    .map(([field, label, before, after]) => ({ field, label, diff: diffWords(before, after) }));
+}
+
+// Moves the paper to the new version. Annotations and notes are kept as they
+// are; anything derived from the old PDF is read again from the new one.
+export function switchToUpdate(paper: Paper, update: ArxivUpdate): Paper {
+  return {
+    ...paper,
+    title: update.title,
+    abstract: update.abstract,
+    authors: update.authors,
+    arxivVersion: update.version,
+    arxivComment: update.comment,
+    updatedDate: update.updated,
+    pdfUrl: update.pdfUrl,
+    availableUpdate: null,
+    sections: [],
+    sectionsSource: null,
+    references: [],
+    referencesExtractedAt: null,
+    referencesLookedUpAt: null
+  };
+}
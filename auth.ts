@@ -0,0 +1,76 @@
+import { createId } from './ids';
+import type { UserProfile } from './types';
+
+export interface AuthProvider {
+  name: string;
+  // Resolves to null when nobody is signed in.
+  getCurrentUser(): Promise<UserProfile | null>;
+  // Providers with their own sign-in flow may ignore the display name.
+  signIn(displayName: string): Promise<UserProfile>;
+  signOut(): Promise<void>;
+  // Everyone who can be @mentioned.
+  listUsers(): Promise<UserProfile[]>;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const CURRENT_USER_KEY = 'academic-good-reads:current-user';
+const PROFILES_KEY = 'academic-good-reads:profiles';
+
+// Development stand-in that keeps profiles in localStorage. Signing in with a
+// name that was used before restores the same profile, so switching between
+// a few local names is enough to try out authorship rules.
+export class LocalAuthProvider implements AuthProvider {
+  readonly name = 'Local profiles';
+
+  async getCurrentUser(): Promise<UserProfile | null> {
+    const userId = window.localStorage.getItem(CURRENT_USER_KEY);
+    return userId ? this.readProfiles()[userId] ?? null : null;
+  }
+
+  async signIn(displayName: string): Promise<UserProfile> {
+    const name = displayName.trim();
+    if (!name) {
+      throw new AuthError('Enter a name to sign in.');
+    }
+
+    const profiles = this.readProfiles();
+    let profile = Object.values(profiles).find(
+      candidate => candidate.displayName.toLowerCase() === name.toLowerCase()
+    );
+    if (!profile) {
+      profile = { id: `local-${createId()}`, displayName: name };
+      window.localStorage.setItem(PROFILES_KEY, JSON.stringify({ ...profiles, [profile.id]: profile }));
+    }
+
+    window.localStorage.setItem(CURRENT_USER_KEY, profile.id);
+    return profile;
+  }
+
+  async signOut(): Promise<void> {
+    window.localStorage.removeItem(CURRENT_USER_KEY);
+  }
+
+  async listUsers(): Promise<UserProfile[]> {
+    return Object.values(this.readProfiles());
+  }
+
+  private readProfiles(): Record<string, UserProfile> {
+    try {
+      return JSON.parse(window.localStorage.getItem(PROFILES_KEY) ?? '{}') as Record<string, UserProfile>;
+    } catch {
+      return {};
+    }
+  }
+}
+
+// Only the local stand-in exists so far; a hosted provider for shared
+// libraries plugs in here.
+export function createAuthProvider(): AuthProvider {
+  return new LocalAuthProvider();
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { citationKeys, exportCitations } from './citation-formats';
+import { createPaper } from './paper-factory';
+import type { Paper } from './types';
+
+function paper(id: string, overrides: Partial<Paper> = {}): Paper {
+  return createPaper({
+    id,
+    title: 'Deep Learning',
+    authors: ['Yann LeCun', 'Yoshua Bengio'],
+    abstract: '',
+    publicationDate: '2015-05-27T00:00:00.000Z',
+    journal: 'Nature',
+    doi: '',
+    pdfUrl: null,
+    arxivId: null,
+    ...overrides
+  });
+}
+
+describe('citationKeys', () => {
+  it('builds keys from the first author, year and first title word', () => {
+    const keys = citationKeys([paper('p1', { title: 'The Unreasonable Effectiveness of Data' })]);
+
+    expect(keys.get('p1')).toBe('lecun2015unreasonable');
+  });
+
+  it('suffixes colliding keys in id order', () => {
+    const keys = citationKeys([paper('p2'), paper('p1'), paper('p3')]);
+
+    expect([keys.get('p1'), keys.get('p2'), keys.get('p3')]).toEqual(['lecun2015deep', 'lecun2015deepb', 'lecun2015deepc']);
+  });
+
+  it('keeps a stored key when a colliding paper is added', () => {
+    const exported = paper('p2', { citationKey: 'lecun2015deep' });
+    const keys = citationKeys([exported, paper('p1')]);
+
+    expect(keys.get('p2')).toBe('lecun2015deep');
+    expect(keys.get('p1')).toBe('lecun2015deepb');
+  });
+
+  it('gives the same key whichever papers are exported', () => {
+    const library = [paper('p1'), paper('p2')];
+    const keys = citationKeys(library);
+
+    expect(exportCitations([library[1]], keys, 'bibtex')).toContain('@article{lecun2015deepb,');
+  });
+});
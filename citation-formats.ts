@@ -0,0 +1,388 @@
+import { splitArxivId } from './arxiv-parser';
+import { findDuplicate } from './duplicates';
+import { createPaper } from './paper-factory';
+import type { PaperMetadata } from './paper-factory';
+import type { Paper } from './types';
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const CITATION_FORMATS: { value: CitationFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'bibtex', label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  { value: 'ris', label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  { value: 'csl-json', label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' }
+];
+
+const TITLE_STOP_WORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'for', 'to', 'and', 'with', 'towards']);
+
+function isPreprint(paper: Paper): boolean {
+  return paper.journal === 'arXiv preprint';
+}
+
+function asciiWord(text: string): string {
+  return text.normalize('NFKD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+}
+
+function lastName(author: string): string {
+  const parts = author.trim().split(/\s+/);
+  return parts[parts.length - 1] ?? '';
+}
+
+function firstName(author: string): string {
+  const parts = author.trim().split(/\s+/);
+  return parts.slice(0, -1).join(' ');
+}
+
+function dateParts(paper: Paper): [number, number, number] | null {
+  const date = new Date(paper.publicationDate);
+  if (Number.isNaN(date.getTime())) return null;
+  return [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+}
+
+// The second paper with a key gets b, then c, …, z, aa, ab, ….
+function suffixLetters(index: number): string {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    n--;
+    letters = String.fromCharCode(97 + (n % 26)) + letters;
+    n = Math.floor(n / 26);
+  }
+  return letters;
+}
+
+function baseCitationKey(paper: Paper): string {
+  const author = asciiWord(lastName(paper.authors[0] ?? '')) || 'anon';
+  const year = dateParts(paper)?.[0] ?? 'nd';
+  const titleWord = paper.title
+    .split(/\s+/)
+    .map(asciiWord)
+    .find(word => word && !TITLE_STOP_WORDS.has(word)) ?? '';
+  return `${author}${year}${titleWord}`;
+}
+
+// Papers keep the key they were first exported with. The others get one
+// built from their metadata, with a b, c, … suffix when it is already taken
+// elsewhere in the library; the caller stores the keys of exported papers.
+export function citationKeys(library: Paper[]): Map<string, string> {
+  const keys = new Map<string, string>();
+  const taken = new Set<string>();
+  library.forEach(paper => {
+    if (paper.citationKey) {
+      keys.set(paper.id, paper.citationKey);
+      taken.add(paper.citationKey);
+    }
+  });
+
+  library
+    .filter(paper => !paper.citationKey)
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .forEach(paper => {
+      const base = baseCitationKey(paper);
+      let key = base;
+      for (let suffix = 1; taken.has(key); suffix++) key = `${base}${suffixLetters(suffix)}`;
+      keys.set(paper.id, key);
+      taken.add(key);
+    });
+  return keys;
+}
+
+function escapeBibtex(value: string): string {
+  return value.replace(/([&%$#_])/g, '\\$1').replace(/[{}]/g, '');
+}
+
+function toBibtexEntry(paper: Paper, key: string): string {
+  const fields: [string, string][] = [
+    ['title', `{${escapeBibtex(paper.title)}}`],
+    ['author', escapeBibtex(paper.authors.join(' and '))]
+  ];
+  if (!isPreprint(paper)) fields.push(['journal', escapeBibtex(paper.journal)]);
+
+  const date = dateParts(paper);
+  if (date) {
+    fields.push(['year', String(date[0])]);
+    fields.push(['month', String(date[1])]);
+  }
+  if (paper.doi) fields.push(['doi', paper.doi]);
+  if (paper.arxivId) {
+    fields.push(['eprint', paper.arxivId]);
+    fields.push(['archivePrefix', 'arXiv']);
+    if (paper.primaryCategory) fields.push(['primaryClass', paper.primaryCategory]);
+    fields.push(['url', `https://arxiv.org/abs/${paper.arxivId}`]);
+  }
+
+  const body = fields.map(([name, value]) => `  ${name} = {${value}}`).join(',\n');
+  return `@${isPreprint(paper) ? 'misc' : 'article'}{${key},\n${body}\n}`;
+}
+
+function toRisEntry(paper: Paper): string {
+  const lines: [string, string][] = [['TY', isPreprint(paper) ? 'GEN' : 'JOUR']];
+  paper.authors.forEach(author => lines.push(['AU', `${lastName(author)}, ${firstName(author)}`]));
+  lines.push(['TI', paper.title]);
+  if (!isPreprint(paper)) lines.push(['JO', paper.journal]);
+
+  const date = dateParts(paper);
+  if (date) {
+    lines.push(['PY', String(date[0])]);
+    lines.push(['DA', `${date[0]}/${String(date[1]).padStart(2, '0')}/${String(date[2]).padStart(2, '0')}`]);
+  }
+  if (paper.abstract) lines.push(['AB', paper.abstract.replace(/\s+/g, ' ')]);
+  if (paper.doi) lines.push(['DO', paper.doi]);
+  if (paper.arxivId) lines.push(['UR', `https://arxiv.org/abs/${paper.arxivId}`]);
+  lines.push(['ER', '']);
+
+  return lines.map(([tag, value]) => `${tag}  - ${value}`.trimEnd()).join('\n');
+}
+
+function toCslItem(paper: Paper, key: string): Record<string, unknown> {
+  const date = dateParts(paper);
+  return {
+    id: key,
+    type: isPreprint(paper) ? 'article' : 'article-journal',
+    title: paper.title,
+    author: paper.authors.map(author => ({ family: lastName(author), given: firstName(author) })),
+    ...(isPreprint(paper) ? { publisher: 'arXiv' } : { 'container-title': paper.journal }),
+    ...(date ? { issued: { 'date-parts': [date] } } : {}),
+    ...(paper.abstract ? { abstract: paper.abstract } : {}),
+    ...(paper.doi ? { DOI: paper.doi } : {}),
+    ...(paper.arxivId ? { number: paper.arxivId, URL: `https://arxiv.org/abs/${paper.arxivId}` } : {})
+  };
+}
+
+// `keys` comes from `citationKeys` over the whole library.
+export function exportCitations(
+  papers: Paper[],
+  keys: Map<string, string>,
+  format: CitationFormat
+): string {
+  switch (format) {
+    case 'bibtex':
+      return papers.map(paper => toBibtexEntry(paper, keys.get(paper.id) ?? paper.id)).join('\n\n') + '\n';
+    case 'ris':
+      return papers.map(toRisEntry).join('\n\n') + '\n';
+    case 'csl-json':
+      return JSON.stringify(papers.map(paper => toCslItem(paper, keys.get(paper.id) ?? paper.id)), null, 2);
+  }
+}
+
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308',
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '~': '\u0303'
+};
+
+function cleanLatex(value: string): string {
+  return value
+    .replace(/\\(["'`^~])\s*\{?([A-Za-z])\}?/g, (_, accent: string, letter: string) =>
+      `${letter}${LATEX_ACCENTS[accent]}`
+    )
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/\\[A-Za-z]+\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC');
+}
+
+function normalizeAuthor(author: string): string {
+  const [last, first] = author.split(',').map(part => part.trim());
+  return first ? `${first} ${last}` : last;
+}
+
+function toIsoDate(year: string | undefined, month?: string, day?: string): string | null {
+  const yearNumber = Number(year);
+  if (!yearNumber) return null;
+
+  const monthIndex = Number(month) ||
+    (month ? ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+      .indexOf(month.slice(0, 3).toLowerCase()) + 1 : 0);
+  const date = new Date(Date.UTC(yearNumber, Math.max(monthIndex, 1) - 1, Number(day) || 1));
+  return date.toISOString();
+}
+
+function arxivIdFrom(...candidates: (string | undefined)[]): string | null {
+  for (const candidate of candidates) {
+    const match = candidate?.match(/(?:arxiv\.org\/(?:abs|pdf)\/|arXiv\.|^)(\d{4}\.\d{4,5}(?:v\d+)?|[a-z-]+(?:\.[A-Z]{2})?\/\d{7}(?:v\d+)?)/i);
+    if (match) return splitArxivId(match[1]).id;
+  }
+  return null;
+}
+
+function toMetadata(fields: {
+  title: string;
+  authors: string[];
+  abstract?: string;
+  journal?: string;
+  year?: string;
+  month?: string;
+  day?: string;
+  doi?: string;
+  arxivId: string | null;
+}): PaperMetadata {
+  const publicationDate = toIsoDate(fields.year, fields.month, fields.day);
+  return {
+    title: fields.title,
+    authors: fields.authors,
+    abstract: fields.abstract ?? '',
+    ...(publicationDate ? { publicationDate } : {}),
+    journal: fields.journal || (fields.arxivId ? 'arXiv preprint' : ''),
+    doi: fields.doi ?? '',
+    pdfUrl: fields.arxivId ? `https://arxiv.org/pdf/${fields.arxivId}` : null,
+    arxivId: fields.arxivId
+  };
+}
+
+function readBibtexValue(text: string, start: number): { value: string; end: number } {
+  let index = start;
+  while (/\s/.test(text[index] ?? '')) index++;
+
+  const open = text[index];
+  if (open === '{' || open === '"') {
+    const close = open === '{' ? '}' : '"';
+    let depth = 0;
+    for (let i = index + 1; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\') {
+        i++;
+      } else if (char === close && depth === 0) {
+        return { value: text.slice(index + 1, i), end: i + 1 };
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+      }
+    }
+    return { value: text.slice(index + 1), end: text.length };
+  }
+
+  const match = text.slice(index).match(/^[^,}\s]*/);
+  const raw = match ? match[0] : '';
+  return { value: raw, end: index + raw.length };
+}
+
+function parseBibtexFields(body: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const fieldName = /\s*,?\s*([A-Za-z][\w-]*)\s*=/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = fieldName.exec(body)) !== null) {
+    const { value, end } = readBibtexValue(body, fieldName.lastIndex);
+    fields[match[1].toLowerCase()] = value;
+    fieldName.lastIndex = end;
+  }
+  return fields;
+}
+
+export function parseBibtex(text: string): PaperMetadata[] {
+  const entries: PaperMetadata[] = [];
+  const entryStart = /@(\w+)\s*\{/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryStart.exec(text)) !== null) {
+    const type = match[1].toLowerCase();
+    const { value: body, end } = readBibtexValue(text, entryStart.lastIndex - 1);
+    entryStart.lastIndex = end;
+    if (['comment', 'string', 'preamble'].includes(type)) continue;
+
+    const fields = parseBibtexFields(body.slice(body.indexOf(',') + 1));
+    const title = cleanLatex(fields.title ?? '');
+    if (!title) continue;
+
+    const arxivPrefix = (fields.archiveprefix ?? fields.eprinttype ?? '').toLowerCase();
+    entries.push(toMetadata({
+      title,
+      authors: cleanLatex(fields.author ?? '').split(/\s+and\s+/).filter(Boolean).map(normalizeAuthor),
+      abstract: fields.abstract ? cleanLatex(fields.abstract) : undefined,
+      journal: cleanLatex(fields.journal ?? fields.journaltitle ?? fields.booktitle ?? ''),
+      year: fields.year ?? fields.date?.slice(0, 4),
+      month: fields.month ?? fields.date?.slice(5, 7),
+      doi: fields.doi,
+      arxivId: arxivIdFrom(arxivPrefix === 'arxiv' ? fields.eprint : undefined, fields.url, fields.doi)
+    }));
+  }
+  return entries;
+}
+
+export function parseRis(text: string): PaperMetadata[] {
+  const entries: PaperMetadata[] = [];
+  let tags: Record<string, string[]> = {};
+
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.match(/^([A-Z][A-Z0-9])\s{2}-\s?(.*)$/);
+    if (!match) return;
+
+    const [, tag, value] = match;
+    if (tag === 'TY') {
+      tags = {};
+    } else if (tag === 'ER') {
+      const first = (...names: string[]): string | undefined =>
+        names.map(name => tags[name]?.[0]).find(Boolean);
+      const title = first('TI', 'T1');
+      if (title) {
+        const [year, month, day] = (first('DA', 'PY', 'Y1') ?? '').split('/');
+        const urls = tags.UR ?? [];
+        entries.push(toMetadata({
+          title,
+          authors: [...(tags.AU ?? []), ...(tags.A1 ?? [])].map(normalizeAuthor),
+          abstract: first('AB', 'N2'),
+          journal: first('JO', 'JF', 'T2'),
+          year,
+          month,
+          day,
+          doi: first('DO'),
+          arxivId: arxivIdFrom(...urls, first('DO'))
+        }));
+      }
+      tags = {};
+    } else {
+      tags[tag] = [...(tags[tag] ?? []), value.trim()];
+    }
+  });
+  return entries;
+}
+
+export function parseCitationFile(fileName: string, text: string): PaperMetadata[] {
+  return /\.ris$/i.test(fileName) ? parseRis(text) : parseBibtex(text);
+}
+
+export interface ImportResult {
+  papers: Paper[];
+  added: number;
+  matched: number;
+}
+
+// Existing records win; an import only fills identifiers and text the
+// library is missing.
+function fillMissing(paper: Paper, metadata: PaperMetadata): Paper {
+  return {
+    ...paper,
+    doi: paper.doi || metadata.doi,
+    arxivId: paper.arxivId ?? metadata.arxivId,
+    pdfUrl: paper.pdfUrl ?? metadata.pdfUrl,
+    abstract: paper.abstract || metadata.abstract,
+    journal: paper.journal && paper.journal !== 'arXiv preprint' ? paper.journal : metadata.journal || paper.journal
+  };
+}
+
+export function mergeImportedPapers(library: Paper[], imported: PaperMetadata[]): ImportResult {
+  let papers = [...library];
+  let added = 0;
+  let matched = 0;
+
+  imported.forEach(metadata => {
+    // Only identifier matches are merged silently; similar titles are left
+    // for the user to review as possible duplicates.
+    const match = findDuplicate(papers, metadata);
+    const existing = match?.reason === 'title' ? null : match?.paper;
+    if (existing) {
+      papers = papers.map(paper => (paper.id === existing.id ? fillMissing(paper, metadata) : paper));
+      matched++;
+    } else {
+      papers.push(createPaper(metadata));
+      added++;
+    }
+  });
+
+  return { papers, added, matched };
+}
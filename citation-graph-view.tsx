@@ -0,0 +1,235 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { layoutCitationGraph } from './citation-graph';
+import type { CitationGraph, NodePosition } from './citation-graph';
+import type { Paper, PaperReference } from './types';
+
+interface CitationGraphViewProps {
+  papers: Paper[];
+  graph: CitationGraph;
+  addingKey: string | null;
+  addError: string | null;
+  onOpenPaper: (paper: Paper) => void;
+  onAddReference: (reference: PaperReference) => void;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 600;
+const LIST_LENGTH = 10;
+
+function nodeRadius(citationCount: number): number {
+  return 6 + 3 * Math.sqrt(citationCount);
+}
+
+function shortTitle(title: string): string {
+  return title.length > 40 ? `${title.slice(0, 37)}...` : title;
+}
+
+export default function CitationGraphView({
+  papers,
+  graph,
+  addingKey,
+  addError,
+  onOpenPaper,
+  onAddReference
+}: CitationGraphViewProps): JSX.Element {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [draggedPositions, setDraggedPositions] = useState<Record<string, NodePosition>>({});
+  const dragRef = useRef<{ id: string; isActive: boolean; moved: boolean } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const papersById = new Map(papers.map(paper => [paper.id, paper]));
+  const linkedIds = useMemo(
+    () => Array.from(new Set(graph.edges.flatMap(edge => [edge.from, edge.to]))),
+    [graph.edges]
+  );
+  const layout = useMemo(() => layoutCitationGraph(linkedIds, graph.edges), [linkedIds, graph.edges]);
+  const positionOf = (id: string): NodePosition => draggedPositions[id] ?? layout.get(id) ?? { x: 0.5, y: 0.5 };
+  const citationCount = (id: string): number => graph.citedBy.get(id)?.length ?? 0;
+
+  const neighbours = new Set(
+    hoveredId
+      ? graph.edges
+        .filter(edge => edge.from === hoveredId || edge.to === hoveredId)
+        .flatMap(edge => [edge.from, edge.to])
+      : []
+  );
+
+  const mostCited = Array.from(graph.citedBy.keys())
+    .filter(id => papersById.has(id))
+    .sort((a, b) => citationCount(b) - citationCount(a) || a.localeCompare(b))
+    .slice(0, LIST_LENGTH);
+
+  const toGraphPosition = (event: React.PointerEvent): NodePosition | null => {
+    const bounds = svgRef.current?.getBoundingClientRect();
+    if (!bounds) return null;
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height))
+    };
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white border border-[#D6D0C4] rounded-lg p-4">
+        <h2 className="text-lg font-semibold text-[#1B3A33] mb-1">Citations within your library</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Arrows point from a paper to the papers it cites. Larger nodes are cited more often.
+          Drag nodes to rearrange them, and click one to open it.
+        </p>
+        {linkedIds.length === 0 ? (
+          <p className="text-sm text-gray-500 py-12 text-center">
+            No citations between your papers yet. Reference lists are read when a paper is opened in the reader.
+          </p>
+        ) : (
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto select-none touch-none"
+            onPointerMove={(e) => {
+              const drag = dragRef.current;
+              const position = drag?.isActive && toGraphPosition(e);
+              if (!drag || !position) return;
+              drag.moved = true;
+              setDraggedPositions(prev => ({ ...prev, [drag.id]: position }));
+            }}
+            onPointerUp={() => {
+              if (dragRef.current) dragRef.current.isActive = false;
+            }}
+            onPointerLeave={() => {
+              if (dragRef.current) dragRef.current.isActive = false;
+            }}
+          >
+            <defs>
+              <marker id="citation-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#D6D0C4" />
+              </marker>
+              <marker id="citation-arrow-active" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#FF9900" />
+              </marker>
+            </defs>
+
+            {graph.edges.map(edge => {
+              const from = positionOf(edge.from);
+              const to = positionOf(edge.to);
+              const dx = (to.x - from.x) * WIDTH;
+              const dy = (to.y - from.y) * HEIGHT;
+              const length = Math.max(Math.hypot(dx, dy), 1);
+              // Stop at the edge of the cited paper's node so the arrow shows.
+              const inset = nodeRadius(citationCount(edge.to)) + 2;
+              const isActive = hoveredId !== null && (edge.from === hoveredId || edge.to === hoveredId);
+
+              return (
+                <line
+                  key={`${edge.from}-${edge.to}`}
+                  x1={from.x * WIDTH}
+                  y1={from.y * HEIGHT}
+                  x2={to.x * WIDTH - (dx / length) * inset}
+                  y2={to.y * HEIGHT - (dy / length) * inset}
+                  stroke={isActive ? '#FF9900' : '#D6D0C4'}
+                  strokeWidth={isActive ? 2 : 1}
+                  opacity={hoveredId && !isActive ? 0.3 : 1}
+                  markerEnd={`url(#${isActive ? 'citation-arrow-active' : 'citation-arrow'})`}
+                />
+              );
+            })}
+
+            {linkedIds.map(id => {
+              const paper = papersById.get(id);
+              if (!paper) return null;
+              const { x, y } = positionOf(id);
+              const count = citationCount(id);
+              const isDimmed = hoveredId !== null && !neighbours.has(id);
+              const showLabel = id === hoveredId || (!hoveredId && count >= 2);
+
+              return (
+                <g
+                  key={id}
+                  transform={`translate(${x * WIDTH} ${y * HEIGHT})`}
+                  className="cursor-pointer"
+                  opacity={isDimmed ? 0.3 : 1}
+                  onPointerEnter={() => setHoveredId(id)}
+                  onPointerLeave={() => setHoveredId(null)}
+                  onPointerDown={() => {
+                    dragRef.current = { id, isActive: true, moved: false };
+                  }}
+                  onClick={() => {
+                    // Letting go of a dragged node isn't a click on it.
+                    if (!dragRef.current?.moved) onOpenPaper(paper);
+                  }}
+                >
+                  <title>{`${paper.title}\nCited by ${count} in your library`}</title>
+                  <circle
+                    r={nodeRadius(count)}
+                    fill={paper.readingStatus === 'read' ? '#1B3A33' : '#F9F8F4'}
+                    stroke={id === hoveredId ? '#FF9900' : '#1B3A33'}
+                    strokeWidth={2}
+                  />
+                  {showLabel && (
+                    <text y={-nodeRadius(count) - 6} textAnchor="middle" className="text-[12px] fill-[#1B3A33]">
+                      {shortTitle(paper.title)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <section className="bg-white border border-[#D6D0C4] rounded-lg p-4">
+          <h2 className="text-lg font-semibold text-[#1B3A33] mb-4">Most cited in your library</h2>
+          <ol className="space-y-2 text-sm">
+            {mostCited.map(id => {
+              const paper = papersById.get(id) as Paper;
+              return (
+                <li key={id} className="flex items-center gap-2">
+                  <button
+                    onClick={() => onOpenPaper(paper)}
+                    className="min-w-0 truncate text-left text-[#1B3A33] hover:underline"
+                  >
+                    {paper.title}
+                  </button>
+                  <span className="ml-auto flex-shrink-0 text-gray-500">{citationCount(id)}</span>
+                </li>
+              );
+            })}
+          </ol>
+          {mostCited.length === 0 && <p className="text-sm text-gray-500">Nothing cited yet</p>}
+        </section>
+
+        <section className="bg-white border border-[#D6D0C4] rounded-lg p-4">
+          <h2 className="text-lg font-semibold text-[#1B3A33] mb-1">Cited but not in your library</h2>
+          <p className="text-sm text-gray-500 mb-4">Works your papers cite most often that you haven&apos;t added</p>
+          {addError && <p className="mb-2 text-xs text-red-700">{addError}</p>}
+          <ol className="space-y-3 text-sm">
+            {graph.external.slice(0, LIST_LENGTH).map(work => (
+              <li key={work.key}>
+                <p className="text-xs text-gray-700 line-clamp-2" title={work.reference.text}>
+                  {work.reference.text}
+                </p>
+                <div className="mt-1 flex items-center gap-3 text-xs">
+                  <button
+                    onClick={() => onAddReference(work.reference)}
+                    disabled={addingKey !== null}
+                    className="text-[#1B3A33] hover:underline disabled:opacity-50"
+                  >
+                    {addingKey === work.key ? 'Adding...' : 'Add to library'}
+                  </button>
+                  <span className="text-gray-500">
+                    Cited by {work.citedBy.length} {work.citedBy.length === 1 ? 'paper' : 'papers'}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ol>
+          {graph.external.length === 0 && (
+            <p className="text-sm text-gray-500">Identified references outside your library will show up here</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
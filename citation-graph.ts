@@ -0,0 +1,136 @@
+import { libraryPaperKeys, referenceKey, resolveReference } from './references';
+import type { Paper, PaperReference } from './types';
+
+export interface CitationEdge {
+  // `from` cites `to`; both are library paper ids.
+  from: string;
+  to: string;
+}
+
+// A work cited from the library that isn't in it.
+export interface ExternalWork {
+  key: string;
+  reference: PaperReference;
+  citedBy: string[];
+}
+
+export interface CitationGraph {
+  edges: CitationEdge[];
+  // Library paper id to the ids of library papers citing it.
+  citedBy: Map<string, string[]>;
+  // Most cited first.
+  external: ExternalWork[];
+}
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+// The fields the graph is built from.
+export type CitingPaper = Pick<Paper, 'id' | 'arxivId' | 'doi' | 'references'>;
+
+export function citingPaper(paper: Paper): CitingPaper {
+  return { id: paper.id, arxivId: paper.arxivId, doi: paper.doi, references: paper.references };
+}
+
+export function buildCitationGraph(papers: CitingPaper[]): CitationGraph {
+  const byKey = libraryPaperKeys(papers);
+  const edges: CitationEdge[] = [];
+  const citedBy = new Map<string, string[]>();
+  const external = new Map<string, ExternalWork>();
+
+  papers.forEach(paper => {
+    const seen = new Set<string>();
+    paper.references.forEach(reference => {
+      const cited = resolveReference(reference, byKey);
+      if (cited) {
+        if (cited.id === paper.id || seen.has(cited.id)) return;
+        seen.add(cited.id);
+        edges.push({ from: paper.id, to: cited.id });
+        citedBy.set(cited.id, [...(citedBy.get(cited.id) ?? []), paper.id]);
+        return;
+      }
+
+      const key = referenceKey(reference);
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+      const work = external.get(key) ?? { key, reference, citedBy: [] };
+      work.citedBy.push(paper.id);
+      external.set(key, work);
+    });
+  });
+
+  return {
+    edges,
+    citedBy,
+    external: Array.from(external.values()).sort(
+      (a, b) => b.citedBy.length - a.citedBy.length || a.key.localeCompare(b.key)
+    )
+  };
+}
+
+const LAYOUT_ITERATIONS = 300;
+
+// Force-directed layout in a unit square: linked papers pull together and
+// all papers push apart. Starts from a circle ordered by id, so the same
+// graph always gets the same picture.
+export function layoutCitationGraph(nodeIds: string[], edges: CitationEdge[]): Map<string, NodePosition> {
+  const ids = [...nodeIds].sort();
+  const positions = new Map<string, NodePosition>(
+    ids.map((id, index) => {
+      const angle = (2 * Math.PI * index) / Math.max(ids.length, 1);
+      return [id, { x: 0.5 + 0.4 * Math.cos(angle), y: 0.5 + 0.4 * Math.sin(angle) }];
+    })
+  );
+  if (ids.length < 2) return positions;
+
+  const ideal = Math.sqrt(1 / ids.length);
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+    // Moves shrink as the layout settles.
+    const temperature = 0.1 * (1 - iteration / LAYOUT_ITERATIONS);
+    const forces = new Map(ids.map(id => [id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions.get(ids[i]) as NodePosition;
+        const b = positions.get(ids[j]) as NodePosition;
+        const dx = a.x - b.x || 1e-6;
+        const dy = a.y - b.y;
+        const distance = Math.max(Math.hypot(dx, dy), 1e-3);
+        const push = (ideal * ideal) / distance;
+        const forceA = forces.get(ids[i]) as NodePosition;
+        const forceB = forces.get(ids[j]) as NodePosition;
+        forceA.x += (dx / distance) * push;
+        forceA.y += (dy / distance) * push;
+        forceB.x -= (dx / distance) * push;
+        forceB.y -= (dy / distance) * push;
+      }
+    }
+
+    edges.forEach(edge => {
+      const a = positions.get(edge.from);
+      const b = positions.get(edge.to);
+      if (!a || !b) return;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 1e-3);
+      const pull = (distance * distance) / ideal;
+      const forceA = forces.get(edge.from) as NodePosition;
+      const forceB = forces.get(edge.to) as NodePosition;
+      forceA.x -= (dx / distance) * pull;
+      forceA.y -= (dy / distance) * pull;
+      forceB.x += (dx / distance) * pull;
+      forceB.y += (dy / distance) * pull;
+    });
+
+    forces.forEach((force, id) => {
+      const position = positions.get(id) as NodePosition;
+      const length = Math.max(Math.hypot(force.x, force.y), 1e-9);
+      const step = Math.min(length, temperature);
+      position.x = Math.min(0.98, Math.max(0.02, position.x + (force.x / length) * step));
+      position.y = Math.min(0.98, Math.max(0.02, position.y + (force.y / length) * step));
+    });
+  }
+  return positions;
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { CITATION_FORMATS, citationKeys, exportCitations, parseCitationFile } from './citation-formats';
+import type { CitationFormat } from './citation-formats';
+import { downloadFile } from './download';
+import type { PaperMetadata } from './paper-factory';
+import type { Paper } from './types';
+
+interface CitationToolbarProps {
+  papers: Paper[];
+  // The whole library, which citation keys are made unique across.
+  library: Paper[];
+  scopeLabel: string;
+  onImport: (imported: PaperMetadata[]) => { added: number; matched: number };
+  // Keys newly given to exported papers, by paper id, to be stored on them.
+  onAssignCitationKeys: (keys: Map<string, string>) => void;
+}
+
+export default function CitationToolbar({
+  papers,
+  library,
+  scopeLabel,
+  onImport,
+  onAssignCitationKeys
+}: CitationToolbarProps): JSX.Element {
+  const [format, setFormat] = useState<CitationFormat>('bibtex');
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (): void => {
+    const option = CITATION_FORMATS.find(candidate => candidate.value === format);
+    if (!option || papers.length === 0) return;
+
+    const keys = citationKeys(library);
+    downloadFile(`library.${option.extension}`, exportCitations(papers, keys, format), option.mimeType);
+    // RIS has no citation keys, so nothing is fixed by exporting it.
+    if (format !== 'ris') {
+      const assigned = new Map(papers
+        .filter(paper => !paper.citationKey && keys.has(paper.id))
+        .map(paper => [paper.id, keys.get(paper.id) as string]));
+      if (assigned.size > 0) onAssignCitationKeys(assigned);
+    }
+    setStatus(`Exported ${papers.length} ${papers.length === 1 ? 'paper' : 'papers'} as ${option.label}`);
+  };
+
+  const handleFile = async (file: File): Promise<void> => {
+    try {
+      const imported = parseCitationFile(file.name, await file.text());
+      if (imported.length === 0) {
+        setStatus(`No references found in ${file.name}`);
+        return;
+      }
+      const { added, matched } = onImport(imported);
+      setStatus(`Imported ${added} new ${added === 1 ? 'paper' : 'papers'}` +
+        (matched > 0 ? `, matched ${matched} already in your library` : ''));
+    } catch (error) {
+      console.error('Error importing citations:', error);
+      setStatus(`Could not read ${file.name}`);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap text-sm mb-6">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as CitationFormat)}
+        className="p-2 border border-[#D6D0C4] rounded bg-white"
+        aria-label="Citation format"
+      >
+        {CITATION_FORMATS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleExport}
+        disabled={papers.length === 0}
+        className="px-3 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28] disabled:opacity-50"
+      >
+        Export {scopeLabel} ({papers.length})
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="px-3 py-2 border border-[#D6D0C4] rounded hover:bg-gray-50"
+      >
+        Import .bib / .ris
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".bib,.bibtex,.ris"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+      {status && <span className="text-gray-600">{status}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+'use client';
+
+import { useState } from 'react';
+import { buildCommentTree, countReplies, pendingMention, splitMentions } from './discussion';
+import type { CommentNode } from './discussion';
+import type { Annotation, Comment, CommentAnchor, UserProfile } from './types';
+
+export type CommentDraft = Pick<Comment, 'text' | 'parentId' | 'anchor'>;
+
+interface CommentsPanelProps {
+  comments: Comment[];
+  annotations: Annotation[];
+  currentUser: UserProfile | null;
+  users: UserProfile[];
+  currentPage: number;
+  // Only threads anchored to this page are shown when set.
+  pageFilter: number | null;
+  onPageFilterChange: (page: number | null) => void;
+  onAdd: (comment: CommentDraft) => void;
+  onUpdate: (commentId: string, text: string) => void;
+  onDelete: (commentId: string) => void;
+  onSetResolved: (commentId: string, resolved: boolean) => void;
+  onGoToPage: (page: number) => void;
+  onGoToAnnotation: (annotation: Annotation) => void;
+}
+
+interface MentionInputProps {
+  value: string;
+  users: UserProfile[];
+  placeholder: string;
+  onChange: (value: string) => void;
+}
+
+interface CommentItemProps {
+  node: CommentNode;
+  depth: number;
+  currentUser: UserProfile | null;
+  users: UserProfile[];
+  onAdd: (comment: CommentDraft) => void;
+  onUpdate: (commentId: string, text: string) => void;
+  onDelete: (commentId: string) => void;
+}
+
+const MAX_INDENT_DEPTH = 3;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+function MentionInput({ value, users, placeholder, onChange }: MentionInputProps): JSX.Element {
+  const [caret, setCaret] = useState<number>(value.length);
+  const partial = pendingMention(value.slice(0, caret));
+  const suggestions = partial === null
+    ? []
+    : users
+      .filter(user => user.displayName.toLowerCase().startsWith(partial.toLowerCase()))
+      .slice(0, 5);
+
+  const insertMention = (user: UserProfile): void => {
+    const before = value.slice(0, caret - (partial?.length ?? 0));
+    const after = value.slice(caret);
+    onChange(`${before}${user.displayName} ${after}`);
+    setCaret(before.length + user.displayName.length + 1);
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        placeholder={placeholder}
+        className="w-full p-2 border border-gray-300 rounded resize-none text-sm focus:ring-2 focus:ring-[#1B3A33] focus:border-[#1B3A33]"
+        rows={3}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 bg-white border border-gray-200 rounded shadow-lg text-sm">
+          {suggestions.map(user => (
+            <li key={user.id}>
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(user)}
+                className="w-full text-left px-2 py-1 hover:bg-gray-100"
+              >
+                @{user.displayName}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function CommentText({ text, users, currentUser }: {
+  text: string;
+  users: UserProfile[];
+  currentUser: UserProfile | null;
+}): JSX.Element {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {splitMentions(text, users).map((segment, index) =>
+        segment.userId ? (
+          <span
+            key={index}
+            className={`font-semibold text-[#1B3A33] ${
+              segment.userId === currentUser?.id ? 'bg-[#FF9900]/30 rounded-sm' : ''
+            }`}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+function CommentItem({
+  node,
+  depth,
+  currentUser,
+  users,
+  onAdd,
+  onUpdate,
+  onDelete
+}: CommentItemProps): JSX.Element {
+  const { comment } = node;
+  const [mode, setMode] = useState<'view' | 'edit' | 'reply'>('view');
+  const [draft, setDraft] = useState<string>('');
+  const isOwn = currentUser !== null && comment.authorId === currentUser.id;
+
+  return (
+    <div>
+      {comment.deletedAt ? (
+        <p className="text-sm italic text-gray-400">Comment deleted</p>
+      ) : mode === 'edit' ? (
+        <MentionInput value={draft} users={users} placeholder="Edit your comment..." onChange={setDraft} />
+      ) : (
+        <CommentText text={comment.text} users={users} currentUser={currentUser} />
+      )}
+
+      {mode === 'edit' ? (
+        <div className="flex gap-2 text-sm mt-1">
+          <button
+            onClick={() => {
+              onUpdate(comment.id, draft);
+              setMode('view');
+            }}
+            disabled={!draft.trim()}
+            className="px-3 py-1 bg-[#1B3A33] text-white rounded hover:bg-[#152E28] disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setMode('view')}
+            className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : !comment.deletedAt && (
+        <div className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+          <span>{comment.userName} • {new Date(comment.timestamp).toLocaleDateString()}</span>
+          {comment.editedAt && (
+            <span title={`Edited ${new Date(comment.editedAt).toLocaleString()}`}>(edited)</span>
+          )}
+          <span className="ml-auto flex gap-2">
+            {currentUser && (
+              <button
+                onClick={() => {
+                  setMode('reply');
+                  setDraft('');
+                }}
+                className="hover:text-gray-900"
+              >
+                Reply
+              </button>
+            )}
+            {isOwn && (
+              <>
+                <button
+                  onClick={() => {
+                    setMode('edit');
+                    setDraft(comment.text);
+                  }}
+                  className="hover:text-gray-900"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm('Delete this comment?')) onDelete(comment.id);
+                  }}
+                  className="hover:text-red-700"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </span>
+        </div>
+      )}
+
+      {mode === 'reply' && (
+        <div className="mt-2 space-y-2">
+          <MentionInput value={draft} users={users} placeholder={`Reply to ${comment.userName}...`} onChange={setDraft} />
+          <div className="flex gap-2 text-sm">
+            <button
+              onClick={() => {
+                onAdd({ text: draft, parentId: comment.id, anchor: null });
+                setMode('view');
+              }}
+              disabled={!draft.trim()}
+              className="px-3 py-1 bg-[#1B3A33] text-white rounded hover:bg-[#152E28] disabled:opacity-50"
+            >
+              Reply
+            </button>
+            <button
+              onClick={() => setMode('view')}
+              className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {node.replies.length > 0 && (
+        <div className={`mt-3 space-y-3 ${depth < MAX_INDENT_DEPTH ? 'pl-3 border-l-2 border-gray-200' : ''}`}>
+          {node.replies.map(reply => (
+            <CommentItem
+              key={reply.comment.id}
+              node={reply}
+              depth={depth + 1}
+              currentUser={currentUser}
+              users={users}
+              onAdd={onAdd}
+              onUpdate={onUpdate}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CommentsPanel({
+  comments,
+  annotations,
+  currentUser,
+  users,
+  currentPage,
+  pageFilter,
+  onPageFilterChange,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onSetResolved,
+  onGoToPage,
+  onGoToAnnotation
+}: CommentsPanelProps): JSX.Element {
+  const [commentText, setCommentText] = useState<string>('');
+  // '' for the whole paper, 'page' for the current page, or an annotation id.
+  const [anchorChoice, setAnchorChoice] = useState<string>('');
+  const [showResolved, setShowResolved] = useState<boolean>(false);
+  // Threads whose collapsed state differs from the default (resolved = collapsed).
+  const [toggledIds, setToggledIds] = useState<Set<string>>(new Set());
+
+  const threads = buildCommentTree(comments).filter(({ comment }) =>
+    (showResolved || !comment.resolvedAt) &&
+    (pageFilter === null || comment.anchor?.pageNumber === pageFilter)
+  );
+  const resolvedCount = comments.filter(comment => !comment.parentId && comment.resolvedAt).length;
+
+  const anchorFromChoice = (): CommentAnchor | null => {
+    if (anchorChoice === 'page') return { type: 'page', pageNumber: currentPage };
+    const annotation = annotations.find(candidate => candidate.id === anchorChoice);
+    return annotation
+      ? { type: 'annotation', annotationId: annotation.id, pageNumber: annotation.pageNumber }
+      : null;
+  };
+
+  const toggleCollapsed = (commentId: string): void => {
+    setToggledIds(prev => {
+      const next = new Set(prev);
+      if (next.has(commentId)) next.delete(commentId);
+      else next.add(commentId);
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3 text-xs text-gray-600">
+        {pageFilter !== null ? (
+          <button
+            onClick={() => onPageFilterChange(null)}
+            className="px-2 py-0.5 rounded-full bg-[#1B3A33] text-white"
+          >
+            Page {pageFilter} {'×'}
+          </button>
+        ) : (
+          <span>All threads</span>
+        )}
+        {resolvedCount > 0 && (
+          <label className="ml-auto flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.target.checked)}
+              className="accent-[#1B3A33]"
+            />
+            Show resolved ({resolvedCount})
+          </label>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {threads.map(node => {
+          const { comment } = node;
+          const { anchor } = comment;
+          const isCollapsed = toggledIds.has(comment.id) !== Boolean(comment.resolvedAt);
+          const annotation = anchor?.type === 'annotation'
+            ? annotations.find(candidate => candidate.id === anchor.annotationId)
+            : undefined;
+          const replyCount = countReplies(node);
+
+          return (
+            <div
+              key={comment.id}
+              className={`p-3 rounded ${comment.resolvedAt ? 'bg-gray-50 opacity-75' : 'bg-gray-50'}`}
+            >
+              <div className="flex items-center gap-2 mb-2 text-xs">
+                {annotation ? (
+                  <button
+                    onClick={() => onGoToAnnotation(annotation)}
+                    className="min-w-0 truncate italic text-gray-600 border-l-4 pl-2 hover:text-gray-900"
+                    style={{ borderColor: annotation.color }}
+                  >
+                    {truncate(annotation.text, 50)}
+                  </button>
+                ) : anchor ? (
+                  <button
+                    onClick={() => onGoToPage(anchor.pageNumber)}
+                    className="text-[#1B3A33] hover:underline"
+                  >
+                    Page {anchor.pageNumber}
+                  </button>
+                ) : (
+                  <span className="text-gray-500">Whole paper</span>
+                )}
+                <span className="ml-auto flex gap-2 text-gray-500">
+                  {currentUser && !comment.deletedAt && (
+                    <button
+                      onClick={() => onSetResolved(comment.id, !comment.resolvedAt)}
+                      className="hover:text-gray-900"
+                    >
+                      {comment.resolvedAt ? 'Reopen' : 'Resolve'}
+                    </button>
+                  )}
+                  <button onClick={() => toggleCollapsed(comment.id)} className="hover:text-gray-900">
+                    {isCollapsed ? 'Expand' : 'Collapse'}
+                  </button>
+                </span>
+              </div>
+
+              {isCollapsed ? (
+                <p className="text-xs text-gray-500">
+                  {comment.deletedAt ? 'Comment deleted' : truncate(comment.text, 60)}
+                  {replyCount > 0 && ` • ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+                  {comment.resolvedAt && ` • Resolved by ${comment.resolvedBy ?? 'someone'}`}
+                </p>
+              ) : (
+                <CommentItem
+                  node={node}
+                  depth={0}
+                  currentUser={currentUser}
+                  users={users}
+                  onAdd={onAdd}
+                  onUpdate={onUpdate}
+                  onDelete={onDelete}
+                />
+              )}
+            </div>
+          );
+        })}
+        {threads.length === 0 && (
+          <p className="text-sm text-gray-500">
+            {pageFilter !== null ? `No open threads on page ${pageFilter}` : 'No discussion yet'}
+          </p>
+        )}
+      </div>
+
+      {currentUser ? (
+        <div className="mt-4 space-y-2">
+          <MentionInput
+            value={commentText}
+            users={users}
+            placeholder="Start a thread... use @ to mention someone"
+            onChange={setCommentText}
+          />
+          <select
+            value={anchorChoice}
+            onChange={(e) => setAnchorChoice(e.target.value)}
+            className="w-full p-2 text-sm border border-gray-300 rounded bg-white"
+            aria-label="Anchor thread to"
+          >
+            <option value="">About the whole paper</option>
+            <option value="page">About page {currentPage}</option>
+            {annotations.map(annotation => (
+              <option key={annotation.id} value={annotation.id}>
+                p. {annotation.pageNumber}: {truncate(annotation.text, 40)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              onAdd({ text: commentText, parentId: null, anchor: anchorFromChoice() });
+              setCommentText('');
+            }}
+            disabled={!commentText.trim()}
+            className="w-full px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28] disabled:opacity-50"
+          >
+            Post Comment
+          </button>
+        </div>
+      ) : (
+        <p className="mt-4 text-sm text-gray-500">Sign in to join the discussion</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { Paper, Review } from './types';
+
+export interface CommunityRating {
+  // Null when nobody has reviewed the paper yet.
+  average: number | null;
+  count: number;
+  // Number of reviews per star, index 0 being one star.
+  distribution: number[];
+}
+
+export function communityRating(reviews: Review[]): CommunityRating {
+  const distribution = [0, 0, 0, 0, 0];
+  let total = 0;
+  reviews.forEach(review => {
+    const stars = Math.min(5, Math.max(1, Math.round(review.rating)));
+    distribution[stars - 1]++;
+    total += stars;
+  });
+  return {
+    average: reviews.length > 0 ? total / reviews.length : null,
+    count: reviews.length,
+    distribution
+  };
+}
+
+// Highest average first, more reviews breaking ties; unreviewed papers last.
+export function compareByCommunityRating(a: Paper, b: Paper): number {
+  const ratingA = communityRating(a.reviews);
+  const ratingB = communityRating(b.reviews);
+  if (ratingA.average === null || ratingB.average === null) {
+    return (ratingA.average === null ? 1 : 0) - (ratingB.average === null ? 1 : 0);
+  }
+  return ratingB.average - ratingA.average || ratingB.count - ratingA.count;
+}
+
+// Most helpful first; among equally helpful reviews the newest leads.
+export function sortReviewsByHelpfulness(reviews: Review[]): Review[] {
+  return [...reviews].sort((a, b) =>
+    b.helpfulVoterIds.length - a.helpfulVoterIds.length || b.timestamp.localeCompare(a.timestamp)
+  );
+}
@@ -0,0 +1,123 @@
+import type { Comment, Paper, UserProfile } from './types';
+
+export interface CommentNode {
+  comment: Comment;
+  replies: CommentNode[];
+}
+
+export interface MentionSegment {
+  text: string;
+  // Set when the segment is an @mention of a known user.
+  userId?: string;
+}
+
+export function buildCommentTree(comments: Comment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>(
+    comments.map(comment => [comment.id, { comment, replies: [] }])
+  );
+  const roots: CommentNode[] = [];
+
+  [...comments]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .forEach(comment => {
+      const node = nodes.get(comment.id) as CommentNode;
+      const parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+      // Replies whose parent is gone are promoted rather than lost.
+      if (parent) parent.replies.push(node);
+      else roots.push(node);
+    });
+
+  return roots;
+}
+
+export function threadRootId(comments: Comment[], commentId: string): string {
+  let current = comments.find(comment => comment.id === commentId);
+  while (current?.parentId) {
+    const parent = comments.find(comment => comment.id === current?.parentId);
+    if (!parent) break;
+    current = parent;
+  }
+  return current?.id ?? commentId;
+}
+
+export function countReplies(node: CommentNode): number {
+  return node.replies.reduce((count, reply) => count + 1 + countReplies(reply), 0);
+}
+
+// Unresolved, anchored threads per page, for markers in the reader.
+export function activeDiscussionPages(comments: Comment[]): Record<number, number> {
+  const pages: Record<number, number> = {};
+  comments.forEach(comment => {
+    if (comment.parentId || !comment.anchor || comment.resolvedAt || comment.deletedAt) return;
+    pages[comment.anchor.pageNumber] = (pages[comment.anchor.pageNumber] ?? 0) + 1;
+  });
+  return pages;
+}
+
+// Profiles from the auth provider plus everyone who has written in the
+// library, so past contributors stay mentionable.
+export function mentionableUsers(papers: Paper[], providerUsers: UserProfile[]): UserProfile[] {
+  const users = new Map(providerUsers.map(user => [user.id, user]));
+  papers.forEach(paper => {
+    [...paper.comments, ...paper.reviews].forEach(entry => {
+      if (entry.authorId && !users.has(entry.authorId)) {
+        users.set(entry.authorId, { id: entry.authorId, displayName: entry.userName });
+      }
+    });
+  });
+  return Array.from(users.values()).sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+// Display names may contain spaces, so mentions are matched against known
+// names, longest first, rather than parsed as a single word.
+export function splitMentions(text: string, users: UserProfile[]): MentionSegment[] {
+  const byLength = [...users].sort((a, b) => b.displayName.length - a.displayName.length);
+  const segments: MentionSegment[] = [];
+  let plainStart = 0;
+  let index = text.indexOf('@');
+
+  while (index !== -1) {
+    const rest = text.slice(index + 1).toLowerCase();
+    const user = byLength.find(candidate => {
+      const name = candidate.displayName.toLowerCase();
+      return rest.startsWith(name) && !/[\p{L}\p{N}]/u.test(rest.charAt(name.length));
+    });
+
+    if (user) {
+      if (index > plainStart) segments.push({ text: text.slice(plainStart, index) });
+      const end = index + 1 + user.displayName.length;
+      segments.push({ text: text.slice(index, end), userId: user.id });
+      plainStart = end;
+      index = text.indexOf('@', end);
+    } else {
+      index = text.indexOf('@', index + 1);
+    }
+  }
+  if (plainStart < text.length) segments.push({ text: text.slice(plainStart) });
+
+  return segments;
+}
+
+export function findMentions(text: string, users: UserProfile[]): string[] {
+  const ids = splitMentions(text, users)
+    .map(segment => segment.userId)
+    .filter((userId): userId is string => Boolean(userId));
+  return Array.from(new Set(ids));
+}
+
+// The partial name being typed after an "@" at the end of `text`, if any.
+export function pendingMention(text: string): string | null {
+  const match = text.match(/(?:^|\s)@([^\s@]*)$/);
+  return match ? match[1] : null;
+}
+
+export function unresolvedMentionCount(comments: Comment[], userId: string): number {
+  const resolvedRoots = new Set(
+    comments.filter(comment => !comment.parentId && comment.resolvedAt).map(comment => comment.id)
+  );
+  return comments.filter(comment =>
+    comment.mentionedUserIds.includes(userId) &&
+    !comment.deletedAt &&
+    !resolvedRoots.has(threadRootId(comments, comment.id))
+  ).length;
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { DUPLICATE_REASON_LABELS } from './duplicates';
+import type { DuplicateMatch } from './duplicates';
+import type { Paper } from './types';
+
+interface DuplicateDialogProps {
+  paper: Paper;
+  match: DuplicateMatch;
+  onMerge: () => void;
+  onKeepBoth: () => void;
+  onCancel: () => void;
+}
+
+function PaperSummary({ paper, label }: { paper: Paper; label: string }): JSX.Element {
+  return (
+    <div className="flex-1 min-w-0 p-3 border border-[#D6D0C4] rounded bg-[#F9F8F4]">
+      <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">{label}</p>
+      <p className="font-medium text-[#1B3A33]">{paper.title}</p>
+      <p className="text-sm text-gray-600 mt-1 truncate">{paper.authors.join(', ')}</p>
+      <p className="text-xs text-gray-500 mt-1">
+        {paper.journal}
+        {paper.arxivId && ` • arXiv:${paper.arxivId}${paper.arxivVersion ? `v${paper.arxivVersion}` : ''}`}
+        {paper.doi && ` • ${paper.doi}`}
+      </p>
+    </div>
+  );
+}
+
+export default function DuplicateDialog({
+  paper,
+  match,
+  onMerge,
+  onKeepBoth,
+  onCancel
+}: DuplicateDialogProps): JSX.Element {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4" onClick={onCancel}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="duplicate-dialog-title"
+        className="w-full max-w-2xl bg-white rounded-lg shadow-xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="duplicate-dialog-title" className="text-lg font-semibold text-[#1B3A33]">
+          This paper may already be in your library
+        </h2>
+        <p className="text-sm text-gray-600 mt-1 mb-4">{DUPLICATE_REASON_LABELS[match.reason]}</p>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <PaperSummary paper={match.paper} label="In your library" />
+          <PaperSummary paper={paper} label="Adding" />
+        </div>
+        <p className="text-sm text-gray-600 mt-4">
+          Merging keeps your existing notes, highlights, discussion and rating, and fills in any details the
+          library copy is missing.
+        </p>
+        <div className="flex justify-end gap-2 mt-6">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-[#1B3A33] rounded hover:bg-[#F4F1EA]">
+            Cancel
+          </button>
+          {match.reason === 'title' && (
+            <button onClick={onKeepBoth} className="px-4 py-2 text-sm text-[#1B3A33] rounded hover:bg-[#F4F1EA]">
+              Add as a separate paper
+            </button>
+          )}
+          <button onClick={onMerge} className="px-4 py-2 text-sm bg-[#1B3A33] text-white rounded hover:bg-[#152E28]">
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { DUPLICATE_REASON_LABELS } from './duplicates';
+import type { DuplicatePair } from './duplicates';
+import type { Paper } from './types';
+
+interface DuplicatesPanelProps {
+  pairs: DuplicatePair[];
+  onMerge: (keptId: string, otherId: string) => void;
+  onDismiss: (firstId: string, secondId: string) => void;
+}
+
+function activitySummary(paper: Paper): string {
+  const parts = [
+    paper.annotations.length > 0 && `${paper.annotations.length} highlights`,
+    paper.notes.length > 0 && `${paper.notes.length} notes`,
+    paper.comments.length > 0 && `${paper.comments.length} comments`,
+    paper.reviews.length > 0 && `${paper.reviews.length} reviews`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No notes or highlights';
+}
+
+function PairSide({ paper, onKeep }: { paper: Paper; onKeep: () => void }): JSX.Element {
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="font-medium text-[#1B3A33] truncate" title={paper.title}>{paper.title}</p>
+      <p className="text-xs text-gray-500 mt-1 truncate">
+        {paper.journal}
+        {paper.arxivId && ` • arXiv:${paper.arxivId}`}
+        {paper.doi && ` • ${paper.doi}`}
+      </p>
+      <p className="text-xs text-gray-500">{activitySummary(paper)}</p>
+      <button onClick={onKeep} className="mt-1 text-xs text-[#1B3A33] hover:underline">
+        Keep this one
+      </button>
+    </div>
+  );
+}
+
+export default function DuplicatesPanel({ pairs, onMerge, onDismiss }: DuplicatesPanelProps): JSX.Element {
+  return (
+    <section className="mb-8 p-4 border border-[#FF9900]/50 bg-[#FF9900]/5 rounded-lg">
+      <h2 className="font-semibold text-[#1B3A33]">Possible duplicates</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Choose which record to keep. Notes, highlights, discussion and reviews from the other are merged into it;
+        highlights made on a different PDF may not line up exactly.
+      </p>
+      <ul className="space-y-4">
+        {pairs.map(({ first, second, reason }) => (
+          <li key={`${first.id}-${second.id}`} className="text-sm">
+            <p className="text-xs text-gray-500 mb-2">{DUPLICATE_REASON_LABELS[reason]}</p>
+            <div className="flex gap-4">
+              <PairSide paper={first} onKeep={() => onMerge(first.id, second.id)} />
+              <PairSide paper={second} onKeep={() => onMerge(second.id, first.id)} />
+              <button
+                onClick={() => onDismiss(first.id, second.id)}
+                className="self-start flex-shrink-0 text-xs text-gray-500 hover:text-[#1B3A33]"
+              >
+                Not duplicates
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
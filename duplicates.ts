@@ -0,0 +1,174 @@
+import type { PaperMetadata } from './paper-factory';
+import { normalizeArxivId, normalizeDoi } from './references';
+import type { Paper, Review } from './types';
+
+export type DuplicateReason = 'arxivId' | 'doi' | 'title';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  arxivId: 'Same arXiv id',
+  doi: 'Same DOI',
+  title: 'Similar title and authors'
+};
+
+export interface DuplicateMatch {
+  paper: Paper;
+  reason: DuplicateReason;
+}
+
+export interface DuplicatePair {
+  first: Paper;
+  second: Paper;
+  reason: DuplicateReason;
+}
+
+type Identity = Pick<PaperMetadata, 'title' | 'authors' | 'doi' | 'arxivId'>;
+
+const ARXIV_DOI_PREFIX = '10.48550/arxiv.';
+
+function titleTokens(title: string): Set<string> {
+  return new Set(title.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1));
+}
+
+// Tolerates small differences in wording and punctuation between versions.
+export function isSameTitle(a: string, b: string): boolean {
+  const tokensA = titleTokens(a);
+  const tokensB = titleTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return false;
+
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return (2 * shared) / (tokensA.size + tokensB.size) >= 0.9;
+}
+
+function surname(author: string): string {
+  const name = author.includes(',') ? author.split(',')[0] : author.trim().split(/\s+/).pop() ?? '';
+  return name.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// Papers with unknown authors can only be compared by title.
+function shareAnAuthor(a: string[], b: string[]): boolean {
+  if (a.length === 0 || b.length === 0) return true;
+  const surnames = new Set(a.map(surname));
+  return b.some(author => surnames.has(surname(author)));
+}
+
+// arXiv DOIs identify the preprint, so they count as its arXiv id.
+function arxivKey(identity: Identity): string | null {
+  if (identity.arxivId) return normalizeArxivId(identity.arxivId);
+  const doi = identity.doi ? normalizeDoi(identity.doi) : '';
+  return doi.startsWith(ARXIV_DOI_PREFIX) ? normalizeArxivId(doi.slice(ARXIV_DOI_PREFIX.length)) : null;
+}
+
+function publisherDoi(identity: Identity): string | null {
+  const doi = identity.doi ? normalizeDoi(identity.doi) : '';
+  return doi && !doi.startsWith(ARXIV_DOI_PREFIX) ? doi : null;
+}
+
+export function duplicateReason(a: Identity, b: Identity): DuplicateReason | null {
+  const arxivA = arxivKey(a);
+  if (arxivA && arxivA === arxivKey(b)) return 'arxivId';
+
+  const doiA = publisherDoi(a);
+  if (doiA && doiA === publisherDoi(b)) return 'doi';
+
+  // The arXiv and journal versions of a paper share neither identifier.
+  if (isSameTitle(a.title, b.title) && shareAnAuthor(a.authors, b.authors)) return 'title';
+  return null;
+}
+
+// Identifier matches are preferred over title matches.
+export function findDuplicate(papers: Paper[], identity: Identity): DuplicateMatch | null {
+  let titleMatch: DuplicateMatch | null = null;
+  for (const paper of papers) {
+    const reason = duplicateReason(paper, identity);
+    if (reason && reason !== 'title') return { paper, reason };
+    if (reason && !titleMatch) titleMatch = { paper, reason };
+  }
+  return titleMatch;
+}
+
+// Pairs of library papers that look like the same work, skipping pairs the
+// user has already marked as different.
+export function findDuplicatePairs(papers: Paper[]): DuplicatePair[] {
+  const pairs: DuplicatePair[] = [];
+  papers.forEach((first, index) => {
+    papers.slice(index + 1).forEach(second => {
+      if (first.notDuplicateOf.includes(second.id) || second.notDuplicateOf.includes(first.id)) return;
+      const reason = duplicateReason(first, second);
+      if (reason) pairs.push({ first, second, reason });
+    });
+  });
+  return pairs;
+}
+
+const STATUS_PROGRESS: Record<NonNullable<Paper['readingStatus']>, number> = {
+  want: 1,
+  current: 2,
+  read: 3
+};
+
+function furthestStatus(a: Paper['readingStatus'], b: Paper['readingStatus']): Paper['readingStatus'] {
+  return (b ? STATUS_PROGRESS[b] : 0) > (a ? STATUS_PROGRESS[a] : 0) ? b : a;
+}
+
+function unionById<T extends { id: string }>(kept: T[], other: T[]): T[] {
+  const ids = new Set(kept.map(item => item.id));
+  return [...kept, ...other.filter(item => !ids.has(item.id))];
+}
+
+function union(a: string[], b: string[]): string[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+// Each author keeps one review: the more recently written or edited one.
+function mergeReviews(kept: Review[], other: Review[]): Review[] {
+  const lastChanged = (review: Review): string => review.editedAt ?? review.timestamp;
+  return unionById(kept, other).reduce<Review[]>((reviews, review) => {
+    const existing = review.authorId ? reviews.find(candidate => candidate.authorId === review.authorId) : undefined;
+    if (!existing) return [...reviews, review];
+    return lastChanged(review) > lastChanged(existing)
+      ? reviews.map(candidate => (candidate === existing ? review : candidate))
+      : reviews;
+  }, []);
+}
+
+// Folds `other` into `kept`. Kept metadata wins, gaps are filled from the
+// other record, and everything users wrote on either is carried over.
+export function mergePapers(kept: Paper, other: Paper): Paper {
+  const keptDoi = kept.doi && !normalizeDoi(kept.doi).startsWith(ARXIV_DOI_PREFIX) ? kept.doi : '';
+  const citationCounts = [kept.citations, other.citations].filter((count): count is number => count !== null);
+
+  return {
+    ...kept,
+    abstract: kept.abstract || other.abstract,
+    journal: kept.journal && kept.journal !== 'arXiv preprint' ? kept.journal : other.journal || kept.journal,
+    // Prefer a publisher DOI over arXiv's own.
+    doi: keptDoi || other.doi || kept.doi,
+    pdfUrl: kept.pdfUrl ?? other.pdfUrl,
+    ...(kept.arxivId ? {} : {
+      arxivId: other.arxivId,
+      arxivVersion: other.arxivVersion,
+      arxivComment: other.arxivComment
+    }),
+    citations: citationCounts.length > 0 ? Math.max(...citationCounts) : null,
+    userRating: kept.userRating ?? other.userRating,
+    readingStatus: furthestStatus(kept.readingStatus, other.readingStatus),
+    shelfIds: union(kept.shelfIds, other.shelfIds),
+    collectionIds: union(kept.collectionIds, other.collectionIds),
+    tags: union(kept.tags, other.tags),
+    ...(kept.totalPages > 0 ? {} : { currentPage: other.currentPage, totalPages: other.totalPages }),
+    annotations: unionById(kept.annotations, other.annotations),
+    notes: unionById(kept.notes, other.notes),
+    comments: unionById(kept.comments, other.comments),
+    reviews: mergeReviews(kept.reviews, other.reviews),
+    ...(kept.sectionsSource !== null ? {} : { sections: other.sections, sectionsSource: other.sectionsSource }),
+    ...(kept.referencesExtractedAt !== null ? {} : {
+      references: other.references,
+      referencesExtractedAt: other.referencesExtractedAt,
+      referencesLookedUpAt: other.referencesLookedUpAt
+    }),
+    notDuplicateOf: union(kept.notDuplicateOf, other.notDuplicateOf).filter(
+      id => id !== kept.id && id !== other.id
+    ),
+    citationKey: kept.citationKey ?? other.citationKey
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { ENRICHMENT_MAX_AGE_MS, FixtureEnrichmentProvider, applyEnrichment, needsEnrichment } from './enrichment';
+import { createPaper } from './paper-factory';
+import type { Paper } from './types';
+
+const CHECKED_AT = '2024-06-01T00:00:00.000Z';
+
+function paper(overrides: Partial<Paper> = {}): Paper {
+  return createPaper({
+    id: 'p1',
+    title: 'Attention Is All You Need',
+    authors: ['Ashish Vaswani'],
+    abstract: '',
+    publicationDate: '2017-06-12',
+    journal: 'arXiv preprint',
+    doi: '',
+    pdfUrl: 'https://arxiv.org/pdf/1706.03762',
+    arxivId: '1706.03762',
+    ...overrides
+  });
+}
+
+describe('needsEnrichment', () => {
+  const now = new Date(CHECKED_AT).getTime();
+
+  it('is due for papers never checked', () => {
+    expect(needsEnrichment(paper(), now)).toBe(true);
+  });
+
+  it('is not due until the last check is older than the maximum age', () => {
+    const recent = new Date(now - ENRICHMENT_MAX_AGE_MS + 1000).toISOString();
+    const stale = new Date(now - ENRICHMENT_MAX_AGE_MS - 1000).toISOString();
+
+    expect(needsEnrichment(paper({ enrichmentCheckedAt: recent }), now)).toBe(false);
+    expect(needsEnrichment(paper({ enrichmentCheckedAt: stale }), now)).toBe(true);
+  });
+});
+
+describe('applyEnrichment', () => {
+  it('fills in the DOI, venue and citation count and stamps each field', () => {
+    const result = applyEnrichment(
+      paper(),
+      { doi: '10.5555/3295222.3295349', journal: 'NeurIPS', citations: 100 },
+      CHECKED_AT
+    );
+
+    expect(result).toMatchObject({
+      doi: '10.5555/3295222.3295349',
+      journal: 'NeurIPS',
+      citations: 100,
+      enrichmentCheckedAt: CHECKED_AT,
+      fieldUpdatedAt: { doi: CHECKED_AT, journal: CHECKED_AT, citations: CHECKED_AT }
+    });
+  });
+
+  it('replaces an arXiv DOI with a publisher DOI', () => {
+    const result = applyEnrichment(paper({ doi: '10.48550/arXiv.1706.03762' }), { doi: '10.5555/1' }, CHECKED_AT);
+
+    expect(result.doi).toBe('10.5555/1');
+    expect(result.fieldUpdatedAt.doi).toBe(CHECKED_AT);
+  });
+
+  it('keeps a publisher DOI the provider disagrees with', () => {
+    const result = applyEnrichment(paper({ doi: '10.5555/1' }), { doi: '10.5555/2' }, CHECKED_AT);
+
+    expect(result.doi).toBe('10.5555/1');
+    expect(result.fieldUpdatedAt.doi).toBeUndefined();
+  });
+
+  it('records a zero citation count', () => {
+    const result = applyEnrichment(paper({ citations: 5 }), { citations: 0 }, CHECKED_AT);
+
+    expect(result.citations).toBe(0);
+    expect(result.fieldUpdatedAt).toEqual({ citations: CHECKED_AT });
+  });
+
+  it('only records the check when the provider has nothing', () => {
+    const original = paper({ journal: 'arXiv preprint', citations: 3, fieldUpdatedAt: { citations: '2024-01-01' } });
+    const result = applyEnrichment(original, null, CHECKED_AT);
+
+    expect(result).toEqual({ ...original, enrichmentCheckedAt: CHECKED_AT });
+  });
+});
+
+describe('FixtureEnrichmentProvider', () => {
+  const provider = new FixtureEnrichmentProvider({
+    '10.5555/doi-key': { doi: '10.5555/doi-key', citations: 1 },
+    '1706.03762': { doi: '10.48550/arxiv.1706.03762', journal: 'NeurIPS', citations: 100000 },
+    'A Title Only Match': { journal: 'ICML', citations: 7 }
+  });
+
+  it('resolves by DOI regardless of case', async () => {
+    const result = await provider.resolve(paper({ doi: '10.5555/DOI-Key', arxivId: '1706.03762' }));
+
+    expect(result).toEqual({ doi: '10.5555/doi-key', citations: 1 });
+  });
+
+  it('resolves by arXiv id when the DOI is unknown', async () => {
+    const result = await provider.resolve(paper({ doi: '10.5555/unknown' }));
+
+    expect(result).toEqual({ doi: '10.48550/arxiv.1706.03762', journal: 'NeurIPS', citations: 100000 });
+  });
+
+  it('resolves by exact title', async () => {
+    const result = await provider.resolve(paper({ arxivId: null, title: 'A Title Only Match' }));
+
+    expect(result).toEqual({ journal: 'ICML', citations: 7 });
+  });
+
+  it('resolves to null for unknown papers', async () => {
+    expect(await provider.resolve(paper({ arxivId: '2401.00001', title: 'Unknown' }))).toBeNull();
+  });
+
+  it('feeds applyEnrichment', async () => {
+    const original = paper();
+    const result = applyEnrichment(original, await provider.resolve(original), CHECKED_AT);
+
+    expect(result).toMatchObject({ doi: '10.48550/arxiv.1706.03762', journal: 'NeurIPS', citations: 100000 });
+  });
+});
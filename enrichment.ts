@@ -0,0 +1,165 @@
+import { isSameTitle } from './duplicates';
+import type { PaperMetadata } from './paper-factory';
+import { ProxyError, proxyRequest } from './proxy-client';
+import type { EnrichableField, Paper } from './types';
+
+export type EnrichmentResult = Partial<Pick<Paper, EnrichableField>>;
+
+export interface EnrichmentProvider {
+  name: string;
+  // Resolves to null when the provider has no record of the paper.
+  resolve(paper: Paper, signal?: AbortSignal): Promise<EnrichmentResult | null>;
+}
+
+export const ENRICHMENT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CrossrefWork {
+  DOI: string;
+  title?: string[];
+  'container-title'?: string[];
+  'short-container-title'?: string[];
+  'is-referenced-by-count'?: number;
+  author?: { given?: string; family?: string; name?: string }[];
+  issued?: { 'date-parts'?: number[][] };
+  abstract?: string;
+}
+
+function fromCrossrefWork(work: CrossrefWork): EnrichmentResult {
+  const venue = work['container-title']?.[0] ?? work['short-container-title']?.[0];
+  return {
+    doi: work.DOI.toLowerCase(),
+    ...(venue ? { journal: venue } : {}),
+    ...(typeof work['is-referenced-by-count'] === 'number'
+      ? { citations: work['is-referenced-by-count'] }
+      : {})
+  };
+}
+
+// DOI suffixes may contain `#`, `?`, spaces and slashes, so only the prefix
+// goes into the path as it is.
+function crossrefWorkPath(doi: string): string {
+  const [prefix, ...suffix] = doi.split('/');
+  return `/works/${prefix}/${encodeURIComponent(suffix.join('/'))}`;
+}
+
+async function fetchCrossrefWork(doi: string, signal?: AbortSignal): Promise<CrossrefWork | null> {
+  try {
+    const response = await proxyRequest({
+      protocol: 'https',
+      origin: 'api.crossref.org',
+      path: crossrefWorkPath(doi),
+      method: 'GET'
+    }, signal);
+    const body: { message: CrossrefWork } = await response.json();
+    return body.message;
+  } catch (error) {
+    if (error instanceof ProxyError && error.code === 'NOT_FOUND') return null;
+    throw error;
+  }
+}
+
+// Full metadata for a DOI, for adding a cited paper that isn't on arXiv.
+export async function fetchCrossrefMetadata(doi: string, signal?: AbortSignal): Promise<PaperMetadata | null> {
+  const work = await fetchCrossrefWork(doi, signal);
+  if (!work) return null;
+
+  const [year, month = 1, day = 1] = work.issued?.['date-parts']?.[0] ?? [];
+  return {
+    title: work.title?.[0] ?? doi,
+    authors: (work.author ?? [])
+      .map(author => author.name ?? [author.given, author.family].filter(Boolean).join(' '))
+      .filter(Boolean),
+    // Crossref abstracts are JATS XML.
+    abstract: (work.abstract ?? '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim(),
+    publicationDate: year ? new Date(Date.UTC(year, month - 1, day)).toISOString() : '',
+    journal: work['container-title']?.[0] ?? work['short-container-title']?.[0] ?? '',
+    doi: work.DOI.toLowerCase(),
+    pdfUrl: null,
+    arxivId: null,
+    ...(typeof work['is-referenced-by-count'] === 'number'
+      ? { citations: work['is-referenced-by-count'] }
+      : {})
+  };
+}
+
+export class CrossrefProvider implements EnrichmentProvider {
+  readonly name = 'Crossref';
+
+  async resolve(paper: Paper, signal?: AbortSignal): Promise<EnrichmentResult | null> {
+    // arXiv's own DOIs are registered with DataCite, so Crossref has nothing
+    // for them; fall through to a bibliographic search for the published version.
+    if (paper.doi && !paper.doi.startsWith('10.48550/')) {
+      const work = await fetchCrossrefWork(paper.doi, signal);
+      if (work) return fromCrossrefWork(work);
+    }
+
+    const response = await proxyRequest({
+      protocol: 'https',
+      origin: 'api.crossref.org',
+      path: '/works',
+      method: 'GET',
+      params: {
+        'query.bibliographic': [paper.title, ...paper.authors.slice(0, 2)].join(' '),
+        rows: 3,
+        select: 'DOI,title,container-title,short-container-title,is-referenced-by-count'
+      }
+    }, signal);
+    const body: { message: { items: CrossrefWork[] } } = await response.json();
+
+    const match = body.message.items.find(item => isSameTitle(item.title?.[0] ?? '', paper.title));
+    return match ? fromCrossrefWork(match) : null;
+  }
+}
+
+// Offline stand-in keyed by DOI, arXiv id or exact title.
+export class FixtureEnrichmentProvider implements EnrichmentProvider {
+  readonly name = 'Fixtures';
+
+  constructor(private readonly fixtures: Record<string, EnrichmentResult>) {}
+
+  async resolve(paper: Paper): Promise<EnrichmentResult | null> {
+    const keys = [paper.doi.toLowerCase(), paper.arxivId, paper.title].filter(Boolean) as string[];
+    const key = keys.find(candidate => candidate in this.fixtures);
+    return key ? this.fixtures[key] : null;
+  }
+}
+
+const DEV_FIXTURES: Record<string, EnrichmentResult> = {
+  '1706.03762': { doi: '10.48550/arxiv.1706.03762', journal: 'Advances in Neural Information Processing Systems', citations: 100000 },
+  '1810.04805': { doi: '10.18653/v1/n19-1423', journal: 'Proceedings of NAACL-HLT', citations: 90000 }
+};
+
+export function createEnrichmentProvider(): EnrichmentProvider {
+  return process.env.NEXT_PUBLIC_ENRICHMENT_PROVIDER === 'fixtures'
+    ? new FixtureEnrichmentProvider(DEV_FIXTURES)
+    : new CrossrefProvider();
+}
+
+export function needsEnrichment(paper: Paper, now: number): boolean {
+  return !paper.enrichmentCheckedAt ||
+    now - new Date(paper.enrichmentCheckedAt).getTime() > ENRICHMENT_MAX_AGE_MS;
+}
+
+export function applyEnrichment(paper: Paper, result: EnrichmentResult | null, checkedAt: string): Paper {
+  const fieldUpdatedAt = { ...paper.fieldUpdatedAt };
+  const updated: Paper = { ...paper, enrichmentCheckedAt: checkedAt };
+
+  if (result?.doi) {
+    // Prefer a publisher DOI over arXiv's own when both are known.
+    if (!paper.doi || paper.doi.startsWith('10.48550/') || paper.doi === result.doi) {
+      updated.doi = result.doi;
+      fieldUpdatedAt.doi = checkedAt;
+    }
+  }
+  if (result?.journal) {
+    updated.journal = result.journal;
+    fieldUpdatedAt.journal = checkedAt;
+  }
+  if (typeof result?.citations === 'number') {
+    updated.citations = result.citations;
+    fieldUpdatedAt.citations = checkedAt;
+  }
+
+  updated.fieldUpdatedAt = fieldUpdatedAt;
+  return updated;
+}
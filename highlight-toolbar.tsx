@@ -0,0 +1,44 @@
+'use client';
+
+import type { TextSelection } from './pdf-viewer';
+
+export const HIGHLIGHT_COLORS = [
+  { value: '#FFEB3B', label: 'Yellow' },
+  { value: '#81C784', label: 'Green' },
+  { value: '#64B5F6', label: 'Blue' },
+  { value: '#F06292', label: 'Pink' }
+];
+
+interface HighlightToolbarProps {
+  selection: TextSelection;
+  onHighlight: (color: string) => void;
+  onDismiss: () => void;
+}
+
+export default function HighlightToolbar({ selection, onHighlight, onDismiss }: HighlightToolbarProps): JSX.Element {
+  return (
+    <div
+      className="fixed z-20 flex items-center gap-2 p-2 bg-white border border-gray-200 rounded-lg shadow-lg"
+      style={{ top: selection.clientRect.bottom + 8, left: selection.clientRect.left }}
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <span className="text-xs text-gray-600">Highlight</span>
+      {HIGHLIGHT_COLORS.map(color => (
+        <button
+          key={color.value}
+          onClick={() => onHighlight(color.value)}
+          className="w-6 h-6 rounded-full border border-gray-300 hover:scale-110 transition-transform"
+          style={{ backgroundColor: color.value }}
+          aria-label={`Highlight in ${color.label.toLowerCase()}`}
+        />
+      ))}
+      <button
+        onClick={onDismiss}
+        className="px-1 text-gray-500 hover:text-gray-900"
+        aria-label="Cancel highlight"
+      >
+        {'×'}
+      </button>
+    </div>
+  );
+}
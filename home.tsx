@@ -1,92 +1,393 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-
-interface Annotation {
-  id: string;
-  text: string;
-  color: string;
-  pageNumber: number;
-  position: { x: number; y: number };
-  timestamp: string;
-}
-
-interface Note {
-  id: string;
-  text: string;
-  pageNumber: number;
-  timestamp: string;
-}
-
-interface Comment {
-  id: string;
-  text: string;
-  timestamp: string;
-  userName: string;
-}
-
-interface Review {
-  id: string;
-  text: string;
-  rating: number;
-  timestamp: string;
-  userName: string;
-}
-
-interface Paper {
-  id: string;
-  title: string;
-  authors: string[];
-  abstract: string;
-  publicationDate: string;
-  journal: string;
-  userRating: number | null;
-  citations: number;
-  doi: string;
-  readingStatus: 'want' | 'current' | 'read' | null;
-  pdfUrl: string | null;
-  arxivId: string | null;
-  currentPage: number;
-  totalPages: number;
-  annotations: Annotation[];
-  notes: Note[];
-  sections: { title: string; page: number }[];
-  comments: Comment[];
-  reviews: Review[];
-}
-
-interface SearchFilters {
-  query: string;
-  sortBy: 'date' | 'rating' | 'title';
-  shelf: 'all' | 'want' | 'current' | 'read';
-}
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import ArxivQueryBuilder from './arxiv-query-builder';
+import { ArxivRequestError, fetchArxivPage, fetchArxivPapersById } from './arxiv-client';
+import { compileArxivQuery, createSimpleArxivQuery } from './arxiv-query';
+import type { ArxivQuery } from './arxiv-query';
+import { applyVersionCheck, hasPendingUpdate, switchToUpdate } from './arxiv-versions';
+import { createAuthProvider } from './auth';
+import { mergeImportedPapers } from './citation-formats';
+import { buildCitationGraph, citingPaper } from './citation-graph';
+import CitationGraphView from './citation-graph-view';
+import CitationToolbar from './citation-toolbar';
+import CommentsPanel from './comments-panel';
+import type { CommentDraft } from './comments-panel';
+import { communityRating, compareByCommunityRating } from './community-ratings';
+import { activeDiscussionPages, findMentions, mentionableUsers, unresolvedMentionCount } from './discussion';
+import DuplicateDialog from './duplicate-dialog';
+import { findDuplicate, findDuplicatePairs, mergePapers } from './duplicates';
+import type { DuplicateMatch } from './duplicates';
+import DuplicatesPanel from './duplicates-panel';
+import { applyEnrichment, createEnrichmentProvider, fetchCrossrefMetadata } from './enrichment';
+import type { EnrichmentResult } from './enrichment';
+import HighlightToolbar from './highlight-toolbar';
+import { createId } from './ids';
+import {
+  appendReadingEvent,
+  deleteFullText,
+  loadArxivCandidates,
+  loadCollections,
+  loadFullTexts,
+  loadInbox,
+  loadLibrary,
+  loadReadingEvents,
+  loadReadingGoals,
+  loadShelves,
+  loadSubscriptions,
+  MAX_CANDIDATES,
+  saveArxivCandidates,
+  saveCollections,
+  saveFullText,
+  saveInbox,
+  saveLibrary,
+  saveReadingGoals,
+  saveShelves,
+  saveSubscriptions
+} from './library-db';
+import LibrarySidebar from './library-sidebar';
+import NotesPanel from './notes-panel';
+import type { NoteDraft } from './notes-panel';
+import { requestPersistentStorage, wantsOffline } from './offline-pdfs';
+import OfflineStoragePanel from './offline-storage-panel';
+import {
+  collectionSubtreeIds,
+  createCollection,
+  createShelf,
+  hasOrganizationFilters,
+  matchesOrganizationFilters,
+  READING_STATUS_OPTIONS
+} from './organization';
+import { createPaper, createPaperFromArxiv } from './paper-factory';
+import type { PaperMetadata } from './paper-factory';
+import PaperOrganizer from './paper-organizer';
+import type { PaperOrganization } from './paper-organizer';
+import { currentSectionIndex, extractFullText, extractSections } from './pdf-outline';
+import PdfViewer, { ZOOM_LEVELS } from './pdf-viewer';
+import type { PageRequest, TextSelection } from './pdf-viewer';
+import { describeProxyError } from './proxy-client';
+import RatingSummary from './rating-summary';
+import ReadingDashboard from './reading-dashboard';
+import { importReadingList } from './reading-list';
+import type { ReadingListBundle } from './reading-list';
+import ReadingListShare from './reading-list-share';
+import type { ReadingListImportOptions } from './reading-list-share';
+import { readingProgress } from './reading-stats';
+import {
+  buildRecommendationModel,
+  recommendationText,
+  recommendedForLibrary,
+  relatedArxivQuery,
+  relatedPapers,
+  topTerms
+} from './recommendations';
+import { applyReferenceLookup, createReferenceLookupProvider } from './reference-lookup';
+import { extractReferences, referenceKey } from './references';
+import ReferencesPanel from './references-panel';
+import RelatedPapers from './related-papers';
+import ReviewsPanel from './reviews-panel';
+import type { ReviewDraft } from './reviews-panel';
+import { buildSearchIndex, searchableText, searchLibrary } from './search-index';
+import SearchSnippet from './search-snippet';
+import SubscriptionInbox from './subscription-inbox';
+import type { InboxTarget } from './subscription-inbox';
+import { addToInbox, createSubscription, pruneInbox } from './subscriptions';
+import type {
+  Annotation,
+  ArxivPaper,
+  Comment,
+  InboxItem,
+  Note,
+  Paper,
+  PaperReference,
+  ReadingEvent,
+  ReadingGoal,
+  Review,
+  SearchFilters,
+  Subscription
+} from './types';
+import { useArxivSearch } from './use-arxiv-search';
+import { useBackgroundEnrichment } from './use-background-enrichment';
+import { useCurrentUser } from './use-current-user';
+import { useLibraryStore } from './use-library-store';
+import { usePaperProjection } from './use-paper-projection';
+import { useOfflinePdfs } from './use-offline-pdfs';
+import { useReadingSession } from './use-reading-session';
+import { useReferenceLookup } from './use-reference-lookup';
+import { useSubscriptionFeed } from './use-subscription-feed';
+import { useVersionCheck } from './use-version-check';
+import UserMenu from './user-menu';
+import VersionUpdate from './version-update';
 
-interface ArxivPaper {
-  id: string;
-  title: string;
-  authors: string[];
-  summary: string;
-  published: string;
-  pdfLink: string;
-  journalRef?: string;
-}
+const RELATED_PAPERS_SHOWN = 5;
+const RECOMMENDATIONS_SHOWN = 6;
+// Enough terms to find papers on the same topic without drifting off it.
+const RELATED_QUERY_TERMS = 4;
 
 export default function Home(): JSX.Element {
-  const [papers, setPapers] = useState<Paper[]>([]);
-  const [selectedPaper, setSelectedPaper] = useState<Paper | null>(null);
+  const library = useLibraryStore();
+  const { papers, shelves, collections, selectedPaper, dispatch } = library;
   const [isReaderMode, setIsReaderMode] = useState<boolean>(false);
-  const [textSize, setTextSize] = useState<number>(16);
+  const [zoom, setZoom] = useState<number>(1);
+  const [pageRequest, setPageRequest] = useState<PageRequest | null>(null);
+  const [pendingSelection, setPendingSelection] = useState<TextSelection | null>(null);
+  const [discussionPage, setDiscussionPage] = useState<number | null>(null);
   const [filters, setFilters] = useState<SearchFilters>({
     query: '',
     sortBy: 'date',
-    shelf: 'all'
+    shelf: 'all',
+    shelfIds: [],
+    tags: [],
+    collectionId: null
   });
-  const [isSearching, setIsSearching] = useState<boolean>(false);
-  const [searchResults, setSearchResults] = useState<ArxivPaper[]>([]);
-  const [commentText, setCommentText] = useState<string>('');
-  const [reviewText, setReviewText] = useState<string>('');
-  const [reviewRating, setReviewRating] = useState<number>(5);
-  const [showReviewForm, setShowReviewForm] = useState<boolean>(false);
+  const arxivSearch = useArxivSearch();
+  const [arxivQueryText, setArxivQueryText] = useState<string>('');
+  const [showAdvancedSearch, setShowAdvancedSearch] = useState<boolean>(false);
+  const [advancedQuery, setAdvancedQuery] = useState<ArxivQuery>(() => createSimpleArxivQuery(''));
+  const [checkedPaperIds, setCheckedPaperIds] = useState<string[]>([]);
+  const [isLibraryLoaded, setIsLibraryLoaded] = useState<boolean>(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [libraryView, setLibraryView] = useState<'papers' | 'stats' | 'citations' | 'inbox' | 'offline'>('papers');
+  const [readingEvents, setReadingEvents] = useState<ReadingEvent[]>([]);
+  const [readingGoals, setReadingGoals] = useState<ReadingGoal[]>([]);
+  const [fullTexts, setFullTexts] = useState<Record<string, string>>({});
+  const [arxivCandidates, setArxivCandidates] = useState<ArxivPaper[]>([]);
+  const [isFindingRelated, setIsFindingRelated] = useState<boolean>(false);
+  const [findRelatedError, setFindRelatedError] = useState<string | null>(null);
+  const [expandedUpdateId, setExpandedUpdateId] = useState<string | null>(null);
+  const [pendingDuplicate, setPendingDuplicate] = useState<{
+    paper: Paper;
+    match: DuplicateMatch;
+    onAdded: (() => void) | null;
+  } | null>(null);
+  const [addingReferenceKey, setAddingReferenceKey] = useState<string | null>(null);
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [inbox, setInbox] = useState<InboxItem[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      loadLibrary(),
+      loadShelves(),
+      loadCollections(),
+      loadReadingEvents(),
+      loadReadingGoals(),
+      loadSubscriptions(),
+      loadInbox()
+    ])
+      .then(([storedPapers, storedShelves, storedCollections, storedEvents, storedGoals, storedSubscriptions, storedInbox]) => {
+        if (cancelled) return;
+        dispatch({ type: 'load', papers: storedPapers, shelves: storedShelves, collections: storedCollections });
+        setReadingEvents(storedEvents);
+        setReadingGoals(storedGoals);
+        setSubscriptions(storedSubscriptions);
+        setInbox(storedInbox);
+        setIsLibraryLoaded(true);
+      })
+      .catch(error => {
+        console.error('Error loading library:', error);
+        if (!cancelled) {
+          setStorageError('Your saved library could not be loaded. Changes will not be saved.');
+        }
+      });
+
+    // Full text only improves search, so failing to load it is not fatal.
+    loadFullTexts()
+      .then(storedTexts => {
+        if (!cancelled) setFullTexts(storedTexts);
+      })
+      .catch(error => {
+        console.error('Error loading full text:', error);
+      });
+
+    loadArxivCandidates()
+      .then(storedCandidates => {
+        if (!cancelled) setArxivCandidates(storedCandidates);
+      })
+      .catch(error => {
+        console.error('Error loading recommendation candidates:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!isLibraryLoaded) return;
+
+    saveLibrary(papers).catch(error => {
+      console.error('Error saving library:', error);
+      setStorageError('Failed to save your library. Recent changes may be lost on reload.');
+    });
+  }, [papers, isLibraryLoaded]);
+
+  useEffect(() => {
+    if (!isLibraryLoaded) return;
+
+    Promise.all([saveShelves(shelves), saveCollections(collections)]).catch(error => {
+      console.error('Error saving shelves and collections:', error);
+      setStorageError('Failed to save your shelves and collections. Recent changes may be lost on reload.');
+    });
+  }, [shelves, collections, isLibraryLoaded]);
+
+  useEffect(() => {
+    if (!isLibraryLoaded) return;
+
+    saveReadingGoals(readingGoals).catch(error => {
+      console.error('Error saving reading goals:', error);
+      setStorageError('Failed to save your reading goals. Recent changes may be lost on reload.');
+    });
+  }, [readingGoals, isLibraryLoaded]);
+
+  useEffect(() => {
+    if (!isLibraryLoaded) return;
+
+    Promise.all([saveSubscriptions(subscriptions), saveInbox(inbox)]).catch(error => {
+      console.error('Error saving subscriptions:', error);
+      setStorageError('Failed to save your subscriptions. Recent changes may be lost on reload.');
+    });
+  }, [subscriptions, inbox, isLibraryLoaded]);
+
+  // Reference lists are read from the stored full text, so papers opened
+  // before references were tracked pick them up without reopening the PDF.
+  useEffect(() => {
+    if (!isLibraryLoaded) return;
+
+    const pending = papers.filter(paper => paper.referencesExtractedAt === null && paper.id in fullTexts);
+    if (pending.length === 0) return;
+
+    const extractedAt = new Date().toISOString();
+    const referencesById = new Map(pending.map(paper => [paper.id, extractReferences(fullTexts[paper.id])]));
+    const withReferences = (paper: Paper): Paper => {
+      const references = referencesById.get(paper.id);
+      return references && paper.referencesExtractedAt === null
+        ? { ...paper, references, referencesExtractedAt: extractedAt, referencesLookedUpAt: null }
+        : paper;
+    };
+    dispatch({ type: 'background', update: withReferences });
+  }, [papers, fullTexts, isLibraryLoaded, dispatch]);
+
+  // Every arXiv result seen becomes a candidate for recommendations, so they
+  // keep working offline. Like the stored ones, the least recently seen are
+  // dropped past the limit.
+  const rememberCandidates = useCallback((results: ArxivPaper[]): void => {
+    if (results.length === 0) return;
+
+    setArxivCandidates(prev => {
+      const resultIds = new Set(results.map(paper => paper.id));
+      return [...prev.filter(paper => !resultIds.has(paper.id)), ...results].slice(-MAX_CANDIDATES);
+    });
+    saveArxivCandidates(results).catch(error => {
+      console.error('Error saving recommendation candidates:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    rememberCandidates(arxivSearch.results);
+  }, [arxivSearch.results, rememberCandidates]);
+
+  const recordReadingEvent = useCallback((event: ReadingEvent): void => {
+    setReadingEvents(prev => [...prev, event]);
+    appendReadingEvent(event).catch(error => {
+      console.error('Error saving reading history:', error);
+    });
+  }, []);
+
+  useReadingSession(
+    isReaderMode && selectedPaper ? selectedPaper.id : null,
+    selectedPaper?.currentPage ?? 1,
+    recordReadingEvent
+  );
+
+  const enrichmentProvider = useMemo(() => createEnrichmentProvider(), []);
+  const authProvider = useMemo(() => createAuthProvider(), []);
+  const currentUser = useCurrentUser(authProvider);
+  const mentionUsers = useMemo(() => mentionableUsers(papers, currentUser.users), [papers, currentUser.users]);
+
+  const handleEnrichmentResult = useCallback((
+    paperId: string,
+    result: EnrichmentResult | null,
+    checkedAt: string
+  ): void => {
+    dispatch({
+      type: 'background',
+      update: paper => (paper.id === paperId ? applyEnrichment(paper, result, checkedAt) : paper)
+    });
+  }, [dispatch]);
+
+  useBackgroundEnrichment(papers, isLibraryLoaded, enrichmentProvider, handleEnrichmentResult);
+
+  const referenceLookupProvider = useMemo(() => createReferenceLookupProvider(), []);
+
+  const handleReferenceLookupResult = useCallback((
+    paperId: string,
+    extractedAt: string,
+    references: PaperReference[],
+    lookedUpAt: string
+  ): void => {
+    dispatch({
+      type: 'background',
+      update: paper => (paper.id === paperId ? applyReferenceLookup(paper, extractedAt, references, lookedUpAt) : paper)
+    });
+  }, [dispatch]);
+
+  useReferenceLookup(papers, isLibraryLoaded, referenceLookupProvider, handleReferenceLookupResult);
+
+  const handleVersionCheckResults = useCallback((
+    results: Map<string, ArxivPaper | undefined>,
+    checkedAt: string
+  ): void => {
+    dispatch({
+      type: 'background',
+      update: paper => (results.has(paper.id) ? applyVersionCheck(paper, results.get(paper.id), checkedAt) : paper)
+    });
+  }, [dispatch]);
+
+  useVersionCheck(papers, isLibraryLoaded, handleVersionCheckResults);
+
+  const handleFeedResults = useCallback((subscriptionId: string, found: ArxivPaper[], checkedAt: string): void => {
+    setInbox(prev => pruneInbox(addToInbox(prev, subscriptionId, found, checkedAt), Date.now()));
+    setSubscriptions(prev =>
+      prev.map(subscription =>
+        subscription.id === subscriptionId ? { ...subscription, lastCheckedAt: checkedAt } : subscription
+      )
+    );
+  }, []);
+
+  const subscriptionFeed = useSubscriptionFeed(subscriptions, isLibraryLoaded, handleFeedResults);
+
+  const offline = useOfflinePdfs(papers, shelves, isLibraryLoaded);
+
+  const keepStorage = useCallback((): void => {
+    requestPersistentStorage().catch(error => {
+      console.error('Error requesting persistent storage:', error);
+    });
+  }, []);
+
+  const handleTogglePaperOffline = useCallback((paperId: string, availableOffline: boolean): void => {
+    dispatch({ type: 'setAvailableOffline', paperIds: [paperId], shelfIds: [], availableOffline });
+    if (availableOffline) keepStorage();
+  }, [dispatch, keepStorage]);
+
+  const handleToggleShelfOffline = useCallback((shelfId: string, availableOffline: boolean): void => {
+    dispatch({ type: 'setAvailableOffline', paperIds: [], shelfIds: [shelfId], availableOffline });
+    if (availableOffline) keepStorage();
+  }, [dispatch, keepStorage]);
+
+  const handleRemoveAllOffline = useCallback((): void => {
+    if (!window.confirm('Remove every offline copy? Papers and shelves will no longer be kept offline.')) return;
+
+    dispatch({
+      type: 'setAvailableOffline',
+      paperIds: papers.map(paper => paper.id),
+      shelfIds: shelves.map(shelf => shelf.id),
+      availableOffline: false
+    });
+  }, [papers, shelves, dispatch]);
 
   const handleSearch = useCallback((event: React.ChangeEvent<HTMLInputElement>): void => {
     const query = event.target.value;
@@ -101,235 +402,612 @@ export default function Home(): JSX.Element {
     setFilters(prev => ({ ...prev, shelf }));
   }, []);
 
-  const handleRate = useCallback((paperId: string, rating: number): void => {
-    setPapers(prev =>
-      prev.map(paper =>
-        paper.id === paperId ? { ...paper, userRating: rating } : paper
-      )
-    );
+  const handleToggleShelfFilter = useCallback((shelfId: string): void => {
+    setFilters(prev => ({
+      ...prev,
+      shelfIds: prev.shelfIds.includes(shelfId)
+        ? prev.shelfIds.filter(id => id !== shelfId)
+        : [...prev.shelfIds, shelfId]
+    }));
   }, []);
 
+  const handleToggleTagFilter = useCallback((tag: string): void => {
+    setFilters(prev => ({
+      ...prev,
+      tags: prev.tags.includes(tag) ? prev.tags.filter(candidate => candidate !== tag) : [...prev.tags, tag]
+    }));
+  }, []);
+
+  const handleSelectCollection = useCallback((collectionId: string | null): void => {
+    setFilters(prev => ({ ...prev, collectionId }));
+  }, []);
+
+  const handleClearFilters = useCallback((): void => {
+    setFilters(prev => ({ ...prev, shelf: 'all', shelfIds: [], tags: [], collectionId: null }));
+  }, []);
+
+  const handleAddShelf = useCallback((name: string): void => {
+    dispatch({ type: 'addShelf', shelf: createShelf(name) });
+  }, [dispatch]);
+
+  const handleDeleteShelf = useCallback((shelfId: string): void => {
+    dispatch({ type: 'deleteShelf', shelfId });
+    setFilters(prev => ({ ...prev, shelfIds: prev.shelfIds.filter(id => id !== shelfId) }));
+  }, [dispatch]);
+
+  const handleAddCollection = useCallback((name: string, parentId: string | null): void => {
+    dispatch({ type: 'addCollection', collection: createCollection(name, parentId) });
+  }, [dispatch]);
+
+  const handleDeleteCollection = useCallback((collectionId: string): void => {
+    const removed = collectionSubtreeIds(collections, collectionId);
+
+    dispatch({ type: 'deleteCollection', collectionId });
+    setFilters(prev => (
+      prev.collectionId !== null && removed.has(prev.collectionId) ? { ...prev, collectionId: null } : prev
+    ));
+  }, [collections, dispatch]);
+
+  const handleOrganizePaper = useCallback((paperId: string, changes: Partial<PaperOrganization>): void => {
+    dispatch({ type: 'organize', paperId, changes });
+  }, [dispatch]);
+
+  const handleRate = useCallback((paperId: string, rating: number): void => {
+    dispatch({ type: 'rate', paperId, rating });
+  }, [dispatch]);
+
   const handleReadingStatus = useCallback((paperId: string, status: Paper['readingStatus']): void => {
-    setPapers(prev =>
-      prev.map(paper =>
-        paper.id === paperId ? { ...paper, readingStatus: status } : paper
-      )
-    );
+    const previous = papers.find(paper => paper.id === paperId)?.readingStatus ?? null;
+    if (previous === status) return;
+
+    dispatch({ type: 'setReadingStatus', paperId, status });
+    recordReadingEvent({
+      type: 'status',
+      id: createId(),
+      paperId,
+      timestamp: new Date().toISOString(),
+      from: previous,
+      to: status
+    });
+  }, [papers, dispatch, recordReadingEvent]);
+
+  const handleAddReadingGoal = useCallback((goal: Omit<ReadingGoal, 'id'>): void => {
+    setReadingGoals(prev => [...prev, { ...goal, id: createId() }]);
+  }, []);
+
+  const handleDeleteReadingGoal = useCallback((goalId: string): void => {
+    setReadingGoals(prev => prev.filter(goal => goal.id !== goalId));
   }, []);
 
   const handlePageChange = useCallback((newPage: number): void => {
-    if (selectedPaper) {
-      const updatedPaper = { ...selectedPaper, currentPage: newPage };
-      setSelectedPaper(updatedPaper);
-      setPapers(prev =>
-        prev.map(paper =>
-          paper.id === selectedPaper.id ? updatedPaper : paper
-        )
-      );
+    if (!selectedPaper) return;
+    const paperId = selectedPaper.id;
+    dispatch({
+      type: 'background',
+      update: paper => (paper.id === paperId ? { ...paper, currentPage: newPage } : paper)
+    });
+  }, [selectedPaper, dispatch]);
+
+  const handleGoToPage = useCallback((page: number): void => {
+    setPageRequest({ page, requestId: Date.now() });
+  }, []);
+
+  const handleDocumentLoaded = useCallback((doc: PDFDocumentProxy): void => {
+    if (!selectedPaper) return;
+
+    if (selectedPaper.totalPages !== doc.numPages) {
+      const paperId = selectedPaper.id;
+      dispatch({
+        type: 'background',
+        update: paper => (paper.id === paperId ? { ...paper, totalPages: doc.numPages } : paper)
+      });
     }
-  }, [selectedPaper]);
-
-  const handleAddNote = useCallback((note: Omit<Note, 'id' | 'timestamp'>): void => {
-    if (selectedPaper) {
-      const newNote: Note = {
-        ...note,
-        id: Date.now().toString(),
-        timestamp: new Date().toISOString()
-      };
-
-      const updatedPaper = {
-        ...selectedPaper,
-        notes: [...selectedPaper.notes, newNote]
-      };
-
-      setSelectedPaper(updatedPaper);
-      setPapers(prev =>
-        prev.map(paper =>
-          paper.id === selectedPaper.id ? updatedPaper : paper
-        )
-      );
+
+    if (selectedPaper.sectionsSource === null) {
+      const paperId = selectedPaper.id;
+      extractSections(doc)
+        .then(({ sections, source }) => {
+          dispatch({
+            type: 'background',
+            update: paper => (paper.id === paperId ? { ...paper, sections, sectionsSource: source } : paper)
+          });
+        })
+        .catch(error => {
+          console.error('Error extracting sections:', error);
+        });
     }
-  }, [selectedPaper]);
 
-  const handleAddAnnotation = useCallback((annotation: Omit<Annotation, 'id' | 'timestamp'>): void => {
-    if (selectedPaper) {
-      const newAnnotation: Annotation = {
-        ...annotation,
-        id: Date.now().toString(),
-        timestamp: new Date().toISOString()
-      };
-
-      const updatedPaper = {
-        ...selectedPaper,
-        annotations: [...selectedPaper.annotations, newAnnotation]
-      };
-
-      setSelectedPaper(updatedPaper);
-      setPapers(prev =>
-        prev.map(paper =>
-          paper.id === selectedPaper.id ? updatedPaper : paper
-        )
-      );
+    if (!(selectedPaper.id in fullTexts)) {
+      const paperId = selectedPaper.id;
+      extractFullText(doc)
+        .then(text => {
+          setFullTexts(prev => ({ ...prev, [paperId]: text }));
+          return saveFullText(paperId, text);
+        })
+        .catch(error => {
+          console.error('Error extracting full text:', error);
+        });
     }
-  }, [selectedPaper]);
+  }, [selectedPaper, fullTexts, dispatch]);
+
+  const handleZoom = useCallback((direction: 1 | -1): void => {
+    setZoom(prev => {
+      const index = ZOOM_LEVELS.indexOf(prev) + direction;
+      return ZOOM_LEVELS[Math.min(Math.max(index, 0), ZOOM_LEVELS.length - 1)];
+    });
+  }, []);
+
+  const handleAddNote = useCallback((note: NoteDraft): void => {
+    if (!selectedPaper) return;
+
+    const newNote: Note = {
+      ...note,
+      id: createId(),
+      timestamp: new Date().toISOString(),
+      updatedAt: null,
+      history: []
+    };
+    dispatch({ type: 'addNote', paperId: selectedPaper.id, note: newNote });
+  }, [selectedPaper, dispatch]);
+
+  const handleUpdateNote = useCallback((noteId: string, changes: Pick<Note, 'text' | 'annotationId'>): void => {
+    if (!selectedPaper) return;
+    dispatch({ type: 'updateNote', paperId: selectedPaper.id, noteId, changes, updatedAt: new Date().toISOString() });
+  }, [selectedPaper, dispatch]);
+
+  const handleDeleteNote = useCallback((noteId: string): void => {
+    if (!selectedPaper) return;
+    dispatch({ type: 'deleteNote', paperId: selectedPaper.id, noteId });
+  }, [selectedPaper, dispatch]);
+
+  const handleAddAnnotation = useCallback((annotation: Omit<Annotation, 'id' | 'timestamp'>): void => {
+    if (!selectedPaper) return;
+
+    const newAnnotation: Annotation = {
+      ...annotation,
+      id: createId(),
+      timestamp: new Date().toISOString()
+    };
+    dispatch({ type: 'addAnnotation', paperId: selectedPaper.id, annotation: newAnnotation });
+  }, [selectedPaper, dispatch]);
+
+  const handleHighlightSelection = useCallback((color: string): void => {
+    if (!pendingSelection) return;
+
+    handleAddAnnotation({
+      text: pendingSelection.text,
+      color,
+      pageNumber: pendingSelection.pageNumber,
+      position: { x: pendingSelection.rects[0].x, y: pendingSelection.rects[0].y },
+      rects: pendingSelection.rects
+    });
+    window.getSelection()?.removeAllRanges();
+    setPendingSelection(null);
+  }, [pendingSelection, handleAddAnnotation]);
+
+  const handleGoToHighlight = useCallback((annotation: Annotation): void => {
+    setPageRequest({
+      page: annotation.pageNumber,
+      requestId: Date.now(),
+      offset: annotation.position.y,
+      highlightId: annotation.id
+    });
+  }, []);
 
-  const handleAddComment = useCallback((paperId: string, text: string): void => {
-    if (!text.trim()) return;
+  const handleAddComment = useCallback((draft: CommentDraft): void => {
+    const user = currentUser.user;
+    if (!selectedPaper || !user || !draft.text.trim()) return;
 
     const newComment: Comment = {
-      id: Date.now().toString(),
-      text,
+      ...draft,
+      id: createId(),
       timestamp: new Date().toISOString(),
-      userName: 'Anonymous User'
+      authorId: user.id,
+      userName: user.displayName,
+      editedAt: null,
+      resolvedAt: null,
+      resolvedBy: null,
+      mentionedUserIds: findMentions(draft.text, mentionUsers),
+      deletedAt: null
     };
+    dispatch({ type: 'addComment', paperId: selectedPaper.id, comment: newComment });
+  }, [selectedPaper, currentUser.user, mentionUsers, dispatch]);
 
-    setPapers(prev =>
-      prev.map(paper =>
-        paper.id === paperId
-          ? { ...paper, comments: [...paper.comments, newComment] }
-          : paper
-      )
-    );
+  const handleUpdateComment = useCallback((commentId: string, text: string): void => {
+    const user = currentUser.user;
+    if (!selectedPaper || !user || !text.trim()) return;
 
-    if (selectedPaper?.id === paperId) {
-      setSelectedPaper(prev =>
-        prev ? { ...prev, comments: [...prev.comments, newComment] } : null
-      );
-    }
+    dispatch({
+      type: 'updateComment',
+      paperId: selectedPaper.id,
+      commentId,
+      userId: user.id,
+      changes: { text, mentionedUserIds: findMentions(text, mentionUsers) },
+      editedAt: new Date().toISOString()
+    });
+  }, [selectedPaper, currentUser.user, mentionUsers, dispatch]);
 
-    setCommentText('');
-  }, [selectedPaper]);
+  const handleDeleteComment = useCallback((commentId: string): void => {
+    const user = currentUser.user;
+    if (!selectedPaper || !user) return;
+
+    dispatch({
+      type: 'deleteComment',
+      paperId: selectedPaper.id,
+      commentId,
+      userId: user.id,
+      deletedAt: new Date().toISOString()
+    });
+  }, [selectedPaper, currentUser.user, dispatch]);
+
+  const handleSetCommentResolved = useCallback((commentId: string, resolved: boolean): void => {
+    const user = currentUser.user;
+    if (!selectedPaper || !user) return;
+
+    dispatch({
+      type: 'resolveComment',
+      paperId: selectedPaper.id,
+      commentId,
+      resolvedAt: resolved ? new Date().toISOString() : null,
+      resolvedBy: resolved ? user.displayName : null
+    });
+  }, [selectedPaper, currentUser.user, dispatch]);
 
-  const handleAddReview = useCallback((paperId: string, text: string, rating: number): void => {
-    if (!text.trim()) return;
+  const handleAddReview = useCallback((review: ReviewDraft): void => {
+    const user = currentUser.user;
+    if (!selectedPaper || !user || !review.text.trim()) return;
 
     const newReview: Review = {
-      id: Date.now().toString(),
-      text,
-      rating,
+      ...review,
+      id: createId(),
       timestamp: new Date().toISOString(),
-      userName: 'Anonymous User'
+      authorId: user.id,
+      userName: user.displayName,
+      editedAt: null,
+      helpfulVoterIds: []
     };
+    dispatch({ type: 'addReview', paperId: selectedPaper.id, review: newReview });
+  }, [selectedPaper, currentUser.user, dispatch]);
 
-    setPapers(prev =>
-      prev.map(paper =>
-        paper.id === paperId
-          ? { ...paper, reviews: [...paper.reviews, newReview] }
-          : paper
-      )
-    );
+  const handleUpdateReview = useCallback((reviewId: string, changes: ReviewDraft): void => {
+    const user = currentUser.user;
+    if (!selectedPaper || !user || !changes.text.trim()) return;
 
-    if (selectedPaper?.id === paperId) {
-      setSelectedPaper(prev =>
-        prev ? { ...prev, reviews: [...prev.reviews, newReview] } : null
-      );
-    }
+    dispatch({
+      type: 'updateReview',
+      paperId: selectedPaper.id,
+      reviewId,
+      userId: user.id,
+      changes,
+      editedAt: new Date().toISOString()
+    });
+  }, [selectedPaper, currentUser.user, dispatch]);
 
-    setReviewText('');
-    setReviewRating(5);
-    setShowReviewForm(false);
-  }, [selectedPaper]);
+  const handleDeleteReview = useCallback((reviewId: string): void => {
+    const user = currentUser.user;
+    if (!selectedPaper || !user) return;
+    dispatch({ type: 'deleteReview', paperId: selectedPaper.id, reviewId, userId: user.id });
+  }, [selectedPaper, currentUser.user, dispatch]);
 
-  const searchArxiv = useCallback(async (query: string): Promise<void> => {
-    if (!query.trim()) {
-      setSearchResults([]);
-      return;
+  const handleToggleHelpful = useCallback((reviewId: string): void => {
+    const user = currentUser.user;
+    if (!selectedPaper || !user) return;
+    dispatch({ type: 'toggleHelpful', paperId: selectedPaper.id, reviewId, userId: user.id });
+  }, [selectedPaper, currentUser.user, dispatch]);
+
+  // Papers that look like one already in the library wait for the user to
+  // decide in the duplicate dialog. `onAdded` runs once the paper is added or
+  // merged, and not at all if the user cancels.
+  const addPaper = useCallback((newPaper: Paper, onAdded: (() => void) | null = null): void => {
+    const match = findDuplicate(papers, newPaper);
+    if (match) {
+      setPendingDuplicate({ paper: newPaper, match, onAdded });
+    } else {
+      dispatch({ type: 'addPaper', paper: newPaper });
+      onAdded?.();
     }
+  }, [papers, dispatch]);
 
-    setIsSearching(true);
-    try {
-      const response = await fetch('/api/proxy', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          protocol: 'http',
-          origin: 'export.arxiv.org',
-          path: '/api/query',
-          method: 'GET',
-          params: {
-            search_query: `all:${query}`,
-            start: 0,
-            max_results: 10,
-            sortBy: 'relevance',
-            sortOrder: 'descending'
-          }
-        })
-      });
+  const addPaperToLibrary = useCallback((arxivPaper: ArxivPaper): void => {
+    addPaper(createPaperFromArxiv(arxivPaper));
+  }, [addPaper]);
 
-      if (!response.ok) throw new Error('Failed to fetch from arXiv');
-
-      const data = await response.text();
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(data, 'text/xml');
-      
-      const entries = Array.from(xmlDoc.getElementsByTagName('entry'));
-      const papers: ArxivPaper[] = entries.map(entry => {
-        const id = entry.getElementsByTagName('id')[0].textContent?.split('/').pop() || '';
-        return {
-          id,
-          title: entry.getElementsByTagName('title')[0].textContent?.trim() || '',
-          authors: Array.from(entry.getElementsByTagName('author')).map(
-            author => author.getElementsByTagName('name')[0].textContent || ''
-          ),
-          summary: entry.getElementsByTagName('summary')[0].textContent?.trim() || '',
-          published: entry.getElementsByTagName('published')[0].textContent || '',
-          pdfLink: `https://arxiv.org/pdf/${id}.pdf`,
-          journalRef: entry.getElementsByTagName('journal_ref')[0]?.textContent || undefined
-        };
+  const handleMergePendingDuplicate = useCallback((): void => {
+    if (!pendingDuplicate) return;
+    const merged = mergePapers(pendingDuplicate.match.paper, pendingDuplicate.paper);
+    dispatch({ type: 'mergePapers', merged, removedId: null });
+    pendingDuplicate.onAdded?.();
+    setPendingDuplicate(null);
+  }, [pendingDuplicate, dispatch]);
+
+  const handleKeepPendingDuplicate = useCallback((): void => {
+    if (!pendingDuplicate) return;
+    const { paper, match, onAdded } = pendingDuplicate;
+    dispatch({ type: 'addPaper', paper: { ...paper, notDuplicateOf: [match.paper.id] } });
+    onAdded?.();
+    setPendingDuplicate(null);
+  }, [pendingDuplicate, dispatch]);
+
+  const handleMergePapers = useCallback((keptId: string, otherId: string): void => {
+    const kept = papers.find(paper => paper.id === keptId);
+    const other = papers.find(paper => paper.id === otherId);
+    if (!kept || !other) return;
+
+    dispatch({ type: 'mergePapers', merged: mergePapers(kept, other), removedId: otherId });
+    setCheckedPaperIds(prev => prev.filter(id => id !== otherId));
+    // Keep the merged paper searchable without reopening its PDF.
+    const otherText = fullTexts[otherId];
+    if (!(keptId in fullTexts) && otherText !== undefined) {
+      setFullTexts(prev => ({ ...prev, [keptId]: otherText }));
+      saveFullText(keptId, otherText).catch(error => {
+        console.error('Error saving full text:', error);
       });
+    }
+  }, [papers, fullTexts, dispatch]);
+
+  const handleDismissDuplicate = useCallback((firstId: string, secondId: string): void => {
+    dispatch({ type: 'markNotDuplicates', firstId, secondId });
+  }, [dispatch]);
+
+  const handleAddReference = useCallback(async (reference: PaperReference): Promise<void> => {
+    const key = referenceKey(reference);
+    if (!key) return;
 
-      setSearchResults(papers);
+    setAddingReferenceKey(key);
+    setReferenceError(null);
+    try {
+      if (reference.arxivId) {
+        const [arxivPaper] = await fetchArxivPapersById([reference.arxivId]);
+        if (arxivPaper) {
+          addPaperToLibrary(arxivPaper);
+        } else {
+          setReferenceError(`arXiv has no paper with id ${reference.arxivId}`);
+        }
+      } else if (reference.doi) {
+        const metadata = await fetchCrossrefMetadata(reference.doi);
+        if (metadata) {
+          addPaper(createPaper(metadata));
+        } else {
+          setReferenceError(`No paper found for DOI ${reference.doi}`);
+        }
+      }
     } catch (error) {
-      console.error('Error searching arXiv:', error);
-      alert('Failed to search arXiv. Please try again.');
+      console.error('Error adding cited paper:', error);
+      setReferenceError(error instanceof ArxivRequestError ? `arXiv: ${error.message}` : describeProxyError(error));
     } finally {
-      setIsSearching(false);
+      setAddingReferenceKey(null);
     }
-  }, []);
+  }, [addPaper, addPaperToLibrary]);
 
-  const addPaperToLibrary = useCallback((arxivPaper: ArxivPaper): void => {
-    const newPaper: Paper = {
-      id: Date.now().toString(),
-      title: arxivPaper.title,
-      authors: arxivPaper.authors,
-      abstract: arxivPaper.summary,
-      publicationDate: arxivPaper.published,
-      journal: arxivPaper.journalRef || 'arXiv preprint',
-      userRating: null,
-      citations: 0,
-      doi: '',
-      readingStatus: null,
-      pdfUrl: arxivPaper.pdfLink,
-      arxivId: arxivPaper.id,
-      currentPage: 1,
-      totalPages: 0,
-      annotations: [],
-      notes: [],
-      sections: [],
-      comments: [],
-      reviews: []
+  const handleSaveSearch = useCallback((): void => {
+    const query = arxivSearch.activeQuery;
+    if (!query) return;
+
+    const name = window.prompt('Name this subscription', compileArxivQuery(query));
+    if (!name?.trim()) return;
+    setSubscriptions(prev => [...prev, createSubscription(name, query)]);
+  }, [arxivSearch.activeQuery]);
+
+  const handleDeleteSubscription = useCallback((subscriptionId: string): void => {
+    const subscription = subscriptions.find(candidate => candidate.id === subscriptionId);
+    if (!subscription || !window.confirm(`Stop following "${subscription.name}"? Its inbox will be cleared.`)) return;
+
+    setSubscriptions(prev => prev.filter(candidate => candidate.id !== subscriptionId));
+    setInbox(prev => prev.filter(item => item.subscriptionId !== subscriptionId));
+  }, [subscriptions]);
+
+  const handleAddInboxItem = useCallback((item: InboxItem, target: InboxTarget | null): void => {
+    const paper = createPaperFromArxiv(item.paper);
+    const withTarget: Paper = {
+      ...paper,
+      readingStatus: target?.kind === 'status' ? target.status : paper.readingStatus,
+      shelfIds: target?.kind === 'shelf' ? [target.shelfId] : paper.shelfIds
     };
+    // Left in the inbox if the user cancels the duplicate dialog.
+    addPaper(withTarget, () => {
+      // The same paper may have turned up in several subscriptions.
+      setInbox(prev =>
+        prev.map(candidate => (candidate.paper.id === item.paper.id ? { ...candidate, status: 'added' } : candidate))
+      );
+    });
+  }, [addPaper]);
 
-    setPapers(prev => [...prev, newPaper]);
+  const handleDismissInboxItem = useCallback((itemId: string): void => {
+    setInbox(prev => prev.map(item => (item.id === itemId ? { ...item, status: 'dismissed' } : item)));
   }, []);
 
+  const handleMarkInboxSeen = useCallback((itemIds: string[]): void => {
+    setInbox(prev =>
+      prev.map(item => (item.status === 'unseen' && itemIds.includes(item.id) ? { ...item, status: 'seen' } : item))
+    );
+  }, []);
+
+  const handleSwitchVersion = useCallback((paperId: string): void => {
+    const paper = papers.find(candidate => candidate.id === paperId);
+    const update = paper?.availableUpdate;
+    if (!paper || !update) return;
+
+    const hasPositions = paper.annotations.length > 0 || paper.notes.length > 0 || paper.comments.length > 0;
+    if (hasPositions && !window.confirm(
+      'Your highlights, notes and discussion will be kept, but pages may have moved in the new version, ' +
+      'so some may no longer line up with the text. Switch anyway?'
+    )) return;
+
+    dispatch({
+      type: 'background',
+      update: current => (current.id === paperId ? switchToUpdate(current, update) : current)
+    });
+    // The stored text belongs to the old PDF; it is extracted again on next open.
+    setFullTexts(prev => {
+      const { [paperId]: _removed, ...rest } = prev;
+      return rest;
+    });
+    deleteFullText(paperId).catch(error => {
+      console.error('Error deleting full text:', error);
+    });
+  }, [papers, dispatch]);
+
+  const handleDismissVersion = useCallback((paperId: string): void => {
+    const dismissedAt = new Date().toISOString();
+    dispatch({
+      type: 'background',
+      update: paper => (
+        paper.id === paperId && paper.availableUpdate
+          ? { ...paper, availableUpdate: { ...paper.availableUpdate, dismissedAt } }
+          : paper
+      )
+    });
+  }, [dispatch]);
+
+  const handleImportCitations = useCallback((imported: PaperMetadata[]): { added: number; matched: number } => {
+    const result = mergeImportedPapers(papers, imported);
+    dispatch({ type: 'importPapers', papers: result.papers, shelf: null });
+    return { added: result.added, matched: result.matched };
+  }, [papers, dispatch]);
+
+  const handleAssignCitationKeys = useCallback((keys: Map<string, string>): void => {
+    dispatch({
+      type: 'background',
+      update: paper => {
+        const key = keys.get(paper.id);
+        return key && !paper.citationKey ? { ...paper, citationKey: key } : paper;
+      }
+    });
+  }, [dispatch]);
+
+  const handleImportReadingList = useCallback((
+    bundle: ReadingListBundle,
+    options: ReadingListImportOptions
+  ): { added: number; matched: number } => {
+    const shelf = options.addToNewShelf ? createShelf(bundle.title) : null;
+
+    const result = importReadingList(papers, bundle, {
+      includeAnnotations: options.includeAnnotations,
+      shelfId: shelf?.id ?? null
+    });
+    dispatch({ type: 'importPapers', papers: result.papers, shelf });
+    return { added: result.added, matched: result.matched };
+  }, [papers, dispatch]);
+
+  const handleTogglePaperChecked = useCallback((paperId: string): void => {
+    setCheckedPaperIds(prev =>
+      prev.includes(paperId) ? prev.filter(id => id !== paperId) : [...prev, paperId]
+    );
+  }, []);
+
+  const handleOpenPaper = useCallback((paper: Paper, page?: number): void => {
+    dispatch({ type: 'select', paperId: paper.id });
+    setPageRequest(page ? { page, requestId: Date.now() } : null);
+    setDiscussionPage(null);
+    setFindRelatedError(null);
+    setReferenceError(null);
+    setIsReaderMode(true);
+  }, [dispatch]);
+
+  // The model only depends on titles and abstracts, so it isn't rebuilt on
+  // every page turn or rating change.
+  const recommendationTexts = usePaperProjection(papers, recommendationText);
+  const recommendationModel = useMemo(
+    () => buildRecommendationModel(recommendationTexts, arxivCandidates),
+    [recommendationTexts, arxivCandidates]
+  );
+
+  // Comparing every pair of papers is quadratic, so it is skipped while reading.
+  const duplicatePairs = useMemo(
+    () => (isReaderMode ? [] : findDuplicatePairs(papers)),
+    [isReaderMode, papers]
+  );
+
+  const duplicateDialog = pendingDuplicate && (
+    <DuplicateDialog
+      paper={pendingDuplicate.paper}
+      match={pendingDuplicate.match}
+      onMerge={handleMergePendingDuplicate}
+      onKeepBoth={handleKeepPendingDuplicate}
+      onCancel={() => setPendingDuplicate(null)}
+    />
+  );
+
+  const undoControls = (
+    <div className="flex items-center gap-1 text-sm">
+      <button
+        onClick={library.undo}
+        disabled={!library.undoLabel}
+        title={library.undoLabel ? `Undo ${library.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+        className="px-2 py-1 rounded text-[#1B3A33] hover:bg-[#D6D0C4]/50 disabled:opacity-30"
+      >
+        Undo
+      </button>
+      <button
+        onClick={library.redo}
+        disabled={!library.redoLabel}
+        title={library.redoLabel ? `Redo ${library.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        className="px-2 py-1 rounded text-[#1B3A33] hover:bg-[#D6D0C4]/50 disabled:opacity-30"
+      >
+        Redo
+      </button>
+    </div>
+  );
+
+  // Built from ids and references only, so the graph and its layout survive
+  // ratings and page turns.
+  const citingPapers = usePaperProjection(papers, citingPaper);
+  const citationGraph = useMemo(() => buildCitationGraph(citingPapers), [citingPapers]);
+
+  const inboxUnseen = inbox.filter(item => item.status === 'unseen').length;
+
+  const isUnavailableOffline = (paper: Paper): boolean =>
+    !offline.isOnline && paper.pdfUrl !== null && !offline.cached.has(paper.pdfUrl);
+
+  const handleFindRelatedOnArxiv = useCallback(async (): Promise<void> => {
+    if (!selectedPaper) return;
+    const terms = topTerms(recommendationModel, selectedPaper.id, RELATED_QUERY_TERMS);
+    if (terms.length === 0) return;
+
+    setIsFindingRelated(true);
+    setFindRelatedError(null);
+    try {
+      const page = await fetchArxivPage(relatedArxivQuery(terms), 0);
+      rememberCandidates(page.papers);
+    } catch (error) {
+      console.error('Error finding related papers on arXiv:', error);
+      setFindRelatedError(error instanceof ArxivRequestError ? `arXiv: ${error.message}` : describeProxyError(error));
+    } finally {
+      setIsFindingRelated(false);
+    }
+  }, [selectedPaper, recommendationModel, rememberCandidates]);
+
+  // Built from the text search looks at, so page turns and ratings don't
+  // re-index the library and every PDF in it.
+  const searchableTexts = usePaperProjection(papers, searchableText);
+  const searchIndex = useMemo(
+    () => buildSearchIndex(searchableTexts, fullTexts),
+    [searchableTexts, fullTexts]
+  );
+  const searchResults = useMemo(
+    () => (filters.query.trim() ? searchLibrary(searchIndex, filters.query) : null),
+    [searchIndex, filters.query]
+  );
+  const searchResultsById = new Map(searchResults?.map(result => [result.paperId, result]));
+
   const filteredPapers = papers
     .filter(paper => {
-      const matchesQuery = paper.title.toLowerCase().includes(filters.query.toLowerCase()) ||
-        paper.authors.some(author =>
-          author.toLowerCase().includes(filters.query.toLowerCase())
-        );
-      const matchesShelf = filters.shelf === 'all' || paper.readingStatus === filters.shelf;
-      return matchesQuery && matchesShelf;
+      const matchesQuery = !searchResults || searchResultsById.has(paper.id);
+      return matchesQuery && matchesOrganizationFilters(paper, filters, collections);
     })
     .sort((a, b) => {
+      // While searching, the most relevant papers come first.
+      if (searchResults) {
+        return (searchResultsById.get(b.id)?.score ?? 0) - (searchResultsById.get(a.id)?.score ?? 0);
+      }
       switch (filters.sortBy) {
         case 'date':
-          return new Date(b.publicationDate).getTime() - new Date(a.publicationDate).getTime();
+          // Undated papers go last.
+          return (new Date(b.publicationDate).getTime() || 0) - (new Date(a.publicationDate).getTime() || 0);
         case 'rating':
           return (b.userRating || 0) - (a.userRating || 0);
+        case 'community':
+          return compareByCommunityRating(a, b);
         case 'title':
           return a.title.localeCompare(b.title);
         default:
@@ -337,6 +1015,24 @@ export default function Home(): JSX.Element {
       }
     });
 
+  const userId = currentUser.user?.id;
+  const mentionCounts = new Map<string, number>(
+    userId ? papers.map(paper => [paper.id, unresolvedMentionCount(paper.comments, userId)]) : []
+  );
+  const communityRatings = new Map(filteredPapers.map(paper => [paper.id, communityRating(paper.reviews)]));
+
+  const checkedPapers = papers.filter(paper => checkedPaperIds.includes(paper.id));
+  const exportScope = checkedPapers.length > 0
+    ? { papers: checkedPapers, label: 'selection' }
+    : { papers: filteredPapers, label: hasOrganizationFilters(filters) ? 'filtered' : 'library' };
+  // Named after the shelf being viewed, when there is exactly one.
+  const filteredShelf = filters.shelfIds.length === 1
+    ? shelves.find(shelf => shelf.id === filters.shelfIds[0])
+    : undefined;
+  const readingListTitle = filteredShelf?.name
+    ?? READING_STATUS_OPTIONS.find(option => option.value === filters.shelf)?.label
+    ?? 'Reading list';
+
   if (isReaderMode && selectedPaper) {
     return (
       <div className="flex h-screen bg-gray-100">
@@ -344,15 +1040,16 @@ export default function Home(): JSX.Element {
           <h2 className="text-lg font-semibold mb-4">Table of Contents</h2>
           {selectedPaper.sections.length > 0 ? (
             <ul className="space-y-2">
-              {selectedPaper.sections.map((section) => (
-                <li key={section.page}>
+              {selectedPaper.sections.map((section, index) => (
+                <li key={`${section.page}-${index}`}>
                   <button
-                    onClick={() => handlePageChange(section.page)}
+                    onClick={() => handleGoToPage(section.page)}
                     className={`w-full text-left px-2 py-1 rounded ${
-                      selectedPaper.currentPage === section.page
+                      currentSectionIndex(selectedPaper.sections, selectedPaper.currentPage) === index
                         ? 'bg-[#1B3A33] text-white'
                         : 'hover:bg-gray-100'
                     }`}
+                    style={{ paddingLeft: `${0.5 + section.level}rem` }}
                   >
                     {section.title}
                   </button>
@@ -360,7 +1057,11 @@ export default function Home(): JSX.Element {
               ))}
             </ul>
           ) : (
-            <p className="text-gray-500 text-sm">No sections available</p>
+            <p className="text-gray-500 text-sm">
+              {selectedPaper.sectionsSource === null && selectedPaper.pdfUrl
+                ? 'Detecting sections...'
+                : 'No sections available'}
+            </p>
           )}
         </div>
 
@@ -368,39 +1069,61 @@ export default function Home(): JSX.Element {
           <div className="bg-white border-b border-gray-200 p-4 flex items-center justify-between">
             <div className="flex items-center gap-4">
               <button
-                onClick={() => setIsReaderMode(false)}
+                onClick={() => {
+                  setIsReaderMode(false);
+                  setPendingSelection(null);
+                }}
                 className="text-gray-600 hover:text-gray-900"
               >
                 {'←'} Back to Library
               </button>
               <span className="text-gray-600">
-                {selectedPaper.pdfUrl 
+                {selectedPaper.pdfUrl && selectedPaper.totalPages > 0
                   ? `Page ${selectedPaper.currentPage} of ${selectedPaper.totalPages}`
                   : 'Loading PDF...'}
               </span>
             </div>
             <div className="flex items-center gap-4">
+              {undoControls}
               <button
-                onClick={() => setTextSize(prev => Math.max(12, prev - 2))}
-                className="p-2 hover:bg-gray-100 rounded"
+                onClick={() => handleZoom(-1)}
+                disabled={zoom === ZOOM_LEVELS[0]}
+                className="p-2 hover:bg-gray-100 rounded disabled:opacity-30"
+                aria-label="Zoom out"
               >
                 {'A-'}
               </button>
+              <span className="w-12 text-center text-sm text-gray-600">{Math.round(zoom * 100)}%</span>
               <button
-                onClick={() => setTextSize(prev => Math.min(24, prev + 2))}
-                className="p-2 hover:bg-gray-100 rounded"
+                onClick={() => handleZoom(1)}
+                disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+                className="p-2 hover:bg-gray-100 rounded disabled:opacity-30"
+                aria-label="Zoom in"
               >
                 {'A+'}
               </button>
             </div>
           </div>
 
-          <div className="flex-1 overflow-auto p-8">
+          {!offline.isOnline && selectedPaper.pdfUrl && !offline.cached.has(selectedPaper.pdfUrl) && (
+            <div className="px-4 py-2 bg-[#FF9900]/10 border-b border-[#FF9900]/40 text-sm text-[#1B3A33]">
+              You're offline and this paper isn't saved for offline reading. Pages that haven't loaded yet can't be shown.
+            </div>
+          )}
+          <div className="flex-1 overflow-hidden">
             {selectedPaper.pdfUrl ? (
-              <iframe
-                src={selectedPaper.pdfUrl}
-                className="w-full h-full border-0 rounded-lg shadow-lg"
-                title="PDF Viewer"
+              <PdfViewer
+                key={selectedPaper.id}
+                url={selectedPaper.pdfUrl}
+                zoom={zoom}
+                initialPage={selectedPaper.currentPage}
+                pageRequest={pageRequest}
+                highlights={selectedPaper.annotations}
+                discussionCounts={activeDiscussionPages(selectedPaper.comments)}
+                onDiscussionClick={setDiscussionPage}
+                onDocumentLoaded={handleDocumentLoaded}
+                onPageChange={handlePageChange}
+                onTextSelected={setPendingSelection}
               />
             ) : (
               <div className="flex items-center justify-center h-full">
@@ -413,160 +1136,115 @@ export default function Home(): JSX.Element {
         <div className="w-80 bg-white border-l border-gray-200 p-4 overflow-y-auto">
           <div className="mb-6">
             <h2 className="text-lg font-semibold mb-4">Notes</h2>
-            <div className="space-y-4">
-              {selectedPaper.notes.map((note) => (
-                <div key={note.id} className="bg-yellow-50 p-3 rounded">
-                  <p className="text-sm">{note.text}</p>
-                  <p className="text-xs text-gray-500 mt-1">
-                    Page {note.pageNumber} • {new Date(note.timestamp).toLocaleDateString()}
-                  </p>
-                </div>
-              ))}
-            </div>
-            <button
-              onClick={() => handleAddNote({
-                text: '',
-                pageNumber: selectedPaper.currentPage
-              })}
-              className="mt-4 w-full px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28]"
-            >
-              Add Note
-            </button>
+            <NotesPanel
+              notes={selectedPaper.notes}
+              annotations={selectedPaper.annotations}
+              currentPage={selectedPaper.currentPage}
+              onAdd={handleAddNote}
+              onUpdate={handleUpdateNote}
+              onDelete={handleDeleteNote}
+              onGoToPage={handleGoToPage}
+              onGoToAnnotation={handleGoToHighlight}
+            />
           </div>
 
           <div className="mb-6">
             <h2 className="text-lg font-semibold mb-4">Reviews</h2>
-            <div className="space-y-4">
-              {selectedPaper.reviews.map((review) => (
-                <div key={review.id} className="bg-blue-50 p-3 rounded">
-                  <div className="flex items-center gap-2 mb-2">
-                    <div className="flex">
-                      {[1, 2, 3, 4, 5].map((star) => (
-                        <span
-                          key={star}
-                          className={`text-lg ${
-                            star <= review.rating
-                              ? 'text-[#FF9900]'
-                              : 'text-gray-300'
-                          }`}
-                        >
-                          {'★'}
-                        </span>
-                      ))}
-                    </div>
-                    <span className="text-sm text-gray-600">
-                      by {review.userName}
-                    </span>
-                  </div>
-                  <p className="text-sm">{review.text}</p>
-                  <p className="text-xs text-gray-500 mt-1">
-                    {new Date(review.timestamp).toLocaleDateString()}
-                  </p>
-                </div>
-              ))}
-            </div>
-            {!showReviewForm ? (
-              <button
-                onClick={() => setShowReviewForm(true)}
-                className="mt-4 w-full px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28]"
-              >
-                Write a Review
-              </button>
-            ) : (
-              <div className="mt-4 space-y-4">
-                <div className="flex justify-center gap-1">
-                  {[1, 2, 3, 4, 5].map((star) => (
-                    <button
-                      key={star}
-                      onClick={() => setReviewRating(star)}
-                      className={`text-2xl ${
-                        star <= reviewRating
-                          ? 'text-[#FF9900]'
-                          : 'text-gray-300'
-                      }`}
-                    >
-                      {'★'}
-                    </button>
-                  ))}
-                </div>
-                <textarea
-                  value={reviewText}
-                  onChange={(e) => setReviewText(e.target.value)}
-                  placeholder="Write your review..."
-                  className="w-full p-2 border border-gray-300 rounded resize-none focus:ring-2 focus:ring-[#1B3A33] focus:border-[#1B3A33]"
-                  rows={4}
-                />
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => {
-                      handleAddReview(selectedPaper.id, reviewText, reviewRating);
-                    }}
-                    className="flex-1 px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28]"
-                  >
-                    Post Review
-                  </button>
-                  <button
-                    onClick={() => {
-                      setShowReviewForm(false);
-                      setReviewText('');
-                      setReviewRating(5);
-                    }}
-                    className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
-                  >
-                    Cancel
-                  </button>
-                </div>
-              </div>
-            )}
+            <RatingSummary rating={communityRating(selectedPaper.reviews)} />
+            <ReviewsPanel
+              reviews={selectedPaper.reviews}
+              currentUser={currentUser.user}
+              onAdd={handleAddReview}
+              onUpdate={handleUpdateReview}
+              onDelete={handleDeleteReview}
+              onToggleHelpful={handleToggleHelpful}
+            />
           </div>
 
           <div className="mb-6">
-            <h2 className="text-lg font-semibold mb-4">Comments</h2>
-            <div className="space-y-4">
-              {selectedPaper.comments.map((comment) => (
-                <div key={comment.id} className="bg-gray-50 p-3 rounded">
-                  <p className="text-sm">{comment.text}</p>
-                  <p className="text-xs text-gray-500 mt-1">
-                    {comment.userName} • {new Date(comment.timestamp).toLocaleDateString()}
-                  </p>
-                </div>
-              ))}
-            </div>
-            <div className="mt-4 space-y-2">
-              <textarea
-                value={commentText}
-                onChange={(e) => setCommentText(e.target.value)}
-                placeholder="Write a comment..."
-                className="w-full p-2 border border-gray-300 rounded resize-none focus:ring-2 focus:ring-[#1B3A33] focus:border-[#1B3A33]"
-                rows={3}
-              />
-              <button
-                onClick={() => handleAddComment(selectedPaper.id, commentText)}
-                className="w-full px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28]"
-              >
-                Post Comment
-              </button>
-            </div>
+            <h2 className="text-lg font-semibold mb-4">Discussion</h2>
+            <CommentsPanel
+              comments={selectedPaper.comments}
+              annotations={selectedPaper.annotations}
+              currentUser={currentUser.user}
+              users={mentionUsers}
+              currentPage={selectedPaper.currentPage}
+              pageFilter={discussionPage}
+              onPageFilterChange={setDiscussionPage}
+              onAdd={handleAddComment}
+              onUpdate={handleUpdateComment}
+              onDelete={handleDeleteComment}
+              onSetResolved={handleSetCommentResolved}
+              onGoToPage={handleGoToPage}
+              onGoToAnnotation={handleGoToHighlight}
+            />
+          </div>
+
+          <div className="mb-6">
+            <h2 className="text-lg font-semibold mb-4">References</h2>
+            <ReferencesPanel
+              references={selectedPaper.references}
+              extractedAt={selectedPaper.referencesExtractedAt}
+              papers={papers}
+              addingKey={addingReferenceKey}
+              error={referenceError}
+              onOpenPaper={handleOpenPaper}
+              onAddReference={handleAddReference}
+            />
+          </div>
+
+          <div className="mb-6">
+            <h2 className="text-lg font-semibold mb-4">Related papers</h2>
+            <RelatedPapers
+              recommendations={relatedPapers(recommendationModel, papers, selectedPaper.id, RELATED_PAPERS_SHOWN)}
+              emptyMessage="No related papers found yet"
+              onOpenPaper={handleOpenPaper}
+              onAddPaper={addPaperToLibrary}
+            />
+            <button
+              onClick={handleFindRelatedOnArxiv}
+              disabled={isFindingRelated}
+              className="mt-3 text-sm text-[#1B3A33] hover:underline disabled:opacity-50"
+            >
+              {isFindingRelated ? 'Searching arXiv...' : 'Find more on arXiv'}
+            </button>
+            {findRelatedError && <p className="mt-1 text-xs text-red-700">{findRelatedError}</p>}
           </div>
 
           <div>
             <h2 className="text-lg font-semibold mb-4">Highlights</h2>
             <div className="space-y-4">
               {selectedPaper.annotations.map((annotation) => (
-                <div
+                <button
                   key={annotation.id}
-                  className="p-3 rounded"
+                  onClick={() => handleGoToHighlight(annotation)}
+                  className="w-full text-left p-3 rounded hover:ring-1 hover:ring-gray-300"
                   style={{ backgroundColor: `${annotation.color}20` }}
                 >
                   <p className="text-sm">{annotation.text}</p>
                   <p className="text-xs text-gray-500 mt-1">
                     Page {annotation.pageNumber} • {new Date(annotation.timestamp).toLocaleDateString()}
                   </p>
-                </div>
+                </button>
               ))}
             </div>
+            {selectedPaper.annotations.length === 0 && (
+              <p className="text-gray-500 text-sm">Select text in the paper to highlight it</p>
+            )}
           </div>
         </div>
+
+        {pendingSelection && (
+          <HighlightToolbar
+            selection={pendingSelection}
+            onHighlight={handleHighlightSelection}
+            onDismiss={() => {
+              window.getSelection()?.removeAllRanges();
+              setPendingSelection(null);
+            }}
+          />
+        )}
+        {duplicateDialog}
       </div>
     );
   }
@@ -575,47 +1253,90 @@ export default function Home(): JSX.Element {
     <main className="min-h-screen bg-[#F9F8F4]">
       <div className="bg-[#F4F1EA] border-b border-[#D6D0C4] shadow-sm">
         <div className="max-w-6xl mx-auto px-4 py-4">
-          <h1 className="text-3xl font-bold text-[#1B3A33] mb-4">Academic Paper Library</h1>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <h1 className="text-3xl font-bold text-[#1B3A33]">Academic Paper Library</h1>
+            <div className="flex items-center gap-4">
+              {undoControls}
+              <UserMenu currentUser={currentUser} />
+            </div>
+          </div>
           <div className="flex gap-4 items-center flex-wrap">
             <div className="flex-1 relative">
               <input
                 type="search"
                 placeholder="Search papers on arXiv..."
-                value={filters.query}
+                value={arxivQueryText}
                 onChange={(e) => {
-                  handleSearch(e);
-                  searchArxiv(e.target.value);
+                  setArxivQueryText(e.target.value);
+                  arxivSearch.search(createSimpleArxivQuery(e.target.value));
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    arxivSearch.search(createSimpleArxivQuery(arxivQueryText), { immediate: true });
+                  }
                 }}
                 className="w-full p-2 border border-[#D6D0C4] rounded bg-white focus:ring-2 focus:ring-[#1B3A33] focus:border-[#1B3A33]"
                 aria-label="Search papers on arXiv"
               />
-              {isSearching && (
+              {arxivSearch.isSearching && (
                 <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-[#1B3A33]"></div>
                 </div>
               )}
-              {searchResults.length > 0 && filters.query && (
+              {arxivSearch.error && arxivSearch.activeQuery && (
+                <div className="absolute z-10 left-0 right-0 mt-1 p-3 bg-white border border-red-200 text-sm text-red-700 rounded-lg shadow-lg">
+                  {arxivSearch.error}
+                </div>
+              )}
+              {arxivSearch.results.length > 0 && arxivSearch.activeQuery && (
                 <div className="absolute z-10 left-0 right-0 mt-1 bg-white border border-[#D6D0C4] rounded-lg shadow-lg max-h-96 overflow-y-auto">
-                  {searchResults.map((paper) => (
+                  {arxivSearch.results.map((paper) => (
                     <div
                       key={paper.id}
                       className="p-3 hover:bg-gray-50 cursor-pointer border-b border-[#D6D0C4] last:border-b-0"
                       onClick={() => {
                         addPaperToLibrary(paper);
-                        setSearchResults([]);
-                        setFilters(prev => ({ ...prev, query: '' }));
+                        arxivSearch.clear();
+                        setArxivQueryText('');
                       }}
                     >
                       <h3 className="font-medium text-[#1B3A33]">{paper.title}</h3>
-                      <p className="text-sm text-gray-600 mt-1">{paper.authors.join(', ')}</p>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {paper.authors.map(author => author.name).join(', ')}
+                      </p>
                       <p className="text-xs text-gray-500 mt-1">
+                        {paper.primaryCategory && `${paper.primaryCategory} • `}
                         {new Date(paper.published).toLocaleDateString()}
+                        {paper.version && paper.version > 1 && ` • v${paper.version}`}
                       </p>
                     </div>
                   ))}
+                  {arxivSearch.results.length < arxivSearch.totalResults && (
+                    <button
+                      onClick={arxivSearch.loadMore}
+                      disabled={arxivSearch.isSearching || !arxivSearch.canLoadMore}
+                      className="w-full p-3 text-sm text-[#1B3A33] hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {arxivSearch.isSearching
+                        ? 'Loading...'
+                        : `Load more (${arxivSearch.results.length} of ${arxivSearch.totalResults})`}
+                    </button>
+                  )}
                 </div>
               )}
             </div>
+            <button
+              onClick={() => setShowAdvancedSearch(prev => !prev)}
+              className="p-2 text-sm text-[#1B3A33] hover:underline"
+              aria-expanded={showAdvancedSearch}
+            >
+              {showAdvancedSearch ? 'Hide advanced search' : 'Advanced search'}
+            </button>
+            {arxivSearch.activeQuery && (
+              <button onClick={handleSaveSearch} className="p-2 text-sm text-[#1B3A33] hover:underline">
+                Save search
+              </button>
+            )}
             <select
               value={filters.sortBy}
               onChange={(e) => handleSort(e.target.value as SearchFilters['sortBy'])}
@@ -624,151 +1345,378 @@ export default function Home(): JSX.Element {
             >
               <option value="date">Sort by Date</option>
               <option value="rating">Sort by Rating</option>
+              <option value="community">Sort by Community Rating</option>
               <option value="title">Sort by Title</option>
             </select>
           </div>
+          {showAdvancedSearch && (
+            <ArxivQueryBuilder
+              query={advancedQuery}
+              onChange={setAdvancedQuery}
+              onSubmit={(query) => arxivSearch.search(query, { immediate: true })}
+            />
+          )}
         </div>
       </div>
 
       <div className="max-w-6xl mx-auto px-4 py-6">
-        <div className="flex gap-6 mb-8">
-          <button
-            onClick={() => handleShelfChange('all')}
-            className={`px-4 py-2 rounded ${
-              filters.shelf === 'all'
-                ? 'bg-[#1B3A33] text-white'
-                : 'text-[#1B3A33] hover:bg-[#1B3A33] hover:text-white'
-            }`}
-          >
-            All Papers
-          </button>
-          <button
-            onClick={() => handleShelfChange('want')}
-            className={`px-4 py-2 rounded ${
-              filters.shelf === 'want'
-                ? 'bg-[#1B3A33] text-white'
-                : 'text-[#1B3A33] hover:bg-[#1B3A33] hover:text-white'
-            }`}
-          >
-            Want to Read
-          </button>
-          <button
-            onClick={() => handleShelfChange('current')}
-            className={`px-4 py-2 rounded ${
-              filters.shelf === 'current'
-                ? 'bg-[#1B3A33] text-white'
-                : 'text-[#1B3A33] hover:bg-[#1B3A33] hover:text-white'
-            }`}
-          >
-            Currently Reading
-          </button>
-          <button
-            onClick={() => handleShelfChange('read')}
-            className={`px-4 py-2 rounded ${
-              filters.shelf === 'read'
-                ? 'bg-[#1B3A33] text-white'
-                : 'text-[#1B3A33] hover:bg-[#1B3A33] hover:text-white'
-            }`}
-          >
-            Read
-          </button>
+        {storageError && (
+          <div className="mb-6 p-3 border border-red-200 bg-red-50 text-sm text-red-700 rounded">
+            {storageError}
+          </div>
+        )}
+        <div className="flex gap-2 mb-6">
+          {([
+            ['papers', 'Papers'],
+            ['stats', 'Reading stats'],
+            ['citations', 'Citation graph'],
+            ['inbox', inboxUnseen > 0 ? `Inbox (${inboxUnseen})` : 'Inbox'],
+            ['offline', offline.isOnline ? 'Offline reading' : 'Offline reading (offline now)']
+          ] as const).map(([view, label]) => (
+            <button
+              key={view}
+              onClick={() => setLibraryView(view)}
+              className={`px-3 py-1 rounded text-sm ${
+                libraryView === view ? 'bg-[#1B3A33] text-white' : 'text-[#1B3A33] hover:bg-[#F4F1EA]'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {papers.length === 0 ? (
-            <div className="col-span-full text-center py-12 text-gray-500">
-              Search for papers on arXiv to add them to your library
-            </div>
-          ) : (
-            papers.map(paper => (
-              <article
-                key={paper.id}
-                className="bg-white border border-[#D6D0C4] rounded-lg overflow-hidden hover:shadow-lg transition-shadow"
-              >
-                <div className="p-4">
-                  <div className="flex items-start gap-4">
-                    <button
-                      onClick={() => {
-                        setSelectedPaper(paper);
-                        setIsReaderMode(true);
-                      }}
-                      className="w-20 h-28 flex-shrink-0 bg-[#1B3A33] rounded flex items-center justify-center cursor-pointer"
-                    >
-                      <span className="text-white text-3xl">{'📄'}</span>
-                    </button>
-                    <div>
-                      <h2 
-                        className="text-lg font-semibold text-[#1B3A33] hover:underline cursor-pointer"
-                        onClick={() => {
-                          setSelectedPaper(paper);
-                          setIsReaderMode(true);
-                        }}
-                      >
-                        {paper.title}
-                      </h2>
-                      <p className="text-sm text-gray-600 mt-1">
-                        {paper.authors.join(', ')}
-                      </p>
-                      <p className="text-xs text-gray-500 mt-1">
-                        {paper.journal} • {new Date(paper.publicationDate).toLocaleDateString()}
-                      </p>
-                    </div>
+        {libraryView === 'stats' ? (
+          <ReadingDashboard
+            papers={papers}
+            events={readingEvents}
+            goals={readingGoals}
+            onAddGoal={handleAddReadingGoal}
+            onDeleteGoal={handleDeleteReadingGoal}
+            onOpenPaper={handleOpenPaper}
+          />
+        ) : libraryView === 'offline' ? (
+          <OfflineStoragePanel
+            papers={papers}
+            shelves={shelves}
+            offline={offline}
+            onOpenPaper={handleOpenPaper}
+            onTogglePaper={handleTogglePaperOffline}
+            onToggleShelf={handleToggleShelfOffline}
+            onRemoveAll={handleRemoveAllOffline}
+          />
+        ) : libraryView === 'inbox' ? (
+          <SubscriptionInbox
+            subscriptions={subscriptions}
+            inbox={inbox}
+            shelves={shelves}
+            isChecking={subscriptionFeed.isChecking}
+            checkError={subscriptionFeed.error}
+            onCheckNow={subscriptionFeed.checkNow}
+            onDeleteSubscription={handleDeleteSubscription}
+            onAdd={handleAddInboxItem}
+            onDismiss={handleDismissInboxItem}
+            onMarkSeen={handleMarkInboxSeen}
+          />
+        ) : libraryView === 'citations' ? (
+          <CitationGraphView
+            papers={papers}
+            graph={citationGraph}
+            addingKey={addingReferenceKey}
+            addError={referenceError}
+            onOpenPaper={handleOpenPaper}
+            onAddReference={handleAddReference}
+          />
+        ) : (
+          <div className="flex gap-8">
+            <LibrarySidebar
+              papers={papers}
+              shelves={shelves}
+              collections={collections}
+              filters={filters}
+              onToggleShelf={handleToggleShelfFilter}
+              onSelectCollection={handleSelectCollection}
+              onToggleTag={handleToggleTagFilter}
+              onAddShelf={handleAddShelf}
+              onDeleteShelf={handleDeleteShelf}
+              onAddCollection={handleAddCollection}
+              onDeleteCollection={handleDeleteCollection}
+            />
+
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2 mb-8">
+                {[{ value: 'all' as const, label: 'All Papers' }, ...READING_STATUS_OPTIONS].map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleShelfChange(option.value)}
+                    className={`px-4 py-2 rounded ${
+                      filters.shelf === option.value
+                        ? 'bg-[#1B3A33] text-white'
+                        : 'text-[#1B3A33] hover:bg-[#1B3A33] hover:text-white'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+                <input
+                  type="search"
+                  placeholder="Search your library..."
+                  value={filters.query}
+                  onChange={handleSearch}
+                  className="ml-auto p-2 border border-[#D6D0C4] rounded bg-white focus:ring-2 focus:ring-[#1B3A33] focus:border-[#1B3A33]"
+                  aria-label="Search your library"
+                />
+              </div>
+
+              {duplicatePairs.length > 0 && (
+                <DuplicatesPanel
+                  pairs={duplicatePairs}
+                  onMerge={handleMergePapers}
+                  onDismiss={handleDismissDuplicate}
+                />
+              )}
+
+              <CitationToolbar
+                papers={exportScope.papers}
+                library={papers}
+                scopeLabel={exportScope.label}
+                onImport={handleImportCitations}
+                onAssignCitationKeys={handleAssignCitationKeys}
+              />
+              <ReadingListShare
+                papers={exportScope.papers}
+                defaultTitle={readingListTitle}
+                exportedBy={currentUser.user?.displayName ?? null}
+                onImport={handleImportReadingList}
+              />
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {papers.length === 0 ? (
+                  <div className="col-span-full text-center py-12 text-gray-500">
+                    Search for papers on arXiv to add them to your library
                   </div>
+                ) : filteredPapers.length === 0 ? (
+                  <div className="col-span-full text-center py-12 text-gray-500">
+                    No papers in your library match these filters
+                    {hasOrganizationFilters(filters) && (
+                      <button onClick={handleClearFilters} className="block mx-auto mt-2 text-[#1B3A33] hover:underline">
+                        Clear filters
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  filteredPapers.map(paper => (
+                    <article
+                      key={paper.id}
+                      className="bg-white border border-[#D6D0C4] rounded-lg overflow-hidden hover:shadow-lg transition-shadow"
+                    >
+                      <div className="p-4">
+                        <div className="flex items-start gap-4">
+                          <button
+                            onClick={() => handleOpenPaper(paper)}
+                            className={`w-20 h-28 flex-shrink-0 bg-[#1B3A33] rounded flex items-center justify-center cursor-pointer ${
+                              isUnavailableOffline(paper) ? 'opacity-40' : ''
+                            }`}
+                          >
+                            <span className="text-white text-3xl">{'📄'}</span>
+                          </button>
+                          <div>
+                            <h2 
+                              className="text-lg font-semibold text-[#1B3A33] hover:underline cursor-pointer"
+                              onClick={() => handleOpenPaper(paper)}
+                            >
+                              {paper.title}
+                            </h2>
+                            <p className="text-sm text-gray-600 mt-1">
+                              {paper.authors.join(', ')}
+                            </p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {paper.journal}
+                              {paper.publicationDate && ` • ${new Date(paper.publicationDate).toLocaleDateString()}`}
+                              {paper.primaryCategory && ` • ${paper.primaryCategory}`}
+                            </p>
+                            {(mentionCounts.get(paper.id) ?? 0) > 0 && (
+                              <button
+                                onClick={() => handleOpenPaper(paper)}
+                                className="mt-1 px-2 py-0.5 rounded-full bg-[#FF9900]/20 text-xs text-[#1B3A33] hover:bg-[#FF9900]/30"
+                              >
+                                @ {mentionCounts.get(paper.id)} unresolved {mentionCounts.get(paper.id) === 1 ? 'mention' : 'mentions'}
+                              </button>
+                            )}
+                            {hasPendingUpdate(paper) && (
+                              <button
+                                onClick={() => setExpandedUpdateId(prev => (prev === paper.id ? null : paper.id))}
+                                className="mt-1 ml-1 px-2 py-0.5 rounded-full bg-[#1B3A33]/10 text-xs text-[#1B3A33] hover:bg-[#1B3A33]/20"
+                                aria-expanded={expandedUpdateId === paper.id}
+                              >
+                                New version{paper.availableUpdate?.version ? ` v${paper.availableUpdate.version}` : ''} available
+                              </button>
+                            )}
+                            {isUnavailableOffline(paper) && (
+                              <span className="inline-block mt-1 ml-1 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600">
+                                Not available offline
+                              </span>
+                            )}
+                            {offline.isSupported && paper.pdfUrl && (
+                              <label className="flex items-center gap-1 mt-1 text-xs text-gray-600 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={paper.availableOffline}
+                                  onChange={(e) => handleTogglePaperOffline(paper.id, e.target.checked)}
+                                  className="accent-[#1B3A33]"
+                                />
+                                Available offline
+                                {wantsOffline(paper, shelves) && (
+                                  <span className="text-gray-400">
+                                    {offline.cached.has(paper.pdfUrl) ? '• saved' : '• saving…'}
+                                    {!paper.availableOffline && ' (offline shelf)'}
+                                  </span>
+                                )}
+                              </label>
+                            )}
+                          </div>
+                          <input
+                            type="checkbox"
+                            checked={checkedPaperIds.includes(paper.id)}
+                            onChange={() => handleTogglePaperChecked(paper.id)}
+                            className="ml-auto mt-1 accent-[#1B3A33]"
+                            aria-label={`Select ${paper.title} for export`}
+                          />
+                        </div>
 
-                  <div className="mt-4">
-                    <div className="flex items-center gap-1 mb-2">
-                      {[1, 2, 3, 4, 5].map((star) => (
-                        <button
-                          key={star}
-                          onClick={() => handleRate(paper.id, star)}
-                          className={`text-xl ${
-                            (paper.userRating || 0) >= star
-                              ? 'text-[#FF9900]'
-                              : 'text-gray-300'
-                          }`}
-                          aria-label={`Rate ${star} stars`}
-                        >
-                          {'★'}
-                        </button>
-                      ))}
-                      <span className="text-sm text-gray-600 ml-2">
-                        {paper.userRating ? `${paper.userRating} stars` : 'Rate this paper'}
-                      </span>
-                    </div>
+                        {expandedUpdateId === paper.id && paper.availableUpdate && (
+                          <VersionUpdate
+                            paper={paper}
+                            update={paper.availableUpdate}
+                            onSwitch={() => handleSwitchVersion(paper.id)}
+                            onDismiss={() => handleDismissVersion(paper.id)}
+                          />
+                        )}
 
-                    <div className="flex gap-2 mt-3">
-                      <select
-                        value={paper.readingStatus || ''}
-                        onChange={(e) => handleReadingStatus(paper.id, e.target.value as Paper['readingStatus'])}
-                        className="w-full p-2 text-sm border border-[#D6D0C4] rounded bg-white focus:ring-2 focus:ring-[#1B3A33]"
-                      >
-                        <option value="">Add to Shelf</option>
-                        <option value="want">Want to Read</option>
-                        <option value="current">Currently Reading</option>
-                        <option value="read">Read</option>
-                      </select>
-                    </div>
+                        {searchResultsById.get(paper.id)?.snippets.length ? (
+                          <div className="mt-3 space-y-1 border-l-2 border-[#D6D0C4] pl-3">
+                            {searchResultsById.get(paper.id)?.snippets.map((snippet, index) => (
+                              <SearchSnippet
+                                key={`${snippet.field}-${index}`}
+                                snippet={snippet}
+                                onGoToPage={(page) => handleOpenPaper(paper, page)}
+                              />
+                            ))}
+                          </div>
+                        ) : null}
 
-                    <div className="mt-3 text-xs text-gray-500">
-                      <span className="mr-4">Citations: {paper.citations}</span>
-                      {paper.arxivId && (
-                        <a
-                          href={`https://arxiv.org/abs/${paper.arxivId}`}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-[#1B3A33] hover:underline"
-                        >
-                          arXiv
-                        </a>
-                      )}
-                    </div>
+                        <div className="mt-4">
+                          <div className="flex items-center gap-1 mb-2">
+                            {[1, 2, 3, 4, 5].map((star) => (
+                              <button
+                                key={star}
+                                onClick={() => handleRate(paper.id, star)}
+                                className={`text-xl ${
+                                  (paper.userRating || 0) >= star
+                                    ? 'text-[#FF9900]'
+                                    : 'text-gray-300'
+                                }`}
+                                aria-label={`Rate ${star} stars`}
+                              >
+                                {'★'}
+                              </button>
+                            ))}
+                            <span className="text-sm text-gray-600 ml-2">
+                              {paper.userRating ? `${paper.userRating} stars` : 'Rate this paper'}
+                            </span>
+                          </div>
+                          {paper.reviews.length > 0 && (
+                            <p className="text-xs text-gray-600 mb-2">
+                              <span className="text-[#FF9900]">{'★'}</span>{' '}
+                              {communityRatings.get(paper.id)?.average?.toFixed(1)} community •{' '}
+                              {paper.reviews.length} {paper.reviews.length === 1 ? 'review' : 'reviews'}
+                            </p>
+                          )}
+
+                          <div className="flex gap-2 mt-3">
+                            <select
+                              value={paper.readingStatus || ''}
+                              onChange={(e) => handleReadingStatus(paper.id, (e.target.value || null) as Paper['readingStatus'])}
+                              className="w-full p-2 text-sm border border-[#D6D0C4] rounded bg-white focus:ring-2 focus:ring-[#1B3A33]"
+                            >
+                              <option value="">Add to Shelf</option>
+                              {READING_STATUS_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          </div>
+
+                          {paper.totalPages > 0 && (
+                            <div className="mt-2 h-1 rounded-full bg-[#F4F1EA] overflow-hidden" title={`Page ${paper.currentPage} of ${paper.totalPages}`}>
+                              <div
+                                className="h-full bg-[#1B3A33]"
+                                style={{ width: `${Math.round(readingProgress(paper) * 100)}%` }}
+                              />
+                            </div>
+                          )}
+
+                          <PaperOrganizer
+                            paper={paper}
+                            shelves={shelves}
+                            collections={collections}
+                            onChange={handleOrganizePaper}
+                            onTagClick={handleToggleTagFilter}
+                          />
+
+                          <div className="mt-3 text-xs text-gray-500">
+                            <span
+                              className="mr-4"
+                              title={paper.fieldUpdatedAt.citations
+                                ? `Updated ${new Date(paper.fieldUpdatedAt.citations).toLocaleDateString()}`
+                                : undefined}
+                            >
+                              Citations: {paper.citations ?? '—'}
+                            </span>
+                            {paper.arxivId && (
+                              <a
+                                href={`https://arxiv.org/abs/${paper.arxivId}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-[#1B3A33] hover:underline"
+                              >
+                                arXiv
+                              </a>
+                            )}
+                            {paper.doi && (
+                              <a
+                                href={`https://doi.org/${paper.doi}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="ml-4 text-[#1B3A33] hover:underline"
+                              >
+                                DOI
+                              </a>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    </article>
+                  ))
+                )}
+              </div>
+
+              {papers.length > 0 && (
+                <section className="mt-10">
+                  <h2 className="text-lg font-semibold text-[#1B3A33] mb-4">Recommended for you</h2>
+                  <div className="bg-white border border-[#D6D0C4] rounded-lg p-4">
+                    <RelatedPapers
+                      recommendations={recommendedForLibrary(recommendationModel, papers, RECOMMENDATIONS_SHOWN)}
+                      emptyMessage="Search arXiv or open a paper's related papers to get recommendations"
+                      onOpenPaper={handleOpenPaper}
+                      onAddPaper={addPaperToLibrary}
+                    />
                   </div>
-                </div>
-              </article>
-            ))
-          )}
-        </div>
+                </section>
+              )}
+            </div>
+          </div>
+        )}
       </div>
+      {duplicateDialog}
     </main>
   );
 }
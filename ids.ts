@@ -0,0 +1,9 @@
+// Random ids, so records created in the same millisecond, in another tab or
+// on another device never collide.
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const random = (): string => Math.random().toString(36).slice(2, 10);
+  return `${Date.now().toString(36)}-${random()}${random()}`;
+}
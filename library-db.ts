@@ -0,0 +1,415 @@
+import { splitArxivId } from './arxiv-parser';
+import type {
+  ArxivPaper,
+  Collection,
+  InboxItem,
+  Paper,
+  ReadingEvent,
+  ReadingGoal,
+  Shelf,
+  Subscription
+} from './types';
+
+const DB_NAME = 'academic-good-reads';
+// Bumped whenever object stores or indexes change.
+const DB_VERSION = 6;
+const PAPERS_STORE = 'papers';
+// Text extracted from each paper's PDF, kept apart from the papers so the
+// library can be saved without rewriting it.
+const FULL_TEXT_STORE = 'fullText';
+const SHELVES_STORE = 'shelves';
+const COLLECTIONS_STORE = 'collections';
+// Append-only history of status changes and reading sessions.
+const EVENTS_STORE = 'events';
+const GOALS_STORE = 'goals';
+// arXiv results seen while searching, kept as offline recommendation candidates.
+const CANDIDATES_STORE = 'arxivCandidates';
+export const MAX_CANDIDATES = 1000;
+const SUBSCRIPTIONS_STORE = 'subscriptions';
+const INBOX_STORE = 'inbox';
+
+// Bumped whenever the shape of `Paper` changes. Add a migration keyed by the
+// new version that upgrades a record from the previous one.
+export const LIBRARY_SCHEMA_VERSION = 16;
+
+type PaperRecord = Record<string, unknown>;
+
+interface StoredPaper {
+  id: string;
+  schemaVersion: number;
+  paper: PaperRecord;
+}
+
+const migrations: Record<number, (paper: PaperRecord) => PaperRecord> = {
+  // v2: full arXiv metadata; arxivId no longer carries the version suffix.
+  2: paper => {
+    const versioned = typeof paper.arxivId === 'string' ? splitArxivId(paper.arxivId) : null;
+    return {
+      ...paper,
+      arxivId: versioned ? versioned.id : null,
+      arxivVersion: versioned ? versioned.version : null,
+      arxivComment: '',
+      updatedDate: paper.publicationDate,
+      primaryCategory: null,
+      categories: [],
+      authorAffiliations: {}
+    };
+  },
+  // v3: citation counts are unknown (null) until enrichment resolves them.
+  3: paper => ({
+    ...paper,
+    citations: null,
+    fieldUpdatedAt: {},
+    enrichmentCheckedAt: null
+  }),
+  // v4: highlights store the rectangles they cover on the page.
+  4: paper => ({
+    ...paper,
+    annotations: (paper.annotations as Record<string, unknown>[]).map(annotation => ({
+      ...annotation,
+      rects: []
+    }))
+  }),
+  // v5: sections carry a nesting level and remember how they were found.
+  5: paper => ({
+    ...paper,
+    sections: (paper.sections as Record<string, unknown>[]).map(section => ({ ...section, level: 0 })),
+    sectionsSource: null
+  }),
+  // v6: notes are editable, keep their history and can point at a highlight.
+  6: paper => ({
+    ...paper,
+    notes: (paper.notes as Record<string, unknown>[]).map(note => ({
+      ...note,
+      annotationId: null,
+      updatedAt: null,
+      history: []
+    }))
+  }),
+  // v7: papers can be on custom shelves, in collections and carry tags.
+  7: paper => ({
+    ...paper,
+    shelfIds: [],
+    collectionIds: [],
+    tags: []
+  }),
+  // v8: comments and reviews record who wrote them and when they were edited.
+  8: paper => ({
+    ...paper,
+    comments: (paper.comments as Record<string, unknown>[]).map(comment => ({
+      ...comment,
+      authorId: null,
+      editedAt: null
+    })),
+    reviews: (paper.reviews as Record<string, unknown>[]).map(review => ({
+      ...review,
+      authorId: null,
+      editedAt: null
+    }))
+  }),
+  // v9: comments form threads that can be anchored, resolved and mention users.
+  9: paper => ({
+    ...paper,
+    comments: (paper.comments as Record<string, unknown>[]).map(comment => ({
+      ...comment,
+      parentId: null,
+      anchor: null,
+      resolvedAt: null,
+      resolvedBy: null,
+      mentionedUserIds: [],
+      deletedAt: null
+    }))
+  }),
+  // v10: papers keep the reference list extracted from their PDF.
+  10: paper => ({
+    ...paper,
+    references: [],
+    referencesExtractedAt: null
+  }),
+  // v11: papers remember which possible duplicates the user kept apart.
+  11: paper => ({
+    ...paper,
+    notDuplicateOf: []
+  }),
+  // v12: arXiv papers are checked for newer versions.
+  12: paper => ({
+    ...paper,
+    versionCheckedAt: null,
+    availableUpdate: null
+  }),
+  // v13: PDFs can be kept for offline reading.
+  13: paper => ({
+    ...paper,
+    availableOffline: false
+  }),
+  // v14: reviews can be voted helpful.
+  14: paper => ({
+    ...paper,
+    reviews: (paper.reviews as Record<string, unknown>[]).map(review => ({
+      ...review,
+      helpfulVoterIds: []
+    }))
+  }),
+  // v15: citation keys are kept once assigned.
+  15: paper => ({
+    ...paper,
+    citationKey: null
+  }),
+  // v16: references without an arXiv id or DOI are looked up by title.
+  16: paper => ({
+    ...paper,
+    referencesLookedUpAt: null
+  })
+};
+
+export class LibrarySchemaError extends Error {
+  constructor(public readonly storedVersion: number) {
+    super(
+      `Library was saved with schema version ${storedVersion}, ` +
+      `but this app only understands up to version ${LIBRARY_SCHEMA_VERSION}.`
+    );
+    this.name = 'LibrarySchemaError';
+  }
+}
+
+export function migratePaper(paper: PaperRecord, fromVersion: number): Paper {
+  if (fromVersion > LIBRARY_SCHEMA_VERSION) {
+    throw new LibrarySchemaError(fromVersion);
+  }
+
+  let migrated = paper;
+  for (let version = fromVersion + 1; version <= LIBRARY_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`Missing library migration to schema version ${version}`);
+    }
+    migrated = migrate(migrated);
+  }
+  return migrated as unknown as Paper;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PAPERS_STORE)) {
+          db.createObjectStore(PAPERS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(FULL_TEXT_STORE)) {
+          db.createObjectStore(FULL_TEXT_STORE, { keyPath: 'paperId' });
+        }
+        [
+          SHELVES_STORE,
+          COLLECTIONS_STORE,
+          EVENTS_STORE,
+          GOALS_STORE,
+          CANDIDATES_STORE,
+          SUBSCRIPTIONS_STORE,
+          INBOX_STORE
+        ].forEach(storeName => {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function loadLibrary(): Promise<Paper[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(PAPERS_STORE, 'readonly');
+  const records = await requestToPromise<StoredPaper[]>(
+    transaction.objectStore(PAPERS_STORE).getAll()
+  );
+
+  const papers = records.map(record => migratePaper(record.paper, record.schemaVersion));
+
+  if (records.some(record => record.schemaVersion !== LIBRARY_SCHEMA_VERSION)) {
+    await saveLibrary(papers);
+  }
+
+  return papers;
+}
+
+export async function saveLibrary(papers: Paper[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(PAPERS_STORE, 'readwrite');
+  const store = transaction.objectStore(PAPERS_STORE);
+
+  store.clear();
+  papers.forEach(paper => {
+    const record: StoredPaper = {
+      id: paper.id,
+      schemaVersion: LIBRARY_SCHEMA_VERSION,
+      paper: paper as unknown as PaperRecord
+    };
+    store.put(record);
+  });
+
+  await transactionDone(transaction);
+}
+
+interface StoredFullText {
+  paperId: string;
+  text: string;
+}
+
+export async function loadFullTexts(): Promise<Record<string, string>> {
+  const db = await openDatabase();
+  const transaction = db.transaction(FULL_TEXT_STORE, 'readonly');
+  const records = await requestToPromise<StoredFullText[]>(
+    transaction.objectStore(FULL_TEXT_STORE).getAll()
+  );
+
+  return Object.fromEntries(records.map(record => [record.paperId, record.text]));
+}
+
+export async function saveFullText(paperId: string, text: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(FULL_TEXT_STORE, 'readwrite');
+  const record: StoredFullText = { paperId, text };
+  transaction.objectStore(FULL_TEXT_STORE).put(record);
+
+  await transactionDone(transaction);
+}
+
+export async function deleteFullText(paperId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(FULL_TEXT_STORE, 'readwrite');
+  transaction.objectStore(FULL_TEXT_STORE).delete(paperId);
+
+  await transactionDone(transaction);
+}
+
+async function readAll<T>(storeName: string): Promise<T[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readonly');
+  return requestToPromise<T[]>(transaction.objectStore(storeName).getAll());
+}
+
+async function replaceAll<T>(storeName: string, items: T[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+
+  store.clear();
+  items.forEach(item => store.put(item));
+
+  await transactionDone(transaction);
+}
+
+// Shelves saved before offline reading existed lack the flag.
+export async function loadShelves(): Promise<Shelf[]> {
+  const shelves = await readAll<Shelf>(SHELVES_STORE);
+  return shelves.map(shelf => ({ ...shelf, availableOffline: shelf.availableOffline ?? false }));
+}
+
+export function saveShelves(shelves: Shelf[]): Promise<void> {
+  return replaceAll(SHELVES_STORE, shelves);
+}
+
+export function loadCollections(): Promise<Collection[]> {
+  return readAll<Collection>(COLLECTIONS_STORE);
+}
+
+export function saveCollections(collections: Collection[]): Promise<void> {
+  return replaceAll(COLLECTIONS_STORE, collections);
+}
+
+export function loadReadingEvents(): Promise<ReadingEvent[]> {
+  return readAll<ReadingEvent>(EVENTS_STORE);
+}
+
+export async function appendReadingEvent(event: ReadingEvent): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(EVENTS_STORE, 'readwrite');
+  transaction.objectStore(EVENTS_STORE).add(event);
+
+  await transactionDone(transaction);
+}
+
+export function loadReadingGoals(): Promise<ReadingGoal[]> {
+  return readAll<ReadingGoal>(GOALS_STORE);
+}
+
+export function saveReadingGoals(goals: ReadingGoal[]): Promise<void> {
+  return replaceAll(GOALS_STORE, goals);
+}
+
+export function loadSubscriptions(): Promise<Subscription[]> {
+  return readAll<Subscription>(SUBSCRIPTIONS_STORE);
+}
+
+export function saveSubscriptions(subscriptions: Subscription[]): Promise<void> {
+  return replaceAll(SUBSCRIPTIONS_STORE, subscriptions);
+}
+
+export function loadInbox(): Promise<InboxItem[]> {
+  return readAll<InboxItem>(INBOX_STORE);
+}
+
+export function saveInbox(inbox: InboxItem[]): Promise<void> {
+  return replaceAll(INBOX_STORE, inbox);
+}
+
+interface StoredCandidate {
+  id: string;
+  seenAt: string;
+  paper: ArxivPaper;
+}
+
+// Least recently seen first, the order new candidates are appended in.
+export async function loadArxivCandidates(): Promise<ArxivPaper[]> {
+  const records = await readAll<StoredCandidate>(CANDIDATES_STORE);
+  return records
+    .sort((a, b) => a.seenAt.localeCompare(b.seenAt))
+    .map(record => record.paper);
+}
+
+// Adds or refreshes candidates, dropping the least recently seen ones once
+// the store is full.
+export async function saveArxivCandidates(papers: ArxivPaper[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(CANDIDATES_STORE, 'readwrite');
+  const store = transaction.objectStore(CANDIDATES_STORE);
+  const seenAt = new Date().toISOString();
+
+  papers.forEach(paper => {
+    const record: StoredCandidate = { id: paper.id, seenAt, paper };
+    store.put(record);
+  });
+
+  const records = await requestToPromise<StoredCandidate[]>(store.getAll());
+  records
+    .sort((a, b) => b.seenAt.localeCompare(a.seenAt))
+    .slice(MAX_CANDIDATES)
+    .forEach(record => store.delete(record.id));
+
+  await transactionDone(transaction);
+}
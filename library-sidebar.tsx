@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import { allTags, flattenCollections } from './organization';
+import type { Collection, Paper, SearchFilters, Shelf } from './types';
+
+interface LibrarySidebarProps {
+  papers: Paper[];
+  shelves: Shelf[];
+  collections: Collection[];
+  filters: SearchFilters;
+  onToggleShelf: (shelfId: string) => void;
+  onSelectCollection: (collectionId: string | null) => void;
+  onToggleTag: (tag: string) => void;
+  onAddShelf: (name: string) => void;
+  onDeleteShelf: (shelfId: string) => void;
+  onAddCollection: (name: string, parentId: string | null) => void;
+  onDeleteCollection: (collectionId: string) => void;
+}
+
+interface NameInputProps {
+  placeholder: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+function NameInput({ placeholder, onSubmit, onCancel }: NameInputProps): JSX.Element {
+  const [name, setName] = useState<string>('');
+
+  return (
+    <input
+      type="text"
+      value={name}
+      onChange={(e) => setName(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && name.trim()) onSubmit(name);
+        if (e.key === 'Escape') onCancel();
+      }}
+      onBlur={onCancel}
+      placeholder={placeholder}
+      className="w-full mt-1 p-1 text-sm border border-[#D6D0C4] rounded bg-white focus:ring-2 focus:ring-[#1B3A33]"
+      autoFocus
+    />
+  );
+}
+
+function itemClass(isActive: boolean): string {
+  return `flex-1 min-w-0 truncate text-left px-2 py-1 rounded ${
+    isActive ? 'bg-[#1B3A33] text-white' : 'text-[#1B3A33] hover:bg-[#F4F1EA]'
+  }`;
+}
+
+export default function LibrarySidebar({
+  papers,
+  shelves,
+  collections,
+  filters,
+  onToggleShelf,
+  onSelectCollection,
+  onToggleTag,
+  onAddShelf,
+  onDeleteShelf,
+  onAddCollection,
+  onDeleteCollection
+}: LibrarySidebarProps): JSX.Element {
+  const [isAddingShelf, setIsAddingShelf] = useState<boolean>(false);
+  // undefined when not adding, null when adding a top-level collection.
+  const [addingCollectionParent, setAddingCollectionParent] = useState<string | null | undefined>(undefined);
+  const tags = allTags(papers);
+
+  const countOf = (predicate: (paper: Paper) => boolean): number => papers.filter(predicate).length;
+
+  return (
+    <aside className="w-56 flex-shrink-0 space-y-6 text-sm">
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="font-semibold text-[#1B3A33]">Shelves</h2>
+          <button
+            onClick={() => setIsAddingShelf(true)}
+            className="text-gray-500 hover:text-[#1B3A33]"
+            aria-label="Add shelf"
+          >
+            +
+          </button>
+        </div>
+        <ul className="space-y-1">
+          {[...shelves].sort((a, b) => a.name.localeCompare(b.name)).map(shelf => (
+            <li key={shelf.id} className="group flex items-center gap-1">
+              <button
+                onClick={() => onToggleShelf(shelf.id)}
+                className={itemClass(filters.shelfIds.includes(shelf.id))}
+              >
+                {shelf.name}
+                <span className="ml-1 opacity-60">({countOf(paper => paper.shelfIds.includes(shelf.id))})</span>
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete the shelf "${shelf.name}"? Papers on it stay in your library.`)) {
+                    onDeleteShelf(shelf.id);
+                  }
+                }}
+                className="invisible group-hover:visible px-1 text-gray-400 hover:text-red-700"
+                aria-label={`Delete shelf ${shelf.name}`}
+              >
+                {'×'}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {shelves.length === 0 && !isAddingShelf && (
+          <p className="text-gray-500">No custom shelves yet</p>
+        )}
+        {isAddingShelf && (
+          <NameInput
+            placeholder="Shelf name"
+            onSubmit={(name) => {
+              onAddShelf(name);
+              setIsAddingShelf(false);
+            }}
+            onCancel={() => setIsAddingShelf(false)}
+          />
+        )}
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="font-semibold text-[#1B3A33]">Collections</h2>
+          <button
+            onClick={() => setAddingCollectionParent(null)}
+            className="text-gray-500 hover:text-[#1B3A33]"
+            aria-label="Add collection"
+          >
+            +
+          </button>
+        </div>
+        <ul className="space-y-1">
+          {flattenCollections(collections).map(({ collection, depth }) => (
+            <li key={collection.id}>
+              <div className="group flex items-center gap-1" style={{ paddingLeft: `${depth}rem` }}>
+                <button
+                  onClick={() => onSelectCollection(filters.collectionId === collection.id ? null : collection.id)}
+                  className={itemClass(filters.collectionId === collection.id)}
+                >
+                  {collection.name}
+                  <span className="ml-1 opacity-60">
+                    ({countOf(paper => paper.collectionIds.includes(collection.id))})
+                  </span>
+                </button>
+                <button
+                  onClick={() => setAddingCollectionParent(collection.id)}
+                  className="invisible group-hover:visible px-1 text-gray-400 hover:text-[#1B3A33]"
+                  aria-label={`Add collection inside ${collection.name}`}
+                >
+                  +
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete "${collection.name}" and the collections inside it? Papers stay in your library.`)) {
+                      onDeleteCollection(collection.id);
+                    }
+                  }}
+                  className="invisible group-hover:visible px-1 text-gray-400 hover:text-red-700"
+                  aria-label={`Delete collection ${collection.name}`}
+                >
+                  {'×'}
+                </button>
+              </div>
+              {addingCollectionParent === collection.id && (
+                <div style={{ paddingLeft: `${depth + 1}rem` }}>
+                  <NameInput
+                    placeholder="Collection name"
+                    onSubmit={(name) => {
+                      onAddCollection(name, collection.id);
+                      setAddingCollectionParent(undefined);
+                    }}
+                    onCancel={() => setAddingCollectionParent(undefined)}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        {collections.length === 0 && addingCollectionParent === undefined && (
+          <p className="text-gray-500">No collections yet</p>
+        )}
+        {addingCollectionParent === null && (
+          <NameInput
+            placeholder="Collection name"
+            onSubmit={(name) => {
+              onAddCollection(name, null);
+              setAddingCollectionParent(undefined);
+            }}
+            onCancel={() => setAddingCollectionParent(undefined)}
+          />
+        )}
+      </section>
+
+      <section>
+        <h2 className="font-semibold text-[#1B3A33] mb-2">Tags</h2>
+        {tags.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => onToggleTag(tag)}
+                className={`px-2 py-0.5 rounded-full border ${
+                  filters.tags.includes(tag)
+                    ? 'bg-[#1B3A33] border-[#1B3A33] text-white'
+                    : 'border-[#D6D0C4] text-[#1B3A33] hover:bg-[#F4F1EA]'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500">Tag papers to see them here</p>
+        )}
+      </section>
+    </aside>
+  );
+}
@@ -0,0 +1,534 @@
+import { describe, expect, it } from 'vitest';
+import { initialLibraryState, libraryReducer, selectedPaper } from './library-store';
+import type { LibraryAction, LibraryState } from './library-store';
+import { createPaper } from './paper-factory';
+import type { Annotation, Collection, Comment, Note, Paper, Review, Shelf } from './types';
+
+function paper(id: string, overrides: Partial<Paper> = {}): Paper {
+  return createPaper({
+    id,
+    title: `Paper ${id}`,
+    authors: ['A. Author'],
+    abstract: '',
+    publicationDate: '2024-01-01',
+    journal: 'arXiv preprint',
+    doi: '',
+    pdfUrl: `https://arxiv.org/pdf/${id}`,
+    arxivId: id,
+    ...overrides
+  });
+}
+
+function note(id: string, text: string): Note {
+  return {
+    id,
+    text,
+    pageNumber: 1,
+    annotationId: null,
+    timestamp: '2024-01-01T00:00:00Z',
+    updatedAt: null,
+    history: []
+  };
+}
+
+function annotation(id: string): Annotation {
+  return {
+    id,
+    text: 'highlighted',
+    color: '#FF9900',
+    pageNumber: 2,
+    position: { x: 0, y: 0 },
+    rects: [],
+    timestamp: '2024-01-01T00:00:00Z'
+  };
+}
+
+function comment(id: string, authorId: string, overrides: Partial<Comment> = {}): Comment {
+  return {
+    id,
+    text: `Comment ${id}`,
+    timestamp: '2024-01-01T00:00:00Z',
+    authorId,
+    userName: authorId,
+    editedAt: null,
+    parentId: null,
+    anchor: null,
+    resolvedAt: null,
+    resolvedBy: null,
+    mentionedUserIds: [],
+    deletedAt: null,
+    ...overrides
+  };
+}
+
+function review(id: string, authorId: string, overrides: Partial<Review> = {}): Review {
+  return {
+    id,
+    text: `Review ${id}`,
+    rating: 4,
+    timestamp: '2024-01-01T00:00:00Z',
+    authorId,
+    userName: authorId,
+    editedAt: null,
+    helpfulVoterIds: [],
+    ...overrides
+  };
+}
+
+const shelf: Shelf = { id: 'shelf-1', name: 'Thesis', availableOffline: false };
+const parentCollection: Collection = { id: 'col-1', name: 'Vision', parentId: null };
+const childCollection: Collection = { id: 'col-2', name: 'Detection', parentId: 'col-1' };
+
+function loaded(papers: Paper[]): LibraryState {
+  return libraryReducer(initialLibraryState, {
+    type: 'load',
+    papers,
+    shelves: [shelf],
+    collections: [parentCollection, childCollection]
+  });
+}
+
+function run(state: LibraryState, ...actions: LibraryAction[]): LibraryState {
+  return actions.reduce(libraryReducer, state);
+}
+
+// The library is always shown sorted, so papers that come back may do so in
+// a different position.
+function sortById(papers: Paper[]): Paper[] {
+  return [...papers].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function find(state: LibraryState, paperId: string): Paper {
+  const found = state.papers.find(candidate => candidate.id === paperId);
+  if (!found) throw new Error(`No paper ${paperId}`);
+  return found;
+}
+
+const library = (): LibraryState => loaded([
+  paper('p1', {
+    shelfIds: ['shelf-1'],
+    collectionIds: ['col-1', 'col-2'],
+    notes: [note('n1', 'First thoughts')],
+    comments: [comment('c1', 'alice'), comment('c2', 'bob', { parentId: 'c1' })],
+    reviews: [review('r1', 'alice')]
+  }),
+  paper('p2')
+]);
+
+describe('libraryReducer', () => {
+  it('loads a library without history', () => {
+    const state = library();
+    expect(state.papers.map(candidate => candidate.id)).toEqual(['p1', 'p2']);
+    expect(state.shelves).toEqual([shelf]);
+    expect(state.collections).toEqual([parentCollection, childCollection]);
+    expect(state.past).toEqual([]);
+    expect(state.future).toEqual([]);
+  });
+
+  it('selects papers by id', () => {
+    const state = run(library(), { type: 'select', paperId: 'p2' });
+    expect(selectedPaper(state)?.id).toBe('p2');
+    expect(selectedPaper(run(state, { type: 'select', paperId: 'gone' }))).toBeNull();
+  });
+
+  it('applies background updates without recording them', () => {
+    const state = run(library(), {
+      type: 'background',
+      update: current => (current.id === 'p1' ? { ...current, currentPage: 7 } : current)
+    });
+    expect(find(state, 'p1').currentPage).toBe(7);
+    expect(state.past).toEqual([]);
+  });
+
+  it('keeps the same state when a background update changes nothing', () => {
+    const state = library();
+    expect(run(state, { type: 'background', update: current => current })).toBe(state);
+  });
+
+  it('adds a paper and links papers it is not a duplicate of', () => {
+    const state = run(library(), { type: 'addPaper', paper: paper('p3', { notDuplicateOf: ['p2'] }) });
+    expect(find(state, 'p3')).toBeDefined();
+    expect(find(state, 'p2').notDuplicateOf).toEqual(['p3']);
+  });
+
+  it('imports papers and creates the shelf for them', () => {
+    const readingList: Shelf = { id: 'shelf-2', name: 'Shared list', availableOffline: false };
+    const imported = paper('p3', { shelfIds: ['shelf-2'] });
+    const state = run(library(), {
+      type: 'importPapers',
+      papers: [...library().papers, imported],
+      shelf: readingList
+    });
+    expect(state.papers).toHaveLength(3);
+    expect(state.shelves).toEqual([shelf, readingList]);
+  });
+
+  it('merges papers and removes the duplicate', () => {
+    const merged = { ...find(library(), 'p1'), doi: '10.1234/merged' };
+    const state = run(library(), { type: 'mergePapers', merged, removedId: 'p2' });
+    expect(state.papers.map(candidate => candidate.id)).toEqual(['p1']);
+    expect(find(state, 'p1').doi).toBe('10.1234/merged');
+  });
+
+  it('marks two papers as not duplicates of each other', () => {
+    const state = run(library(), { type: 'markNotDuplicates', firstId: 'p1', secondId: 'p2' });
+    expect(find(state, 'p1').notDuplicateOf).toEqual(['p2']);
+    expect(find(state, 'p2').notDuplicateOf).toEqual(['p1']);
+  });
+
+  it('rates papers and ignores a repeated rating', () => {
+    const rated = run(library(), { type: 'rate', paperId: 'p1', rating: 4 });
+    expect(find(rated, 'p1').userRating).toBe(4);
+    expect(run(rated, { type: 'rate', paperId: 'p1', rating: 4 })).toBe(rated);
+  });
+
+  it('sets the reading status and ignores an unchanged one', () => {
+    const state = run(library(), { type: 'setReadingStatus', paperId: 'p2', status: 'current' });
+    expect(find(state, 'p2').readingStatus).toBe('current');
+    expect(run(state, { type: 'setReadingStatus', paperId: 'p2', status: 'current' })).toBe(state);
+  });
+
+  it('organizes papers onto shelves, collections and tags', () => {
+    const state = run(library(), {
+      type: 'organize',
+      paperId: 'p2',
+      changes: { shelfIds: ['shelf-1'], tags: ['vision'] }
+    });
+    expect(find(state, 'p2').shelfIds).toEqual(['shelf-1']);
+    expect(find(state, 'p2').tags).toEqual(['vision']);
+  });
+
+  it('marks papers and shelves for offline reading', () => {
+    const state = run(library(), {
+      type: 'setAvailableOffline',
+      paperIds: ['p2'],
+      shelfIds: ['shelf-1'],
+      availableOffline: true
+    });
+    expect(find(state, 'p2').availableOffline).toBe(true);
+    expect(find(state, 'p1').availableOffline).toBe(false);
+    expect(state.shelves[0].availableOffline).toBe(true);
+  });
+
+  it('adds and deletes shelves, taking papers off a deleted shelf', () => {
+    const added: Shelf = { id: 'shelf-2', name: 'Later', availableOffline: false };
+    expect(run(library(), { type: 'addShelf', shelf: added }).shelves).toEqual([shelf, added]);
+
+    const state = run(library(), { type: 'deleteShelf', shelfId: 'shelf-1' });
+    expect(state.shelves).toEqual([]);
+    expect(find(state, 'p1').shelfIds).toEqual([]);
+  });
+
+  it('adds and deletes collections along with nested ones', () => {
+    const added: Collection = { id: 'col-3', name: 'Segmentation', parentId: 'col-1' };
+    expect(run(library(), { type: 'addCollection', collection: added }).collections).toHaveLength(3);
+
+    const state = run(library(), { type: 'deleteCollection', collectionId: 'col-1' });
+    expect(state.collections).toEqual([]);
+    expect(find(state, 'p1').collectionIds).toEqual([]);
+  });
+
+  it('ignores deleting a shelf or collection that is already gone', () => {
+    const state = library();
+    expect(run(state, { type: 'deleteShelf', shelfId: 'missing' })).toBe(state);
+    expect(run(state, { type: 'deleteCollection', collectionId: 'missing' })).toBe(state);
+  });
+
+  it('adds, edits and deletes notes, keeping earlier versions', () => {
+    const added = run(library(), { type: 'addNote', paperId: 'p1', note: note('n2', 'Second') });
+    expect(find(added, 'p1').notes.map(candidate => candidate.id)).toEqual(['n1', 'n2']);
+
+    const edited = run(added, {
+      type: 'updateNote',
+      paperId: 'p1',
+      noteId: 'n1',
+      changes: { text: 'Revised', annotationId: null },
+      updatedAt: '2024-02-01T00:00:00Z'
+    });
+    const revised = find(edited, 'p1').notes[0];
+    expect(revised.text).toBe('Revised');
+    expect(revised.history).toEqual([{ text: 'First thoughts', timestamp: '2024-01-01T00:00:00Z' }]);
+
+    const deleted = run(edited, { type: 'deleteNote', paperId: 'p1', noteId: 'n2' });
+    expect(find(deleted, 'p1').notes.map(candidate => candidate.id)).toEqual(['n1']);
+  });
+
+  it('adds highlights', () => {
+    const state = run(library(), { type: 'addAnnotation', paperId: 'p2', annotation: annotation('a1') });
+    expect(find(state, 'p2').annotations).toEqual([annotation('a1')]);
+  });
+
+  it('adds comments and lets only their author edit them', () => {
+    const added = run(library(), { type: 'addComment', paperId: 'p2', comment: comment('c3', 'alice') });
+    expect(find(added, 'p2').comments).toHaveLength(1);
+
+    const update = (userId: string): LibraryAction => ({
+      type: 'updateComment',
+      paperId: 'p1',
+      commentId: 'c1',
+      userId,
+      changes: { text: 'Edited', mentionedUserIds: [] },
+      editedAt: '2024-02-01T00:00:00Z'
+    });
+    expect(run(library(), update('bob')).past).toEqual([]);
+    const edited = run(library(), update('alice'));
+    expect(find(edited, 'p1').comments[0]).toMatchObject({ text: 'Edited', editedAt: '2024-02-01T00:00:00Z' });
+  });
+
+  it('keeps a deleted comment with replies as a placeholder', () => {
+    const state = run(library(), {
+      type: 'deleteComment',
+      paperId: 'p1',
+      commentId: 'c1',
+      userId: 'alice',
+      deletedAt: '2024-02-01T00:00:00Z'
+    });
+    expect(find(state, 'p1').comments[0]).toMatchObject({ id: 'c1', text: '', deletedAt: '2024-02-01T00:00:00Z' });
+
+    const reply = run(library(), {
+      type: 'deleteComment',
+      paperId: 'p1',
+      commentId: 'c2',
+      userId: 'bob',
+      deletedAt: '2024-02-01T00:00:00Z'
+    });
+    expect(find(reply, 'p1').comments.map(candidate => candidate.id)).toEqual(['c1']);
+  });
+
+  it('resolves and reopens threads', () => {
+    const resolved = run(library(), {
+      type: 'resolveComment',
+      paperId: 'p1',
+      commentId: 'c1',
+      resolvedAt: '2024-02-01T00:00:00Z',
+      resolvedBy: 'Bob'
+    });
+    expect(find(resolved, 'p1').comments[0]).toMatchObject({ resolvedAt: '2024-02-01T00:00:00Z', resolvedBy: 'Bob' });
+
+    const reopened = run(resolved, {
+      type: 'resolveComment',
+      paperId: 'p1',
+      commentId: 'c1',
+      resolvedAt: null,
+      resolvedBy: null
+    });
+    expect(find(reopened, 'p1').comments[0].resolvedAt).toBeNull();
+  });
+
+  it('allows one review per user and lets only its author edit or delete it', () => {
+    const state = library();
+    expect(run(state, { type: 'addReview', paperId: 'p1', review: review('r2', 'alice') })).toBe(state);
+    const added = run(state, { type: 'addReview', paperId: 'p1', review: review('r2', 'bob') });
+    expect(find(added, 'p1').reviews).toHaveLength(2);
+
+    const edited = run(state, {
+      type: 'updateReview',
+      paperId: 'p1',
+      reviewId: 'r1',
+      userId: 'alice',
+      changes: { text: 'Better', rating: 5 },
+      editedAt: '2024-02-01T00:00:00Z'
+    });
+    expect(find(edited, 'p1').reviews[0]).toMatchObject({ text: 'Better', rating: 5 });
+
+    expect(run(state, { type: 'deleteReview', paperId: 'p1', reviewId: 'r1', userId: 'bob' })).toBe(state);
+    expect(find(run(state, { type: 'deleteReview', paperId: 'p1', reviewId: 'r1', userId: 'alice' }), 'p1').reviews)
+      .toEqual([]);
+  });
+
+  it('toggles helpful votes, except on your own review', () => {
+    const voted = run(library(), { type: 'toggleHelpful', paperId: 'p1', reviewId: 'r1', userId: 'bob' });
+    expect(find(voted, 'p1').reviews[0].helpfulVoterIds).toEqual(['bob']);
+    expect(find(run(voted, { type: 'toggleHelpful', paperId: 'p1', reviewId: 'r1', userId: 'bob' }), 'p1')
+      .reviews[0].helpfulVoterIds).toEqual([]);
+    expect(run(voted, { type: 'toggleHelpful', paperId: 'p1', reviewId: 'r1', userId: 'alice' })).toBe(voted);
+  });
+});
+
+describe('undo and redo', () => {
+  const actions: LibraryAction[] = [
+    { type: 'addPaper', paper: paper('p3', { notDuplicateOf: ['p1'] }) },
+    {
+      type: 'importPapers',
+      papers: [paper('p0'), ...library().papers],
+      shelf: { id: 'shelf-2', name: 'Shared list', availableOffline: false }
+    },
+    { type: 'mergePapers', merged: { ...library().papers[0], tags: ['merged'] }, removedId: 'p2' },
+    { type: 'markNotDuplicates', firstId: 'p1', secondId: 'p2' },
+    { type: 'rate', paperId: 'p1', rating: 3 },
+    { type: 'setReadingStatus', paperId: 'p1', status: 'read' },
+    { type: 'organize', paperId: 'p2', changes: { collectionIds: ['col-2'], tags: ['later'] } },
+    { type: 'setAvailableOffline', paperIds: ['p1', 'p2'], shelfIds: ['shelf-1'], availableOffline: true },
+    { type: 'addShelf', shelf: { id: 'shelf-2', name: 'Later', availableOffline: false } },
+    { type: 'deleteShelf', shelfId: 'shelf-1' },
+    { type: 'addCollection', collection: { id: 'col-3', name: 'Other', parentId: null } },
+    { type: 'deleteCollection', collectionId: 'col-1' },
+    { type: 'addNote', paperId: 'p2', note: note('n2', 'New') },
+    {
+      type: 'updateNote',
+      paperId: 'p1',
+      noteId: 'n1',
+      changes: { text: 'Changed', annotationId: null },
+      updatedAt: '2024-02-01T00:00:00Z'
+    },
+    { type: 'deleteNote', paperId: 'p1', noteId: 'n1' },
+    { type: 'addAnnotation', paperId: 'p1', annotation: annotation('a1') },
+    { type: 'addComment', paperId: 'p1', comment: comment('c3', 'carol') },
+    {
+      type: 'updateComment',
+      paperId: 'p1',
+      commentId: 'c1',
+      userId: 'alice',
+      changes: { text: 'Changed', mentionedUserIds: ['bob'] },
+      editedAt: '2024-02-01T00:00:00Z'
+    },
+    { type: 'deleteComment', paperId: 'p1', commentId: 'c1', userId: 'alice', deletedAt: '2024-02-01T00:00:00Z' },
+    { type: 'resolveComment', paperId: 'p1', commentId: 'c1', resolvedAt: '2024-02-01T00:00:00Z', resolvedBy: 'Bob' },
+    { type: 'addReview', paperId: 'p2', review: review('r2', 'bob') },
+    {
+      type: 'updateReview',
+      paperId: 'p1',
+      reviewId: 'r1',
+      userId: 'alice',
+      changes: { text: 'Changed', rating: 2 },
+      editedAt: '2024-02-01T00:00:00Z'
+    },
+    { type: 'deleteReview', paperId: 'p1', reviewId: 'r1', userId: 'alice' },
+    { type: 'toggleHelpful', paperId: 'p1', reviewId: 'r1', userId: 'bob' }
+  ];
+
+  it.each(actions.map(action => [action.type, action] as const))('round-trips %s', (_type, action) => {
+    const before = library();
+    const after = run(before, action);
+    expect(after.past).toHaveLength(1);
+
+    const undone = run(after, { type: 'undo' });
+    expect(sortById(undone.papers)).toEqual(sortById(before.papers));
+    expect(undone.shelves).toEqual(before.shelves);
+    expect(undone.collections).toEqual(before.collections);
+    expect(undone.past).toEqual([]);
+    expect(undone.future).toHaveLength(1);
+
+    const redone = run(undone, { type: 'redo' });
+    expect(sortById(redone.papers)).toEqual(sortById(after.papers));
+    expect(redone.shelves).toEqual(after.shelves);
+    expect(redone.collections).toEqual(after.collections);
+    expect(redone.future).toEqual([]);
+  });
+
+  it('labels entries after the action they revert', () => {
+    const state = run(
+      library(),
+      { type: 'rate', paperId: 'p1', rating: 5 },
+      { type: 'deleteShelf', shelfId: 'shelf-1' }
+    );
+    expect(state.past.map(entry => entry.label)).toEqual(['rating', 'shelf deletion']);
+  });
+
+  it('undoes several actions in reverse order and redoes them in order', () => {
+    const start = library();
+    const rated = run(start, { type: 'rate', paperId: 'p1', rating: 5 });
+    const both = run(rated, { type: 'setReadingStatus', paperId: 'p1', status: 'want' });
+
+    const once = run(both, { type: 'undo' });
+    expect(find(once, 'p1')).toMatchObject({ userRating: 5, readingStatus: null });
+    const twice = run(once, { type: 'undo' });
+    expect(twice.papers).toEqual(start.papers);
+
+    expect(run(twice, { type: 'redo' }, { type: 'redo' }).papers).toEqual(both.papers);
+  });
+
+  it('does nothing with an empty history', () => {
+    const state = library();
+    expect(run(state, { type: 'undo' })).toBe(state);
+    expect(run(state, { type: 'redo' })).toBe(state);
+  });
+
+  it('clears the redo stack when a new action is recorded', () => {
+    const undone = run(library(), { type: 'rate', paperId: 'p1', rating: 5 }, { type: 'undo' });
+    expect(undone.future).toHaveLength(1);
+
+    const state = run(undone, { type: 'rate', paperId: 'p2', rating: 2 });
+    expect(state.future).toEqual([]);
+    expect(run(state, { type: 'redo' })).toBe(state);
+  });
+
+  it('keeps the redo stack across background updates', () => {
+    const state = run(
+      library(),
+      { type: 'rate', paperId: 'p1', rating: 5 },
+      { type: 'undo' },
+      { type: 'background', update: current => ({ ...current, currentPage: 3 }) }
+    );
+    expect(state.future).toHaveLength(1);
+    expect(find(run(state, { type: 'redo' }), 'p1').userRating).toBe(5);
+  });
+
+  it('leaves fields the app has updated since the action alone', () => {
+    const rated = run(library(), { type: 'rate', paperId: 'p1', rating: 5 });
+    const moved = run(rated, {
+      type: 'background',
+      update: current => (
+        current.id === 'p1'
+          ? { ...current, currentPage: 12, totalPages: 20, pdfUrl: 'https://arxiv.org/pdf/p1v2' }
+          : current
+      )
+    });
+
+    const undone = run(moved, { type: 'undo' });
+    expect(find(undone, 'p1')).toMatchObject({
+      userRating: null,
+      currentPage: 12,
+      totalPages: 20,
+      pdfUrl: 'https://arxiv.org/pdf/p1v2'
+    });
+    expect(find(run(undone, { type: 'redo' }), 'p1')).toMatchObject({ userRating: 5, currentPage: 12 });
+  });
+
+  it('does not overwrite a field the app changed after the action', () => {
+    const merged = run(library(), {
+      type: 'mergePapers',
+      merged: { ...find(library(), 'p1'), doi: '10.1/merged' },
+      removedId: null
+    });
+    const enriched = run(merged, {
+      type: 'background',
+      update: current => (current.id === 'p1' ? { ...current, doi: '10.1/enriched' } : current)
+    });
+    expect(find(run(enriched, { type: 'undo' }), 'p1').doi).toBe('10.1/enriched');
+  });
+
+  it('brings back a removed paper with updates made before it was removed', () => {
+    const added = run(library(), { type: 'addPaper', paper: paper('p3') });
+    const enriched = run(added, {
+      type: 'background',
+      update: current => (current.id === 'p3' ? { ...current, citations: 42 } : current)
+    });
+
+    const undone = run(enriched, { type: 'undo' });
+    expect(undone.papers.map(candidate => candidate.id)).toEqual(['p1', 'p2']);
+    expect(find(run(undone, { type: 'redo' }), 'p3').citations).toBe(42);
+  });
+
+  it('restores a deleted shelf together with the papers that were on it', () => {
+    const deleted = run(library(), { type: 'deleteShelf', shelfId: 'shelf-1' });
+    const undone = run(deleted, { type: 'undo' });
+    expect(undone.shelves).toEqual([shelf]);
+    expect(find(undone, 'p1').shelfIds).toEqual(['shelf-1']);
+  });
+
+  it('restores a deleted collection tree together with its papers', () => {
+    const undone = run(library(), { type: 'deleteCollection', collectionId: 'col-1' }, { type: 'undo' });
+    expect(undone.collections).toEqual([parentCollection, childCollection]);
+    expect(find(undone, 'p1').collectionIds).toEqual(['col-1', 'col-2']);
+  });
+
+  it('keeps at most 100 entries', () => {
+    const ratings: LibraryAction[] = Array.from({ length: 120 }, (_, index) => ({
+      type: 'rate',
+      paperId: 'p1',
+      rating: (index % 5) + 1
+    }));
+    expect(run(library(), ...ratings).past).toHaveLength(100);
+  });
+});
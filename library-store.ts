@@ -0,0 +1,504 @@
+import { collectionSubtreeIds } from './organization';
+import type { Annotation, Collection, Comment, Note, Paper, Review, Shelf } from './types';
+
+// Enough to walk back through a session without keeping every old copy of
+// the library around.
+const MAX_HISTORY = 100;
+
+// Edited papers record only the fields the action changed, so undoing it
+// leaves fields the app has updated since (page, sections, PDF) alone.
+type PaperChange =
+  | { type: 'added'; paper: Paper }
+  | { type: 'removed'; paper: Paper }
+  | { type: 'updated'; paperId: string; before: Partial<Paper>; after: Partial<Paper> };
+
+// Shelves and collections only change through recorded actions, so whole
+// lists can be swapped back.
+interface ListChange<T> {
+  before: T[];
+  after: T[];
+}
+
+export interface HistoryEntry {
+  label: string;
+  changes: PaperChange[];
+  shelves: ListChange<Shelf> | null;
+  collections: ListChange<Collection> | null;
+}
+
+interface LibraryContents {
+  papers: Paper[];
+  shelves: Shelf[];
+  collections: Collection[];
+}
+
+export interface LibraryState extends LibraryContents {
+  selectedPaperId: string | null;
+  // Most recent last.
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export type LibraryAction =
+  | { type: 'load'; papers: Paper[]; shelves: Shelf[]; collections: Collection[] }
+  | { type: 'select'; paperId: string | null }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  // Changes the app makes on its own (metadata lookups, version checks, text
+  // extracted from PDFs, page turns). They are not recorded for undo.
+  | { type: 'background'; update: (paper: Paper) => Paper }
+  // Papers listed in the new paper's `notDuplicateOf` are linked back to it.
+  | { type: 'addPaper'; paper: Paper }
+  // `shelf` is created for the imported papers, if given.
+  | { type: 'importPapers'; papers: Paper[]; shelf: Shelf | null }
+  | { type: 'mergePapers'; merged: Paper; removedId: string | null }
+  | { type: 'markNotDuplicates'; firstId: string; secondId: string }
+  | { type: 'rate'; paperId: string; rating: number }
+  | { type: 'setReadingStatus'; paperId: string; status: Paper['readingStatus'] }
+  | { type: 'organize'; paperId: string; changes: Partial<Pick<Paper, 'shelfIds' | 'collectionIds' | 'tags'>> }
+  | { type: 'setAvailableOffline'; paperIds: string[]; shelfIds: string[]; availableOffline: boolean }
+  | { type: 'addShelf'; shelf: Shelf }
+  | { type: 'deleteShelf'; shelfId: string }
+  | { type: 'addCollection'; collection: Collection }
+  // Nested collections go with it.
+  | { type: 'deleteCollection'; collectionId: string }
+  | { type: 'addNote'; paperId: string; note: Note }
+  | {
+    type: 'updateNote';
+    paperId: string;
+    noteId: string;
+    changes: Pick<Note, 'text' | 'annotationId'>;
+    updatedAt: string;
+  }
+  | { type: 'deleteNote'; paperId: string; noteId: string }
+  | { type: 'addAnnotation'; paperId: string; annotation: Annotation }
+  | { type: 'addComment'; paperId: string; comment: Comment }
+  | {
+    type: 'updateComment';
+    paperId: string;
+    commentId: string;
+    userId: string;
+    changes: Pick<Comment, 'text' | 'mentionedUserIds'>;
+    editedAt: string;
+  }
+  | { type: 'deleteComment'; paperId: string; commentId: string; userId: string; deletedAt: string }
+  | { type: 'resolveComment'; paperId: string; commentId: string; resolvedAt: string | null; resolvedBy: string | null }
+  | { type: 'addReview'; paperId: string; review: Review }
+  | {
+    type: 'updateReview';
+    paperId: string;
+    reviewId: string;
+    userId: string;
+    changes: Pick<Review, 'text' | 'rating'>;
+    editedAt: string;
+  }
+  | { type: 'deleteReview'; paperId: string; reviewId: string; userId: string }
+  | { type: 'toggleHelpful'; paperId: string; reviewId: string; userId: string };
+
+type UndoableAction = Exclude<LibraryAction, { type: 'load' | 'select' | 'undo' | 'redo' | 'background' }>;
+type PaperAction = Exclude<
+  UndoableAction,
+  { type: 'importPapers' | 'setAvailableOffline' | 'addShelf' | 'deleteShelf' | 'addCollection' | 'deleteCollection' }
+>;
+
+const ACTION_LABELS: Record<UndoableAction['type'], string> = {
+  addPaper: 'add paper',
+  importPapers: 'import',
+  mergePapers: 'merge',
+  markNotDuplicates: 'not duplicates',
+  rate: 'rating',
+  setReadingStatus: 'reading status',
+  organize: 'shelf change',
+  setAvailableOffline: 'offline setting',
+  addShelf: 'new shelf',
+  deleteShelf: 'shelf deletion',
+  addCollection: 'new collection',
+  deleteCollection: 'collection deletion',
+  addNote: 'new note',
+  updateNote: 'note edit',
+  deleteNote: 'note deletion',
+  addAnnotation: 'highlight',
+  addComment: 'comment',
+  updateComment: 'comment edit',
+  deleteComment: 'comment deletion',
+  resolveComment: 'resolve',
+  addReview: 'review',
+  updateReview: 'review edit',
+  deleteReview: 'review deletion',
+  toggleHelpful: 'helpful vote'
+};
+
+export const initialLibraryState: LibraryState = {
+  papers: [],
+  shelves: [],
+  collections: [],
+  selectedPaperId: null,
+  past: [],
+  future: []
+};
+
+function updatePaper(papers: Paper[], paperId: string, update: (paper: Paper) => Paper): Paper[] {
+  return papers.map(paper => (paper.id === paperId ? update(paper) : paper));
+}
+
+function toggleHelpfulVote(review: Review, userId: string): Review {
+  const helpfulVoterIds = review.helpfulVoterIds.includes(userId)
+    ? review.helpfulVoterIds.filter(id => id !== userId)
+    : [...review.helpfulVoterIds, userId];
+  return { ...review, helpfulVoterIds };
+}
+
+function editNote(note: Note, changes: Pick<Note, 'text' | 'annotationId'>, updatedAt: string): Note {
+  if (note.text === changes.text) return { ...note, annotationId: changes.annotationId };
+  return {
+    ...note,
+    ...changes,
+    updatedAt,
+    history: [...note.history, { text: note.text, timestamp: note.updatedAt ?? note.timestamp }]
+  };
+}
+
+// Replies from others stay readable under a placeholder.
+function deleteComment(comments: Comment[], commentId: string, userId: string, deletedAt: string): Comment[] {
+  const comment = comments.find(candidate => candidate.id === commentId);
+  if (!comment || comment.authorId !== userId) return comments;
+
+  return comments.some(candidate => candidate.parentId === commentId)
+    ? comments.map(candidate =>
+      candidate.id === commentId ? { ...candidate, text: '', mentionedUserIds: [], deletedAt } : candidate
+    )
+    : comments.filter(candidate => candidate.id !== commentId);
+}
+
+function linkNotDuplicate(paper: Paper, otherId: string): Paper {
+  return paper.notDuplicateOf.includes(otherId)
+    ? paper
+    : { ...paper, notDuplicateOf: [...paper.notDuplicateOf, otherId] };
+}
+
+function applyAction(contents: LibraryContents, action: UndoableAction): LibraryContents {
+  const { papers, shelves, collections } = contents;
+  switch (action.type) {
+    case 'importPapers':
+      return {
+        ...contents,
+        papers: action.papers,
+        shelves: action.shelf ? [...shelves, action.shelf] : shelves
+      };
+    case 'setAvailableOffline': {
+      const changesShelves = shelves.some(shelf =>
+        action.shelfIds.includes(shelf.id) && shelf.availableOffline !== action.availableOffline
+      );
+      return {
+        ...contents,
+        papers: papers.map(paper =>
+          action.paperIds.includes(paper.id) && paper.availableOffline !== action.availableOffline
+            ? { ...paper, availableOffline: action.availableOffline }
+            : paper
+        ),
+        shelves: changesShelves
+          ? shelves.map(shelf =>
+            action.shelfIds.includes(shelf.id) ? { ...shelf, availableOffline: action.availableOffline } : shelf
+          )
+          : shelves
+      };
+    }
+    case 'addShelf':
+      return { ...contents, shelves: [...shelves, action.shelf] };
+    case 'deleteShelf':
+      if (!shelves.some(shelf => shelf.id === action.shelfId)) return contents;
+      return {
+        ...contents,
+        papers: papers.map(paper =>
+          paper.shelfIds.includes(action.shelfId)
+            ? { ...paper, shelfIds: paper.shelfIds.filter(id => id !== action.shelfId) }
+            : paper
+        ),
+        shelves: shelves.filter(shelf => shelf.id !== action.shelfId)
+      };
+    case 'addCollection':
+      return { ...contents, collections: [...collections, action.collection] };
+    case 'deleteCollection': {
+      if (!collections.some(collection => collection.id === action.collectionId)) return contents;
+      const removed = collectionSubtreeIds(collections, action.collectionId);
+      return {
+        ...contents,
+        papers: papers.map(paper =>
+          paper.collectionIds.some(id => removed.has(id))
+            ? { ...paper, collectionIds: paper.collectionIds.filter(id => !removed.has(id)) }
+            : paper
+        ),
+        collections: collections.filter(collection => !removed.has(collection.id))
+      };
+    }
+    default:
+      return { ...contents, papers: applyPaperAction(papers, action) };
+  }
+}
+
+function applyPaperAction(papers: Paper[], action: PaperAction): Paper[] {
+  switch (action.type) {
+    case 'addPaper': {
+      const { paper } = action;
+      return [
+        ...papers.map(existing =>
+          paper.notDuplicateOf.includes(existing.id) ? linkNotDuplicate(existing, paper.id) : existing
+        ),
+        paper
+      ];
+    }
+    case 'mergePapers':
+      return papers
+        .filter(paper => paper.id !== action.removedId)
+        .map(paper => (paper.id === action.merged.id ? action.merged : paper));
+    case 'markNotDuplicates':
+      return papers.map(paper => {
+        if (paper.id === action.firstId) return linkNotDuplicate(paper, action.secondId);
+        if (paper.id === action.secondId) return linkNotDuplicate(paper, action.firstId);
+        return paper;
+      });
+    case 'rate':
+      return updatePaper(papers, action.paperId, paper =>
+        paper.userRating === action.rating ? paper : { ...paper, userRating: action.rating }
+      );
+    case 'setReadingStatus':
+      return updatePaper(papers, action.paperId, paper =>
+        paper.readingStatus === action.status ? paper : { ...paper, readingStatus: action.status }
+      );
+    case 'organize':
+      return updatePaper(papers, action.paperId, paper => ({ ...paper, ...action.changes }));
+    case 'addNote':
+      return updatePaper(papers, action.paperId, paper => ({ ...paper, notes: [...paper.notes, action.note] }));
+    case 'updateNote':
+      return updatePaper(papers, action.paperId, paper => ({
+        ...paper,
+        notes: paper.notes.map(note =>
+          note.id === action.noteId ? editNote(note, action.changes, action.updatedAt) : note
+        )
+      }));
+    case 'deleteNote':
+      return updatePaper(papers, action.paperId, paper => ({
+        ...paper,
+        notes: paper.notes.filter(note => note.id !== action.noteId)
+      }));
+    case 'addAnnotation':
+      return updatePaper(papers, action.paperId, paper => ({
+        ...paper,
+        annotations: [...paper.annotations, action.annotation]
+      }));
+    case 'addComment':
+      return updatePaper(papers, action.paperId, paper => ({
+        ...paper,
+        comments: [...paper.comments, action.comment]
+      }));
+    case 'updateComment':
+      return updatePaper(papers, action.paperId, paper => ({
+        ...paper,
+        comments: paper.comments.map(comment =>
+          comment.id === action.commentId && comment.authorId === action.userId && comment.text !== action.changes.text
+            ? { ...comment, ...action.changes, editedAt: action.editedAt }
+            : comment
+        )
+      }));
+    case 'deleteComment':
+      return updatePaper(papers, action.paperId, paper => ({
+        ...paper,
+        comments: deleteComment(paper.comments, action.commentId, action.userId, action.deletedAt)
+      }));
+    case 'resolveComment':
+      return updatePaper(papers, action.paperId, paper => ({
+        ...paper,
+        comments: paper.comments.map(comment =>
+          comment.id === action.commentId
+            ? { ...comment, resolvedAt: action.resolvedAt, resolvedBy: action.resolvedBy }
+            : comment
+        )
+      }));
+    case 'addReview':
+      // Each user gets one review per paper; later changes go through editing.
+      return updatePaper(papers, action.paperId, paper =>
+        paper.reviews.some(existing => existing.authorId === action.review.authorId)
+          ? paper
+          : { ...paper, reviews: [...paper.reviews, action.review] }
+      );
+    case 'updateReview':
+      return updatePaper(papers, action.paperId, paper => ({
+        ...paper,
+        reviews: paper.reviews.map(review =>
+          review.id === action.reviewId && review.authorId === action.userId
+            ? { ...review, ...action.changes, editedAt: action.editedAt }
+            : review
+        )
+      }));
+    case 'deleteReview':
+      return updatePaper(papers, action.paperId, paper => ({
+        ...paper,
+        reviews: paper.reviews.filter(review => review.id !== action.reviewId || review.authorId !== action.userId)
+      }));
+    case 'toggleHelpful':
+      // Authors can't vote on their own reviews.
+      return updatePaper(papers, action.paperId, paper =>
+        paper.reviews.some(review => review.id === action.reviewId && review.authorId !== action.userId)
+          ? {
+            ...paper,
+            reviews: paper.reviews.map(review =>
+              review.id === action.reviewId ? toggleHelpfulVote(review, action.userId) : review
+            )
+          }
+          : paper
+      );
+  }
+}
+
+function pickFields(paper: Partial<Paper>, keys: (keyof Paper)[]): Partial<Paper> {
+  return Object.fromEntries(keys.map(key => [key, paper[key]]));
+}
+
+// Items are replaced rather than mutated, so a list an action mapped or
+// filtered without touching anything holds the same items.
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => item === b[index]);
+}
+
+// Papers are replaced rather than mutated, so an unchanged paper keeps its
+// identity and only the fields an action touched end up in the entry.
+function diffPapers(before: Paper[], after: Paper[]): PaperChange[] {
+  const beforeById = new Map(before.map(paper => [paper.id, paper]));
+  const afterIds = new Set(after.map(paper => paper.id));
+  const changes: PaperChange[] = [];
+  after.forEach(paper => {
+    const previous = beforeById.get(paper.id);
+    if (!previous) {
+      changes.push({ type: 'added', paper });
+      return;
+    }
+    if (previous === paper) return;
+    const keys = (Object.keys(paper) as (keyof Paper)[]).filter(key => !sameValue(previous[key], paper[key]));
+    if (keys.length > 0) {
+      changes.push({
+        type: 'updated',
+        paperId: paper.id,
+        before: pickFields(previous, keys),
+        after: pickFields(paper, keys)
+      });
+    }
+  });
+  before.forEach(paper => {
+    if (!afterIds.has(paper.id)) changes.push({ type: 'removed', paper });
+  });
+  return changes;
+}
+
+function diffList<T>(before: T[], after: T[]): ListChange<T> | null {
+  return before === after ? null : { before, after };
+}
+
+// Sets each field to `to` unless something has changed it since it was `from`.
+function patchFields(paper: Paper, from: Partial<Paper>, to: Partial<Paper>): Paper {
+  const keys = (Object.keys(to) as (keyof Paper)[]).filter(key => sameValue(paper[key], from[key]));
+  return keys.length === 0 ? paper : { ...paper, ...pickFields(to, keys) };
+}
+
+// Walks an entry back (undo) or forward (redo). Papers it takes out of the
+// library are captured as they are now, so updates the app made to them in
+// the meantime come back with them.
+function replay(
+  papers: Paper[],
+  changes: PaperChange[],
+  direction: 'undo' | 'redo'
+): { papers: Paper[]; changes: PaperChange[] } {
+  const undoing = direction === 'undo';
+  const currentById = new Map(papers.map(paper => [paper.id, paper]));
+  const removedIds = new Set<string>();
+  const returning: Paper[] = [];
+  const patches = new Map<string, Extract<PaperChange, { type: 'updated' }>>();
+
+  const captured = changes.map((change): PaperChange => {
+    if (change.type === 'updated') {
+      patches.set(change.paperId, change);
+      return change;
+    }
+    if ((change.type === 'added') === undoing) {
+      removedIds.add(change.paper.id);
+      return { ...change, paper: currentById.get(change.paper.id) ?? change.paper };
+    }
+    if (!currentById.has(change.paper.id)) returning.push(change.paper);
+    return change;
+  });
+
+  const patched = papers
+    .filter(paper => !removedIds.has(paper.id))
+    .map(paper => {
+      const patch = patches.get(paper.id);
+      if (!patch) return paper;
+      return undoing
+        ? patchFields(paper, patch.after, patch.before)
+        : patchFields(paper, patch.before, patch.after);
+    });
+  return { papers: [...patched, ...returning], changes: captured };
+}
+
+export function libraryReducer(state: LibraryState, action: LibraryAction): LibraryState {
+  switch (action.type) {
+    case 'load':
+      return {
+        ...initialLibraryState,
+        papers: action.papers,
+        shelves: action.shelves,
+        collections: action.collections
+      };
+    case 'select':
+      return { ...state, selectedPaperId: action.paperId };
+    case 'background': {
+      const papers = state.papers.map(action.update);
+      return papers.every((paper, index) => paper === state.papers[index]) ? state : { ...state, papers };
+    }
+    case 'undo': {
+      const entry = state.past[state.past.length - 1];
+      if (!entry) return state;
+      const { papers, changes } = replay(state.papers, entry.changes, 'undo');
+      return {
+        ...state,
+        papers,
+        shelves: entry.shelves ? entry.shelves.before : state.shelves,
+        collections: entry.collections ? entry.collections.before : state.collections,
+        past: state.past.slice(0, -1),
+        future: [...state.future, { ...entry, changes }]
+      };
+    }
+    case 'redo': {
+      const entry = state.future[state.future.length - 1];
+      if (!entry) return state;
+      const { papers, changes } = replay(state.papers, entry.changes, 'redo');
+      return {
+        ...state,
+        papers,
+        shelves: entry.shelves ? entry.shelves.after : state.shelves,
+        collections: entry.collections ? entry.collections.after : state.collections,
+        past: [...state.past, { ...entry, changes }],
+        future: state.future.slice(0, -1)
+      };
+    }
+    default: {
+      const contents = applyAction(state, action);
+      const entry: HistoryEntry = {
+        label: ACTION_LABELS[action.type],
+        changes: diffPapers(state.papers, contents.papers),
+        shelves: diffList(state.shelves, contents.shelves),
+        collections: diffList(state.collections, contents.collections)
+      };
+      if (entry.changes.length === 0 && !entry.shelves && !entry.collections) return state;
+      return {
+        ...state,
+        ...contents,
+        past: [...state.past, entry].slice(-MAX_HISTORY),
+        future: []
+      };
+    }
+  }
+}
+
+export function selectedPaper(state: LibraryState): Paper | null {
+  return state.papers.find(paper => paper.id === state.selectedPaperId) ?? null;
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import rehypeKatex from 'rehype-katex';
+import remarkMath from 'remark-math';
+import 'katex/dist/katex.min.css';
+import type { Annotation, Note } from './types';
+
+export type NoteDraft = Pick<Note, 'text' | 'pageNumber' | 'annotationId'>;
+
+interface NotesPanelProps {
+  notes: Note[];
+  annotations: Annotation[];
+  currentPage: number;
+  onAdd: (note: NoteDraft) => void;
+  onUpdate: (noteId: string, changes: Pick<Note, 'text' | 'annotationId'>) => void;
+  onDelete: (noteId: string) => void;
+  onGoToPage: (page: number) => void;
+  onGoToAnnotation: (annotation: Annotation) => void;
+}
+
+interface NoteEditorProps {
+  initialText: string;
+  initialAnnotationId: string | null;
+  annotations: Annotation[];
+  submitLabel: string;
+  onSubmit: (text: string, annotationId: string | null) => void;
+  onCancel: () => void;
+}
+
+export function MarkdownNote({ text }: { text: string }): JSX.Element {
+  return (
+    <div className="text-sm break-words space-y-1 [&_ul]:list-disc [&_ul]:pl-4 [&_ol]:list-decimal [&_ol]:pl-4 [&_a]:underline [&_code]:font-mono [&_code]:bg-yellow-100 [&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-semibold">
+      <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+        {text}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+function NoteEditor({
+  initialText,
+  initialAnnotationId,
+  annotations,
+  submitLabel,
+  onSubmit,
+  onCancel
+}: NoteEditorProps): JSX.Element {
+  const [text, setText] = useState<string>(initialText);
+  const [annotationId, setAnnotationId] = useState<string | null>(initialAnnotationId);
+  const [showPreview, setShowPreview] = useState<boolean>(false);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 text-xs">
+        <button
+          onClick={() => setShowPreview(false)}
+          className={showPreview ? 'text-gray-500' : 'font-semibold text-[#1B3A33]'}
+        >
+          Write
+        </button>
+        <button
+          onClick={() => setShowPreview(true)}
+          className={showPreview ? 'font-semibold text-[#1B3A33]' : 'text-gray-500'}
+        >
+          Preview
+        </button>
+      </div>
+      {showPreview ? (
+        <div className="min-h-[6rem] p-2 border border-gray-200 rounded bg-white">
+          {text.trim() ? <MarkdownNote text={text} /> : <p className="text-sm text-gray-400">Nothing to preview</p>}
+        </div>
+      ) : (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Markdown and $LaTeX$ supported..."
+          className="w-full p-2 border border-gray-300 rounded resize-y font-mono text-sm focus:ring-2 focus:ring-[#1B3A33] focus:border-[#1B3A33]"
+          rows={5}
+          autoFocus
+        />
+      )}
+      {annotations.length > 0 && (
+        <select
+          value={annotationId ?? ''}
+          onChange={(e) => setAnnotationId(e.target.value || null)}
+          className="w-full p-2 text-sm border border-gray-300 rounded bg-white"
+          aria-label="Link to highlight"
+        >
+          <option value="">Not linked to a highlight</option>
+          {annotations.map(annotation => (
+            <option key={annotation.id} value={annotation.id}>
+              p. {annotation.pageNumber}: {truncate(annotation.text, 40)}
+            </option>
+          ))}
+        </select>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSubmit(text, annotationId)}
+          disabled={!text.trim()}
+          className="flex-1 px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28] disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function NotesPanel({
+  notes,
+  annotations,
+  currentPage,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onGoToPage,
+  onGoToAnnotation
+}: NotesPanelProps): JSX.Element {
+  const [isAdding, setIsAdding] = useState<boolean>(false);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
+
+  return (
+    <div>
+      <div className="space-y-4">
+        {notes.map((note) => {
+          const annotation = annotations.find(candidate => candidate.id === note.annotationId);
+
+          if (editingNoteId === note.id) {
+            return (
+              <div key={note.id} className="bg-yellow-50 p-3 rounded">
+                <NoteEditor
+                  initialText={note.text}
+                  initialAnnotationId={note.annotationId}
+                  annotations={annotations}
+                  submitLabel="Save"
+                  onSubmit={(text, annotationId) => {
+                    onUpdate(note.id, { text, annotationId });
+                    setEditingNoteId(null);
+                  }}
+                  onCancel={() => setEditingNoteId(null)}
+                />
+              </div>
+            );
+          }
+
+          return (
+            <div key={note.id} className="bg-yellow-50 p-3 rounded">
+              <MarkdownNote text={note.text} />
+              {annotation && (
+                <button
+                  onClick={() => onGoToAnnotation(annotation)}
+                  className="mt-2 block w-full text-left text-xs italic text-gray-600 border-l-4 pl-2 hover:text-gray-900"
+                  style={{ borderColor: annotation.color }}
+                >
+                  {truncate(annotation.text, 80)}
+                </button>
+              )}
+              <div className="flex items-center gap-2 text-xs text-gray-500 mt-2">
+                <button
+                  onClick={() => onGoToPage(note.pageNumber)}
+                  className="text-[#1B3A33] hover:underline"
+                >
+                  Page {note.pageNumber}
+                </button>
+                <span>• {new Date(note.timestamp).toLocaleDateString()}</span>
+                {note.updatedAt && (
+                  <button
+                    onClick={() => setHistoryNoteId(prev => (prev === note.id ? null : note.id))}
+                    className="hover:underline"
+                    title={`Edited ${new Date(note.updatedAt).toLocaleString()}`}
+                  >
+                    (edited)
+                  </button>
+                )}
+                <span className="ml-auto flex gap-2">
+                  <button onClick={() => setEditingNoteId(note.id)} className="hover:text-gray-900">
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm('Delete this note?')) onDelete(note.id);
+                    }}
+                    className="hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </div>
+              {historyNoteId === note.id && note.history.length > 0 && (
+                <ol className="mt-2 space-y-2 border-t border-yellow-200 pt-2">
+                  {[...note.history].reverse().map((revision) => (
+                    <li key={revision.timestamp} className="text-xs text-gray-500">
+                      <p className="mb-1">{new Date(revision.timestamp).toLocaleString()}</p>
+                      <p className="whitespace-pre-wrap font-mono">{revision.text}</p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {isAdding ? (
+        <div className="mt-4 bg-yellow-50 p-3 rounded">
+          <p className="text-xs text-gray-500 mb-2">New note on page {currentPage}</p>
+          <NoteEditor
+            initialText=""
+            initialAnnotationId={null}
+            annotations={annotations}
+            submitLabel="Add Note"
+            onSubmit={(text, annotationId) => {
+              onAdd({ text, pageNumber: currentPage, annotationId });
+              setIsAdding(false);
+            }}
+            onCancel={() => setIsAdding(false)}
+          />
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="mt-4 w-full px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28]"
+        >
+          Add Note
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import type { Paper, Shelf } from './types';
+
+// Versioned so a change to how entries are stored can start from a fresh cache.
+const CACHE_NAME = 'offline-pdfs-v1';
+const CACHED_AT_HEADER = 'X-Cached-At';
+
+export interface OfflinePdf {
+  url: string;
+  size: number;
+  cachedAt: string;
+}
+
+export interface StorageUsage {
+  used: number;
+  quota: number;
+}
+
+// Cache Storage is only available in secure contexts.
+export function isOfflineStorageSupported(): boolean {
+  return typeof window !== 'undefined' && 'caches' in window;
+}
+
+export function wantsOffline(paper: Paper, shelves: Shelf[]): boolean {
+  return paper.pdfUrl !== null && (
+    paper.availableOffline ||
+    shelves.some(shelf => shelf.availableOffline && paper.shelfIds.includes(shelf.id))
+  );
+}
+
+export async function readOfflinePdf(url: string): Promise<ArrayBuffer | null> {
+  if (!isOfflineStorageSupported()) return null;
+  const cache = await caches.open(CACHE_NAME);
+  const response = await cache.match(url);
+  return response ? response.arrayBuffer() : null;
+}
+
+export async function saveOfflinePdf(url: string, bytes: ArrayBuffer): Promise<OfflinePdf> {
+  const cachedAt = new Date().toISOString();
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(url, new Response(bytes, {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Length': String(bytes.byteLength),
+      [CACHED_AT_HEADER]: cachedAt
+    }
+  }));
+  return { url, size: bytes.byteLength, cachedAt };
+}
+
+export async function deleteOfflinePdf(url: string): Promise<void> {
+  if (!isOfflineStorageSupported()) return;
+  const cache = await caches.open(CACHE_NAME);
+  await cache.delete(url);
+}
+
+export async function listOfflinePdfs(): Promise<OfflinePdf[]> {
+  if (!isOfflineStorageSupported()) return [];
+  const cache = await caches.open(CACHE_NAME);
+  const requests = await cache.keys();
+  const entries = await Promise.all(requests.map(async request => {
+    const response = await cache.match(request);
+    if (!response) return null;
+    return {
+      url: request.url,
+      size: Number(response.headers.get('Content-Length') ?? 0),
+      cachedAt: response.headers.get(CACHED_AT_HEADER) ?? ''
+    };
+  }));
+  return entries.filter((entry): entry is OfflinePdf => entry !== null);
+}
+
+export async function storageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { used: usage, quota } : null;
+}
+
+// Asks the browser not to evict the cache under storage pressure. Browsers
+// may decline, in which case offline copies can still disappear.
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
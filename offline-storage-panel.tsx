@@ -0,0 +1,149 @@
+'use client';
+
+import { formatBytes, wantsOffline } from './offline-pdfs';
+import type { Paper, Shelf } from './types';
+import type { OfflinePdfs } from './use-offline-pdfs';
+
+interface OfflineStoragePanelProps {
+  papers: Paper[];
+  shelves: Shelf[];
+  offline: OfflinePdfs;
+  onOpenPaper: (paper: Paper) => void;
+  onTogglePaper: (paperId: string, availableOffline: boolean) => void;
+  onToggleShelf: (shelfId: string, availableOffline: boolean) => void;
+  onRemoveAll: () => void;
+}
+
+function OfflineSource({
+  paper,
+  shelves,
+  onRemove
+}: {
+  paper: Paper;
+  shelves: Shelf[];
+  onRemove: () => void;
+}): JSX.Element {
+  const viaShelves = shelves.filter(shelf => shelf.availableOffline && paper.shelfIds.includes(shelf.id));
+
+  if (paper.availableOffline) {
+    return (
+      <button onClick={onRemove} className="text-xs text-gray-500 hover:text-red-700">
+        Remove
+      </button>
+    );
+  }
+  return <span className="text-xs text-gray-500">via {viaShelves.map(shelf => shelf.name).join(', ')}</span>;
+}
+
+export default function OfflineStoragePanel({
+  papers,
+  shelves,
+  offline,
+  onOpenPaper,
+  onTogglePaper,
+  onToggleShelf,
+  onRemoveAll
+}: OfflineStoragePanelProps): JSX.Element {
+  if (!offline.isSupported) {
+    return (
+      <p className="text-gray-500 text-sm">
+        This browser can't store PDFs for offline reading. Offline storage needs a secure (https) connection.
+      </p>
+    );
+  }
+
+  const offlinePapers = papers
+    .filter(paper => wantsOffline(paper, shelves))
+    .sort((a, b) => a.title.localeCompare(b.title));
+  const cachedBytes = Array.from(offline.cached.values()).reduce((sum, entry) => sum + entry.size, 0);
+  const { usage } = offline;
+
+  return (
+    <div className="grid gap-8 md:grid-cols-[16rem_1fr] text-sm">
+      <aside className="space-y-6">
+        <section>
+          <h2 className="font-semibold text-[#1B3A33] mb-2">Storage</h2>
+          <p>{formatBytes(cachedBytes)} in {offline.cached.size} offline {offline.cached.size === 1 ? 'PDF' : 'PDFs'}</p>
+          {usage && (
+            <>
+              <div className="mt-2 h-2 w-full rounded-full bg-[#F4F1EA] overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-[#1B3A33]"
+                  style={{ width: `${Math.min(100, Math.round((usage.used / Math.max(usage.quota, 1)) * 100))}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                The app uses {formatBytes(usage.used)} of {formatBytes(usage.quota)} available
+              </p>
+            </>
+          )}
+          {offline.pendingCount > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              {offline.isOnline
+                ? `Downloading ${offline.pendingCount} ${offline.pendingCount === 1 ? 'PDF' : 'PDFs'}…`
+                : `${offline.pendingCount} waiting for a connection`}
+            </p>
+          )}
+          {offline.error && <p className="text-xs text-red-700 mt-2">{offline.error}</p>}
+          {offlinePapers.length > 0 && (
+            <button onClick={onRemoveAll} className="mt-3 text-xs text-red-700 hover:underline">
+              Remove all offline copies
+            </button>
+          )}
+        </section>
+
+        <section>
+          <h2 className="font-semibold text-[#1B3A33] mb-2">Shelves</h2>
+          {shelves.length === 0 ? (
+            <p className="text-gray-500">No custom shelves yet</p>
+          ) : (
+            <ul className="space-y-1">
+              {[...shelves].sort((a, b) => a.name.localeCompare(b.name)).map(shelf => (
+                <li key={shelf.id}>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={shelf.availableOffline}
+                      onChange={(e) => onToggleShelf(shelf.id, e.target.checked)}
+                      className="accent-[#1B3A33]"
+                    />
+                    {shelf.name}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </aside>
+
+      <section>
+        <h2 className="font-semibold text-[#1B3A33] mb-2">Available offline</h2>
+        {offlinePapers.length === 0 ? (
+          <p className="text-gray-500">
+            Nothing yet. Mark a paper as available offline from its card, or keep a whole shelf offline.
+          </p>
+        ) : (
+          <ul className="divide-y divide-[#D6D0C4] border border-[#D6D0C4] rounded bg-white">
+            {offlinePapers.map(paper => {
+              const entry = paper.pdfUrl ? offline.cached.get(paper.pdfUrl) : undefined;
+              return (
+                <li key={paper.id} className="flex items-center gap-3 p-3">
+                  <button
+                    onClick={() => onOpenPaper(paper)}
+                    className="flex-1 min-w-0 text-left text-[#1B3A33] hover:underline truncate"
+                  >
+                    {paper.title}
+                  </button>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {entry ? formatBytes(entry.size) : 'Not downloaded yet'}
+                  </span>
+                  <OfflineSource paper={paper} shelves={shelves} onRemove={() => onTogglePaper(paper.id, false)} />
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { createId } from './ids';
+import type { Collection, Paper, SearchFilters, Shelf } from './types';
+
+export const READING_STATUS_OPTIONS: { value: NonNullable<Paper['readingStatus']>; label: string }[] = [
+  { value: 'want', label: 'Want to Read' },
+  { value: 'current', label: 'Currently Reading' },
+  { value: 'read', label: 'Read' }
+];
+
+export interface CollectionNode {
+  collection: Collection;
+  depth: number;
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function createShelf(name: string): Shelf {
+  return { id: createId(), name: name.trim(), availableOffline: false };
+}
+
+export function createCollection(name: string, parentId: string | null): Collection {
+  return { id: createId(), name: name.trim(), parentId };
+}
+
+// Depth-first, siblings sorted by name, for rendering the collection tree.
+export function flattenCollections(collections: Collection[]): CollectionNode[] {
+  const nodes: CollectionNode[] = [];
+  const visit = (parentId: string | null, depth: number): void => {
+    collections
+      .filter(collection => collection.parentId === parentId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(collection => {
+        nodes.push({ collection, depth });
+        visit(collection.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return nodes;
+}
+
+// The collection itself and everything nested below it.
+export function collectionSubtreeIds(collections: Collection[], collectionId: string): Set<string> {
+  const ids = new Set<string>([collectionId]);
+  let added = true;
+  while (added) {
+    added = false;
+    collections.forEach(collection => {
+      if (collection.parentId !== null && ids.has(collection.parentId) && !ids.has(collection.id)) {
+        ids.add(collection.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+}
+
+export function allTags(papers: Paper[]): string[] {
+  return Array.from(new Set(papers.flatMap(paper => paper.tags))).sort();
+}
+
+export function matchesOrganizationFilters(
+  paper: Paper,
+  filters: SearchFilters,
+  collections: Collection[]
+): boolean {
+  if (filters.shelf !== 'all' && paper.readingStatus !== filters.shelf) return false;
+  if (!filters.shelfIds.every(shelfId => paper.shelfIds.includes(shelfId))) return false;
+  if (!filters.tags.every(tag => paper.tags.includes(tag))) return false;
+
+  if (filters.collectionId !== null) {
+    const subtree = collectionSubtreeIds(collections, filters.collectionId);
+    if (!paper.collectionIds.some(collectionId => subtree.has(collectionId))) return false;
+  }
+  return true;
+}
+
+export function hasOrganizationFilters(filters: SearchFilters): boolean {
+  return filters.shelf !== 'all' ||
+    filters.shelfIds.length > 0 ||
+    filters.tags.length > 0 ||
+    filters.collectionId !== null;
+}
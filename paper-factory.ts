@@ -0,0 +1,71 @@
+import { createId } from './ids';
+import type { ArxivPaper, Paper } from './types';
+
+// `publicationDate` is left out when the source doesn't give one.
+export type PaperMetadata = Pick<
+  Paper,
+  'title' | 'authors' | 'abstract' | 'journal' | 'doi' | 'pdfUrl' | 'arxivId'
+> & Partial<Paper>;
+
+export function createPaper(metadata: PaperMetadata): Paper {
+  return {
+    id: createId(),
+    publicationDate: '',
+    userRating: null,
+    citations: null,
+    readingStatus: null,
+    shelfIds: [],
+    collectionIds: [],
+    tags: [],
+    arxivVersion: null,
+    arxivComment: '',
+    updatedDate: metadata.publicationDate ?? '',
+    primaryCategory: null,
+    categories: [],
+    authorAffiliations: {},
+    fieldUpdatedAt: {},
+    enrichmentCheckedAt: null,
+    currentPage: 1,
+    totalPages: 0,
+    annotations: [],
+    notes: [],
+    sections: [],
+    sectionsSource: null,
+    comments: [],
+    reviews: [],
+    references: [],
+    referencesExtractedAt: null,
+    referencesLookedUpAt: null,
+    notDuplicateOf: [],
+    versionCheckedAt: null,
+    availableUpdate: null,
+    availableOffline: false,
+    citationKey: null,
+    ...metadata
+  };
+}
+
+export function createPaperFromArxiv(arxivPaper: ArxivPaper): Paper {
+  return createPaper({
+    title: arxivPaper.title,
+    authors: arxivPaper.authors.map(author => author.name),
+    abstract: arxivPaper.summary,
+    publicationDate: arxivPaper.published,
+    journal: arxivPaper.journalRef || 'arXiv preprint',
+    doi: arxivPaper.doi || '',
+    pdfUrl: arxivPaper.pdfLink,
+    arxivId: arxivPaper.id,
+    arxivVersion: arxivPaper.version,
+    arxivComment: arxivPaper.comment || '',
+    updatedDate: arxivPaper.updated,
+    primaryCategory: arxivPaper.primaryCategory,
+    categories: arxivPaper.categories,
+    // Freshly fetched, so there is nothing newer to look for yet.
+    versionCheckedAt: new Date().toISOString(),
+    authorAffiliations: Object.fromEntries(
+      arxivPaper.authors
+        .filter(author => author.affiliations.length > 0)
+        .map(author => [author.name, author.affiliations])
+    )
+  });
+}
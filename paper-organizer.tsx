@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { flattenCollections, normalizeTag } from './organization';
+import type { Collection, Paper, Shelf } from './types';
+
+export type PaperOrganization = Pick<Paper, 'shelfIds' | 'collectionIds' | 'tags'>;
+
+interface PaperOrganizerProps {
+  paper: Paper;
+  shelves: Shelf[];
+  collections: Collection[];
+  onChange: (paperId: string, changes: Partial<PaperOrganization>) => void;
+  onTagClick: (tag: string) => void;
+}
+
+function toggle(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter(candidate => candidate !== id) : [...ids, id];
+}
+
+export default function PaperOrganizer({
+  paper,
+  shelves,
+  collections,
+  onChange,
+  onTagClick
+}: PaperOrganizerProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [tagText, setTagText] = useState<string>('');
+
+  const addTag = (): void => {
+    const tag = normalizeTag(tagText);
+    if (tag && !paper.tags.includes(tag)) {
+      onChange(paper.id, { tags: [...paper.tags, tag] });
+    }
+    setTagText('');
+  };
+
+  const shelfNames = shelves
+    .filter(shelf => paper.shelfIds.includes(shelf.id))
+    .map(shelf => shelf.name);
+
+  return (
+    <div className="mt-3 text-xs">
+      <div className="flex flex-wrap items-center gap-1">
+        {shelfNames.map(name => (
+          <span key={name} className="px-2 py-0.5 rounded bg-[#F4F1EA] text-[#1B3A33]">{name}</span>
+        ))}
+        {paper.tags.map(tag => (
+          <button
+            key={tag}
+            onClick={() => onTagClick(tag)}
+            className="px-2 py-0.5 rounded-full border border-[#D6D0C4] text-[#1B3A33] hover:bg-[#F4F1EA]"
+          >
+            #{tag}
+          </button>
+        ))}
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          className="px-1 text-gray-500 hover:text-[#1B3A33] hover:underline"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? 'Done' : 'Organize'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-2 p-3 space-y-3 border border-[#D6D0C4] rounded bg-[#F9F8F4]">
+          <div>
+            <p className="font-semibold text-[#1B3A33] mb-1">Shelves</p>
+            {shelves.length === 0 && <p className="text-gray-500">Create shelves in the sidebar</p>}
+            {shelves.map(shelf => (
+              <label key={shelf.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={paper.shelfIds.includes(shelf.id)}
+                  onChange={() => onChange(paper.id, { shelfIds: toggle(paper.shelfIds, shelf.id) })}
+                  className="accent-[#1B3A33]"
+                />
+                {shelf.name}
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <p className="font-semibold text-[#1B3A33] mb-1">Collections</p>
+            {collections.length === 0 && <p className="text-gray-500">Create collections in the sidebar</p>}
+            {flattenCollections(collections).map(({ collection, depth }) => (
+              <label
+                key={collection.id}
+                className="flex items-center gap-2"
+                style={{ paddingLeft: `${depth}rem` }}
+              >
+                <input
+                  type="checkbox"
+                  checked={paper.collectionIds.includes(collection.id)}
+                  onChange={() => onChange(paper.id, { collectionIds: toggle(paper.collectionIds, collection.id) })}
+                  className="accent-[#1B3A33]"
+                />
+                {collection.name}
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <p className="font-semibold text-[#1B3A33] mb-1">Tags</p>
+            <div className="flex flex-wrap gap-1 mb-2">
+              {paper.tags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-white border border-[#D6D0C4]">
+                  #{tag}
+                  <button
+                    onClick={() => onChange(paper.id, { tags: paper.tags.filter(candidate => candidate !== tag) })}
+                    className="text-gray-400 hover:text-red-700"
+                    aria-label={`Remove tag ${tag}`}
+                  >
+                    {'×'}
+                  </button>
+                </span>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={tagText}
+              onChange={(e) => setTagText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  addTag();
+                }
+              }}
+              placeholder="Add a tag and press Enter"
+              className="w-full p-1 border border-[#D6D0C4] rounded bg-white focus:ring-2 focus:ring-[#1B3A33]"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { readOfflinePdf } from './offline-pdfs';
+import { proxyRequest } from './proxy-client';
+
+// Copies kept for offline reading are used first. Otherwise arxiv.org PDFs
+// are fetched through the proxy route, since arxiv.org does not send CORS
+// headers; anything else is assumed to be directly fetchable.
+export async function loadPdfBytes(pdfUrl: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const offline = await readOfflinePdf(pdfUrl).catch(error => {
+    console.error('Error reading offline PDF:', error);
+    return null;
+  });
+  if (offline) return offline;
+
+  return downloadPdfBytes(pdfUrl, signal);
+}
+
+export async function downloadPdfBytes(pdfUrl: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const url = new URL(pdfUrl);
+
+  if (url.hostname === 'arxiv.org' || url.hostname === 'www.arxiv.org') {
+    const response = await proxyRequest({
+      protocol: 'https',
+      origin: 'arxiv.org',
+      path: url.pathname,
+      method: 'GET'
+    }, signal);
+    return response.arrayBuffer();
+  }
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download PDF (status ${response.status})`);
+  }
+  return response.arrayBuffer();
+}
@@ -0,0 +1,162 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { Section } from './types';
+
+export interface TextLine {
+  text: string;
+  fontSize: number;
+}
+
+const MAX_OUTLINE_DEPTH = 3;
+const MAX_HEADING_SCAN_PAGES = 60;
+const MAX_FULL_TEXT_PAGES = 200;
+// Lines are never empty, so a blank line only ever separates pages.
+const FULL_TEXT_PAGE_SEPARATOR = '\n\n';
+
+const NAMED_HEADING = /^(abstract|introduction|related work|background|preliminaries|method(s|ology)?|approach|experiments?|evaluation|results|discussion|limitations|conclusions?|acknowledge?ments|references|bibliography|appendix|appendices)$/i;
+const NUMBERED_HEADING = /^((?:\d{1,2}|[A-Z])(?:\.\d{1,2}){0,2})\.?\s+([A-Z].{1,80})$/;
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+async function resolveDestinationPage(doc: PDFDocumentProxy, dest: OutlineNode['dest']): Promise<number | null> {
+  const explicit = typeof dest === 'string' ? await doc.getDestination(dest) : dest;
+  if (!explicit || explicit.length === 0) return null;
+
+  const target = explicit[0];
+  const pageIndex = typeof target === 'number' ? target : await doc.getPageIndex(target);
+  return pageIndex + 1;
+}
+
+async function sectionsFromOutline(
+  doc: PDFDocumentProxy,
+  nodes: OutlineNode[],
+  level: number
+): Promise<Section[]> {
+  const sections: Section[] = [];
+
+  for (const node of nodes) {
+    const page = await resolveDestinationPage(doc, node.dest).catch(() => null);
+    if (page !== null) {
+      sections.push({ title: node.title.trim(), page, level });
+    }
+    if (node.items.length > 0 && level + 1 < MAX_OUTLINE_DEPTH) {
+      sections.push(...await sectionsFromOutline(doc, node.items, level + 1));
+    }
+  }
+  return sections;
+}
+
+export async function extractPageLines(doc: PDFDocumentProxy, pageNumber: number): Promise<TextLine[]> {
+  const page = await doc.getPage(pageNumber);
+  const content = await page.getTextContent();
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+
+  content.items.forEach(item => {
+    if (!('str' in item)) return;
+
+    const fontSize = Math.abs(item.transform[3]) || item.height;
+    if (!current) {
+      current = { text: item.str, fontSize };
+    } else {
+      current.text += item.str;
+      current.fontSize = Math.max(current.fontSize, fontSize);
+    }
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  });
+  if (current) lines.push(current);
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text.length > 0);
+}
+
+// Plain text of the document for search, with words that were hyphenated
+// across line breaks joined back together.
+export async function extractFullText(doc: PDFDocumentProxy): Promise<string> {
+  const pageCount = Math.min(doc.numPages, MAX_FULL_TEXT_PAGES);
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    const lines = await extractPageLines(doc, pageNumber);
+    pages.push(
+      lines
+        .map(line => line.text)
+        .join('\n')
+        .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+    );
+  }
+  return pages.join(FULL_TEXT_PAGE_SEPARATOR);
+}
+
+// The text of each page, first page first.
+export function fullTextPages(fullText: string): string[] {
+  return fullText.split(FULL_TEXT_PAGE_SEPARATOR);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+function headingFromLine(line: TextLine, bodyFontSize: number): { title: string; level: number } | null {
+  if (line.text.length > 90) return null;
+
+  if (NAMED_HEADING.test(line.text)) {
+    return { title: line.text, level: 0 };
+  }
+
+  const numbered = line.text.match(NUMBERED_HEADING);
+  // Numbered lines also occur in lists and tables, so only trust them when
+  // they stand out from body text and don't read like a sentence.
+  if (numbered && line.fontSize >= bodyFontSize * 1.05 && !/[.,;:]$/.test(line.text)) {
+    return { title: line.text, level: numbered[1].split('.').length - 1 };
+  }
+  return null;
+}
+
+async function sectionsFromHeadings(doc: PDFDocumentProxy): Promise<Section[]> {
+  const pageCount = Math.min(doc.numPages, MAX_HEADING_SCAN_PAGES);
+  const pages: TextLine[][] = [];
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    pages.push(await extractPageLines(doc, pageNumber));
+  }
+
+  const bodyFontSize = median(pages.flat().map(line => line.fontSize));
+  const seen = new Set<string>();
+  const sections: Section[] = [];
+
+  pages.forEach((lines, index) => {
+    lines.forEach(line => {
+      const heading = headingFromLine(line, bodyFontSize);
+      if (heading && !seen.has(heading.title.toLowerCase())) {
+        seen.add(heading.title.toLowerCase());
+        sections.push({ ...heading, page: index + 1 });
+      }
+    });
+  });
+  return sections;
+}
+
+export async function extractSections(
+  doc: PDFDocumentProxy
+): Promise<{ sections: Section[]; source: 'outline' | 'headings' }> {
+  const outline = await doc.getOutline();
+  if (outline && outline.length > 0) {
+    const sections = await sectionsFromOutline(doc, outline, 0);
+    if (sections.length > 0) {
+      return { sections, source: 'outline' };
+    }
+  }
+
+  return { sections: await sectionsFromHeadings(doc), source: 'headings' };
+}
+
+export function currentSectionIndex(sections: Section[], page: number): number {
+  let index = -1;
+  sections.forEach((section, candidate) => {
+    if (section.page <= page) index = candidate;
+  });
+  return index;
+}
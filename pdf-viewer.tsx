@@ -0,0 +1,406 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { CSSProperties } from 'react';
+import type { PDFDocumentProxy, RenderTask, TextLayer } from 'pdfjs-dist';
+import 'pdfjs-dist/web/pdf_viewer.css';
+import { loadPdfBytes } from './pdf-loader';
+import type { Annotation, HighlightRect } from './types';
+
+export const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+export interface PageRequest {
+  page: number;
+  requestId: number;
+  // Fraction of the page height to scroll to, e.g. the top of a highlight.
+  offset?: number;
+  highlightId?: string;
+}
+
+export interface TextSelection {
+  pageNumber: number;
+  text: string;
+  rects: HighlightRect[];
+  // Viewport coordinates of the selection, for positioning a toolbar.
+  clientRect: { top: number; left: number; bottom: number; right: number };
+}
+
+interface PdfViewerProps {
+  url: string;
+  zoom: number;
+  initialPage: number;
+  pageRequest: PageRequest | null;
+  highlights: Annotation[];
+  // Open discussion threads per page, shown as markers on the pages.
+  discussionCounts: Record<number, number>;
+  onDiscussionClick: (page: number) => void;
+  onDocumentLoaded: (doc: PDFDocumentProxy) => void;
+  onPageChange: (page: number) => void;
+  onTextSelected: (selection: TextSelection | null) => void;
+}
+
+interface PdfPageProps {
+  doc: PDFDocumentProxy;
+  pageNumber: number;
+  size: PageSize;
+  zoom: number;
+  isNearViewport: boolean;
+  highlights: Annotation[];
+  activeHighlightId: string | null;
+  discussionCount: number;
+  onDiscussionClick: (page: number) => void;
+}
+
+async function loadPdfDocument(url: string, signal: AbortSignal): Promise<PDFDocumentProxy> {
+  // pdf.js touches browser globals at import time, so it is loaded lazily.
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    'pdfjs-dist/build/pdf.worker.min.mjs',
+    import.meta.url
+  ).toString();
+
+  const data = await loadPdfBytes(url, signal);
+  const doc = await pdfjs.getDocument({ data }).promise;
+  // Nothing holds on to a document that finished loading after its request
+  // was aborted, so it is destroyed here to free its worker.
+  if (signal.aborted) {
+    doc.destroy();
+    throw new DOMException('PDF load aborted', 'AbortError');
+  }
+  return doc;
+}
+
+function PdfPage({
+  doc,
+  pageNumber,
+  size,
+  zoom,
+  isNearViewport,
+  highlights,
+  activeHighlightId,
+  discussionCount,
+  onDiscussionClick
+}: PdfPageProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    if (!isNearViewport) {
+      // Release the backing store of pages far from view.
+      canvas.width = 0;
+      canvas.height = 0;
+      return;
+    }
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+
+    Promise.all([doc.getPage(pageNumber), import('pdfjs-dist')]).then(([page, pdfjs]) => {
+      if (cancelled) return;
+
+      const viewport = page.getViewport({ scale: zoom });
+      const outputScale = window.devicePixelRatio || 1;
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      renderTask = page.render({
+        canvasContext: context,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+      });
+      renderTask.promise.catch(error => {
+        if (error?.name !== 'RenderingCancelledException') {
+          console.error(`Error rendering page ${pageNumber}:`, error);
+        }
+      });
+
+      const textContainer = textLayerRef.current;
+      if (textContainer) {
+        textContainer.replaceChildren();
+        textLayer = new pdfjs.TextLayer({
+          textContentSource: page.streamTextContent(),
+          container: textContainer,
+          viewport
+        });
+        textLayer.render().catch(error => {
+          if (!cancelled) console.error(`Error rendering text on page ${pageNumber}:`, error);
+        });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [doc, pageNumber, zoom, isNearViewport]);
+
+  return (
+    <div
+      data-page-number={pageNumber}
+      className="relative mx-auto mb-4 bg-white shadow-lg"
+      style={{
+        width: size.width * zoom,
+        height: size.height * zoom,
+        '--scale-factor': zoom
+      } as CSSProperties}
+    >
+      <canvas ref={canvasRef} className="block w-full h-full" />
+      <div className="absolute inset-0 pointer-events-none">
+        {highlights.flatMap(highlight =>
+          highlight.rects.map((rect, index) => (
+            <div
+              key={`${highlight.id}-${index}`}
+              className={`absolute mix-blend-multiply transition-shadow ${
+                highlight.id === activeHighlightId ? 'ring-2 ring-[#1B3A33]' : ''
+              }`}
+              style={{
+                left: `${rect.x * 100}%`,
+                top: `${rect.y * 100}%`,
+                width: `${rect.width * 100}%`,
+                height: `${rect.height * 100}%`,
+                backgroundColor: highlight.color,
+                opacity: 0.4
+              }}
+            />
+          ))
+        )}
+      </div>
+      <div ref={textLayerRef} className="textLayer" />
+      {discussionCount > 0 && (
+        <button
+          onClick={() => onDiscussionClick(pageNumber)}
+          className="absolute top-2 right-2 z-10 px-2 py-0.5 rounded-full bg-[#1B3A33] text-white text-xs shadow hover:bg-[#152E28]"
+          aria-label={`${discussionCount} open ${discussionCount === 1 ? 'thread' : 'threads'} on page ${pageNumber}`}
+        >
+          {'💬'} {discussionCount}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function selectionOnPage(container: HTMLElement): TextSelection | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const text = selection.toString().replace(/\s+/g, ' ').trim();
+  const range = selection.getRangeAt(0);
+  const anchor = range.commonAncestorContainer;
+  const pageElement = (anchor instanceof Element ? anchor : anchor.parentElement)
+    ?.closest<HTMLElement>('[data-page-number]');
+  if (!text || !pageElement || !container.contains(pageElement)) return null;
+
+  const pageBox = pageElement.getBoundingClientRect();
+  const rects = Array.from(range.getClientRects())
+    .filter(rect => rect.width > 1 && rect.height > 1)
+    .map(rect => ({
+      x: (rect.left - pageBox.left) / pageBox.width,
+      y: (rect.top - pageBox.top) / pageBox.height,
+      width: rect.width / pageBox.width,
+      height: rect.height / pageBox.height
+    }));
+  if (rects.length === 0) return null;
+
+  const bounds = range.getBoundingClientRect();
+  return {
+    pageNumber: Number(pageElement.dataset.pageNumber),
+    text,
+    rects,
+    clientRect: { top: bounds.top, left: bounds.left, bottom: bounds.bottom, right: bounds.right }
+  };
+}
+
+function sameSet(a: Set<number>, b: Set<number>): boolean {
+  return a.size === b.size && Array.from(a).every(value => b.has(value));
+}
+
+export default function PdfViewer({
+  url,
+  zoom,
+  initialPage,
+  pageRequest,
+  highlights,
+  discussionCounts,
+  onDiscussionClick,
+  onDocumentLoaded,
+  onPageChange,
+  onTextSelected
+}: PdfViewerProps): JSX.Element {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [nearPages, setNearPages] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [activeHighlightId, setActiveHighlightId] = useState<string | null>(null);
+  const currentPageRef = useRef<number>(initialPage);
+  const frameRef = useRef<number | null>(null);
+  const callbacksRef = useRef({ onDocumentLoaded, onPageChange, onTextSelected });
+  callbacksRef.current = { onDocumentLoaded, onPageChange, onTextSelected };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let loaded: PDFDocumentProxy | null = null;
+
+    setDoc(null);
+    setError(null);
+
+    loadPdfDocument(url, controller.signal)
+      .then(async pdf => {
+        // Aborted between loading and here, so the cleanup never saw it.
+        if (controller.signal.aborted) {
+          pdf.destroy();
+          return;
+        }
+        loaded = pdf;
+        const sizes = await Promise.all(
+          Array.from({ length: pdf.numPages }, async (_, index) => {
+            const viewport = (await pdf.getPage(index + 1)).getViewport({ scale: 1 });
+            return { width: viewport.width, height: viewport.height };
+          })
+        );
+        if (controller.signal.aborted) return;
+
+        setPageSizes(sizes);
+        setDoc(pdf);
+        callbacksRef.current.onDocumentLoaded(pdf);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading PDF:', err);
+        setError('Failed to load PDF. Please try again.');
+      });
+
+    return () => {
+      controller.abort();
+      loaded?.destroy();
+    };
+  }, [url]);
+
+  const updateViewport = useCallback((): void => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const top = container.scrollTop;
+    const bottom = top + container.clientHeight;
+    const margin = container.clientHeight;
+    const near = new Set<number>();
+    let current = 1;
+
+    container.querySelectorAll<HTMLElement>('[data-page-number]').forEach(element => {
+      const pageNumber = Number(element.dataset.pageNumber);
+      const elementTop = element.offsetTop;
+      const elementBottom = elementTop + element.offsetHeight;
+
+      if (elementBottom >= top - margin && elementTop <= bottom + margin) {
+        near.add(pageNumber);
+      }
+      if (elementTop <= top + container.clientHeight / 3) {
+        current = pageNumber;
+      }
+    });
+
+    setNearPages(prev => (sameSet(prev, near) ? prev : near));
+    if (current !== currentPageRef.current) {
+      currentPageRef.current = current;
+      callbacksRef.current.onPageChange(current);
+    }
+  }, []);
+
+  const scrollToPage = useCallback((page: number, offset = 0): void => {
+    const container = containerRef.current;
+    const element = container?.querySelector<HTMLElement>(`[data-page-number="${page}"]`);
+    if (container && element) {
+      currentPageRef.current = page;
+      container.scrollTop = offset > 0
+        ? element.offsetTop + offset * element.offsetHeight - container.clientHeight / 3
+        : element.offsetTop;
+    }
+    updateViewport();
+  }, [updateViewport]);
+
+  // Keeps the reader on the same page when the document loads or the zoom
+  // level changes the page heights.
+  useLayoutEffect(() => {
+    if (doc) scrollToPage(currentPageRef.current);
+  }, [doc, zoom, scrollToPage]);
+
+  useEffect(() => {
+    if (!doc || !pageRequest) return;
+
+    scrollToPage(pageRequest.page, pageRequest.offset);
+    if (!pageRequest.highlightId) return;
+
+    setActiveHighlightId(pageRequest.highlightId);
+    const timeout = setTimeout(() => setActiveHighlightId(null), 1500);
+    return () => clearTimeout(timeout);
+  }, [doc, pageRequest, scrollToPage]);
+
+  const handleMouseUp = useCallback((): void => {
+    const container = containerRef.current;
+    if (container) {
+      callbacksRef.current.onTextSelected(selectionOnPage(container));
+    }
+  }, []);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  const handleScroll = useCallback((): void => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      updateViewport();
+    });
+  }, [updateViewport]);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-full text-red-700">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      onMouseUp={handleMouseUp}
+      className="relative h-full overflow-auto p-8"
+    >
+      {doc ? (
+        pageSizes.map((size, index) => (
+          <PdfPage
+            key={index + 1}
+            doc={doc}
+            pageNumber={index + 1}
+            size={size}
+            zoom={zoom}
+            isNearViewport={nearPages.has(index + 1)}
+            highlights={highlights.filter(highlight => highlight.pageNumber === index + 1)}
+            activeHighlightId={activeHighlightId}
+            discussionCount={discussionCounts[index + 1] ?? 0}
+            onDiscussionClick={onDiscussionClick}
+          />
+        ))
+      ) : (
+        <div className="flex items-center justify-center h-full">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#1B3A33]"></div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+export type ProxyErrorCode =
+  | 'BAD_REQUEST'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'NOT_FOUND'
+  | 'UPSTREAM_ERROR'
+  | 'NETWORK_ERROR';
+
+export interface ProxyRequest {
+  protocol: 'http' | 'https';
+  origin: string;
+  path: string;
+  method: 'GET';
+  params?: Record<string, string | number>;
+}
+
+export interface ProxyErrorBody {
+  error: {
+    code: ProxyErrorCode;
+    message: string;
+    retryAfterMs?: number;
+  };
+}
+
+export class ProxyError extends Error {
+  constructor(
+    public readonly code: ProxyErrorCode,
+    message: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+function isProxyErrorBody(value: unknown): value is ProxyErrorBody {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as ProxyErrorBody).error?.code === 'string';
+}
+
+export async function proxyRequest(request: ProxyRequest, signal?: AbortSignal): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch('/api/proxy', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new ProxyError('NETWORK_ERROR', 'Could not reach the server. Check your connection.');
+  }
+
+  if (!response.ok) {
+    const body: unknown = await response.json().catch(() => null);
+    if (isProxyErrorBody(body)) {
+      throw new ProxyError(body.error.code, body.error.message, body.error.retryAfterMs);
+    }
+    throw new ProxyError('UPSTREAM_ERROR', `Proxy request failed with status ${response.status}`);
+  }
+
+  return response;
+}
+
+export function describeProxyError(error: unknown): string {
+  if (!(error instanceof ProxyError)) {
+    return 'Something went wrong. Please try again.';
+  }
+
+  switch (error.code) {
+    case 'RATE_LIMITED':
+      return error.retryAfterMs
+        ? `Too many requests. Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.`
+        : 'Too many requests. Please wait a moment and try again.';
+    case 'TIMEOUT':
+      return 'The remote service took too long to respond.';
+    case 'ORIGIN_NOT_ALLOWED':
+      return 'That service is not supported.';
+    case 'NETWORK_ERROR':
+      return error.message;
+    default:
+      return 'The remote service returned an error. Please try again.';
+  }
+}
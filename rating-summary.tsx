@@ -0,0 +1,45 @@
+'use client';
+
+import type { CommunityRating } from './community-ratings';
+
+interface RatingSummaryProps {
+  rating: CommunityRating;
+}
+
+export default function RatingSummary({ rating }: RatingSummaryProps): JSX.Element | null {
+  if (rating.average === null) return null;
+
+  const largest = Math.max(...rating.distribution);
+
+  return (
+    <div className="flex gap-4 mb-4">
+      <div className="text-center flex-shrink-0">
+        <p className="text-3xl font-semibold text-[#1B3A33]">{rating.average.toFixed(1)}</p>
+        <p className="text-[#FF9900]" aria-hidden="true">
+          {'★'.repeat(Math.round(rating.average))}
+          <span className="text-gray-300">{'★'.repeat(5 - Math.round(rating.average))}</span>
+        </p>
+        <p className="text-xs text-gray-500">
+          {rating.count} {rating.count === 1 ? 'review' : 'reviews'}
+        </p>
+      </div>
+      <ul className="flex-1 space-y-1 text-xs" aria-label="Rating distribution">
+        {[5, 4, 3, 2, 1].map(stars => {
+          const count = rating.distribution[stars - 1];
+          return (
+            <li key={stars} className="flex items-center gap-2">
+              <span className="w-6 text-gray-600">{stars}★</span>
+              <div className="flex-1 h-2 rounded-full bg-[#F4F1EA] overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-[#FF9900]"
+                  style={{ width: `${largest > 0 ? Math.round((count / largest) * 100) : 0}%` }}
+                />
+              </div>
+              <span className="w-4 text-right text-gray-500">{count}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
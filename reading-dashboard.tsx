@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  GOAL_METRICS,
+  GOAL_PERIODS,
+  goalProgress,
+  pagesPerDay,
+  papersReadByMonth,
+  readingProgress
+} from './reading-stats';
+import type { StatBucket } from './reading-stats';
+import type { Paper, ReadingEvent, ReadingGoal } from './types';
+
+interface ReadingDashboardProps {
+  papers: Paper[];
+  events: ReadingEvent[];
+  goals: ReadingGoal[];
+  onAddGoal: (goal: Omit<ReadingGoal, 'id'>) => void;
+  onDeleteGoal: (goalId: string) => void;
+  onOpenPaper: (paper: Paper) => void;
+}
+
+const MONTHS_SHOWN = 12;
+const DAYS_SHOWN = 30;
+
+function ProgressBar({ value }: { value: number }): JSX.Element {
+  return (
+    <div className="h-2 w-full rounded-full bg-[#F4F1EA] overflow-hidden">
+      <div
+        className="h-full rounded-full bg-[#1B3A33] transition-[width]"
+        style={{ width: `${Math.round(Math.min(value, 1) * 100)}%` }}
+      />
+    </div>
+  );
+}
+
+function BarChart({ buckets, unit }: { buckets: StatBucket[]; unit: string }): JSX.Element {
+  const max = Math.max(1, ...buckets.map(bucket => bucket.count));
+
+  return (
+    <div className="flex items-end gap-1 h-32">
+      {buckets.map((bucket, index) => (
+        <div key={bucket.key} className="flex-1 h-full flex flex-col justify-end items-center min-w-0">
+          <div
+            className="w-full rounded-t bg-[#1B3A33] hover:bg-[#FF9900]"
+            style={{ height: `${(bucket.count / max) * 100}%`, minHeight: bucket.count > 0 ? 2 : 0 }}
+            title={`${bucket.label}: ${bucket.count} ${unit}`}
+          />
+          {/* Label every bar when there is room, otherwise every fifth. */}
+          <span className="mt-1 text-[10px] text-gray-500 truncate">
+            {buckets.length <= MONTHS_SHOWN || index % 5 === 0 ? bucket.label : '\u00a0'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ReadingDashboard({
+  papers,
+  events,
+  goals,
+  onAddGoal,
+  onDeleteGoal,
+  onOpenPaper
+}: ReadingDashboardProps): JSX.Element {
+  const [target, setTarget] = useState<number>(10);
+  const [metric, setMetric] = useState<ReadingGoal['metric']>('papers');
+  const [period, setPeriod] = useState<ReadingGoal['period']>('month');
+
+  const now = new Date();
+  const readByMonth = papersReadByMonth(events, papers, MONTHS_SHOWN, now);
+  const pagesByDay = pagesPerDay(events, DAYS_SHOWN, now);
+  const inProgress = papers
+    .filter(paper => paper.readingStatus === 'current' || (paper.readingStatus !== 'read' && paper.currentPage > 1))
+    .sort((a, b) => readingProgress(b) - readingProgress(a));
+
+  return (
+    <div className="space-y-8">
+      <section className="bg-white border border-[#D6D0C4] rounded-lg p-4">
+        <h2 className="text-lg font-semibold text-[#1B3A33] mb-4">Reading goals</h2>
+        <div className="space-y-4">
+          {goals.map(goal => {
+            const current = goalProgress(goal, events, papers, now);
+            const metricLabel = GOAL_METRICS.find(option => option.value === goal.metric)?.label;
+            const periodLabel = GOAL_PERIODS.find(option => option.value === goal.period)?.label;
+
+            return (
+              <div key={goal.id}>
+                <div className="flex items-center text-sm mb-1">
+                  <span>{goal.target} {metricLabel} {periodLabel}</span>
+                  <span className="ml-auto text-gray-600">
+                    {current} / {goal.target}
+                    {current >= goal.target && ' ✓'}
+                  </span>
+                  <button
+                    onClick={() => onDeleteGoal(goal.id)}
+                    className="ml-3 text-gray-400 hover:text-red-700"
+                    aria-label="Delete goal"
+                  >
+                    {'×'}
+                  </button>
+                </div>
+                <ProgressBar value={current / goal.target} />
+              </div>
+            );
+          })}
+          {goals.length === 0 && <p className="text-sm text-gray-500">No goals yet</p>}
+        </div>
+        <form
+          className="flex flex-wrap items-center gap-2 mt-4 text-sm"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (target > 0) onAddGoal({ metric, period, target });
+          }}
+        >
+          <input
+            type="number"
+            min={1}
+            value={target}
+            onChange={(e) => setTarget(Number(e.target.value))}
+            className="w-20 p-1 border border-[#D6D0C4] rounded bg-white"
+            aria-label="Goal target"
+          />
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as ReadingGoal['metric'])}
+            className="p-1 border border-[#D6D0C4] rounded bg-white"
+            aria-label="Goal metric"
+          >
+            {GOAL_METRICS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as ReadingGoal['period'])}
+            className="p-1 border border-[#D6D0C4] rounded bg-white"
+            aria-label="Goal period"
+          >
+            {GOAL_PERIODS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button type="submit" className="px-3 py-1 bg-[#1B3A33] text-white rounded hover:bg-[#152E28]">
+            Add goal
+          </button>
+        </form>
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <section className="bg-white border border-[#D6D0C4] rounded-lg p-4">
+          <h2 className="text-lg font-semibold text-[#1B3A33] mb-4">Papers read per month</h2>
+          <BarChart buckets={readByMonth} unit="papers" />
+        </section>
+        <section className="bg-white border border-[#D6D0C4] rounded-lg p-4">
+          <h2 className="text-lg font-semibold text-[#1B3A33] mb-4">Pages read per day</h2>
+          <BarChart buckets={pagesByDay} unit="pages" />
+        </section>
+      </div>
+
+      <section className="bg-white border border-[#D6D0C4] rounded-lg p-4">
+        <h2 className="text-lg font-semibold text-[#1B3A33] mb-4">In progress</h2>
+        <ul className="space-y-3">
+          {inProgress.map(paper => (
+            <li key={paper.id}>
+              <div className="flex items-center gap-2 text-sm mb-1">
+                <button
+                  onClick={() => onOpenPaper(paper)}
+                  className="min-w-0 truncate text-left text-[#1B3A33] hover:underline"
+                >
+                  {paper.title}
+                </button>
+                <span className="ml-auto flex-shrink-0 text-gray-600">
+                  {paper.totalPages > 0 ? `p. ${paper.currentPage} of ${paper.totalPages}` : 'Not opened yet'}
+                </span>
+              </div>
+              <ProgressBar value={readingProgress(paper)} />
+            </li>
+          ))}
+        </ul>
+        {inProgress.length === 0 && (
+          <p className="text-sm text-gray-500">Papers you are reading will show up here</p>
+        )}
+      </section>
+    </div>
+  );
+}
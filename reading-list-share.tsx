@@ -0,0 +1,211 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { downloadFile } from './download';
+import {
+  createReadingListBundle,
+  parseReadingListBundle,
+  ReadingListError,
+  readingListFileName,
+  renderReadingListHtml
+} from './reading-list';
+import type { ReadingListBundle } from './reading-list';
+import type { Paper } from './types';
+
+export interface ReadingListImportOptions {
+  includeAnnotations: boolean;
+  addToNewShelf: boolean;
+}
+
+interface ReadingListShareProps {
+  papers: Paper[];
+  defaultTitle: string;
+  exportedBy: string | null;
+  onImport: (bundle: ReadingListBundle, options: ReadingListImportOptions) => { added: number; matched: number };
+}
+
+function ImportDialog({
+  bundle,
+  onImport,
+  onCancel
+}: {
+  bundle: ReadingListBundle;
+  onImport: (options: ReadingListImportOptions) => void;
+  onCancel: () => void;
+}): JSX.Element {
+  const [includeAnnotations, setIncludeAnnotations] = useState<boolean>(false);
+  const [addToNewShelf, setAddToNewShelf] = useState<boolean>(true);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4" onClick={onCancel}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reading-list-dialog-title"
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-white rounded-lg shadow-xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="reading-list-dialog-title" className="text-lg font-semibold text-[#1B3A33]">{bundle.title}</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          {bundle.exportedBy && `Shared by ${bundle.exportedBy} • `}
+          {bundle.papers.length} {bundle.papers.length === 1 ? 'paper' : 'papers'}
+        </p>
+
+        <ol className="mt-4 flex-1 overflow-y-auto divide-y divide-[#D6D0C4] border border-[#D6D0C4] rounded">
+          {bundle.papers.map((paper, index) => (
+            <li key={index} className="p-3 text-sm">
+              <p className="font-medium text-[#1B3A33]">{paper.title}</p>
+              <p className="text-gray-600 truncate">{paper.authors.join(', ')}</p>
+              {(paper.annotations.length > 0 || paper.notes.length > 0) && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {paper.annotations.length} highlights, {paper.notes.length} notes
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        <div className="mt-4 space-y-2 text-sm">
+          {bundle.includesAnnotations && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeAnnotations}
+                onChange={(e) => setIncludeAnnotations(e.target.checked)}
+                className="accent-[#1B3A33]"
+              />
+              Bring in {bundle.exportedBy ? `${bundle.exportedBy}'s` : 'their'} highlights and notes
+            </label>
+          )}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={addToNewShelf}
+              onChange={(e) => setAddToNewShelf(e.target.checked)}
+              className="accent-[#1B3A33]"
+            />
+            Put them on a new shelf “{bundle.title}”
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onCancel} className="px-3 py-2 text-sm text-gray-600 hover:text-[#1B3A33]">
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport({ includeAnnotations, addToNewShelf })}
+            className="px-3 py-2 text-sm bg-[#1B3A33] text-white rounded hover:bg-[#152E28]"
+          >
+            Add to my library
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ReadingListShare({
+  papers,
+  defaultTitle,
+  exportedBy,
+  onImport
+}: ReadingListShareProps): JSX.Element {
+  const [title, setTitle] = useState<string>('');
+  const [includeAnnotations, setIncludeAnnotations] = useState<boolean>(false);
+  const [pendingBundle, setPendingBundle] = useState<ReadingListBundle | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (kind: 'json' | 'html'): void => {
+    if (papers.length === 0) return;
+
+    const bundle = createReadingListBundle(title || defaultTitle, papers, { includeAnnotations, exportedBy });
+    if (kind === 'json') {
+      downloadFile(readingListFileName(bundle, 'json'), JSON.stringify(bundle, null, 2), 'application/json');
+    } else {
+      downloadFile(readingListFileName(bundle, 'html'), renderReadingListHtml(bundle), 'text/html');
+    }
+    setStatus(`Shared ${papers.length} ${papers.length === 1 ? 'paper' : 'papers'} as “${bundle.title}”`);
+  };
+
+  const handleFile = async (file: File): Promise<void> => {
+    try {
+      const bundle = parseReadingListBundle(await file.text());
+      if (bundle.papers.length === 0) {
+        setStatus(`${file.name} has no papers`);
+        return;
+      }
+      setPendingBundle(bundle);
+      setStatus(null);
+    } catch (error) {
+      console.error('Error reading reading list:', error);
+      setStatus(error instanceof ReadingListError ? `${file.name}: ${error.message}` : `Could not read ${file.name}`);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap text-sm mb-6">
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder={defaultTitle}
+        className="p-2 border border-[#D6D0C4] rounded bg-white"
+        aria-label="Reading list title"
+      />
+      <label className="flex items-center gap-1 text-gray-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={includeAnnotations}
+          onChange={(e) => setIncludeAnnotations(e.target.checked)}
+          className="accent-[#1B3A33]"
+        />
+        With my notes, highlights and ratings
+      </label>
+      <button
+        onClick={() => handleExport('json')}
+        disabled={papers.length === 0}
+        className="px-3 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28] disabled:opacity-50"
+      >
+        Share reading list ({papers.length})
+      </button>
+      <button
+        onClick={() => handleExport('html')}
+        disabled={papers.length === 0}
+        className="px-3 py-2 border border-[#D6D0C4] rounded hover:bg-gray-50 disabled:opacity-50"
+      >
+        Download as page
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="px-3 py-2 border border-[#D6D0C4] rounded hover:bg-gray-50"
+      >
+        Import reading list
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+      {status && <span className="text-gray-600">{status}</span>}
+      {pendingBundle && (
+        <ImportDialog
+          bundle={pendingBundle}
+          onCancel={() => setPendingBundle(null)}
+          onImport={(options) => {
+            const { added, matched } = onImport(pendingBundle, options);
+            setPendingBundle(null);
+            setStatus(`Added ${added} new ${added === 1 ? 'paper' : 'papers'}` +
+              (matched > 0 ? `, matched ${matched} already in your library` : ''));
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+import { findDuplicate } from './duplicates';
+import { createPaper } from './paper-factory';
+import type { PaperMetadata } from './paper-factory';
+import type { Annotation, Note, Paper } from './types';
+
+const BUNDLE_FORMAT = 'academic-good-reads/reading-list';
+const BUNDLE_VERSION = 1;
+
+export interface BundledPaper {
+  title: string;
+  authors: string[];
+  abstract: string;
+  publicationDate: string;
+  journal: string;
+  doi: string;
+  pdfUrl: string | null;
+  arxivId: string | null;
+  arxivVersion: number | null;
+  tags: string[];
+  // Empty unless the sender chose to share their notes, highlights and ratings.
+  rating: number | null;
+  annotations: Annotation[];
+  notes: Note[];
+}
+
+export interface ReadingListBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  title: string;
+  exportedAt: string;
+  exportedBy: string | null;
+  includesAnnotations: boolean;
+  papers: BundledPaper[];
+}
+
+export class ReadingListError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReadingListError';
+  }
+}
+
+export function createReadingListBundle(
+  title: string,
+  papers: Paper[],
+  options: { includeAnnotations: boolean; exportedBy: string | null }
+): ReadingListBundle {
+  const { includeAnnotations } = options;
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    title: title.trim() || 'Reading list',
+    exportedAt: new Date().toISOString(),
+    exportedBy: options.exportedBy,
+    includesAnnotations: includeAnnotations,
+    papers: papers.map(paper => ({
+      title: paper.title,
+      authors: paper.authors,
+      abstract: paper.abstract,
+      publicationDate: paper.publicationDate,
+      journal: paper.journal,
+      doi: paper.doi,
+      pdfUrl: paper.pdfUrl,
+      arxivId: paper.arxivId,
+      arxivVersion: paper.arxivVersion,
+      tags: paper.tags,
+      rating: includeAnnotations ? paper.userRating : null,
+      annotations: includeAnnotations ? paper.annotations : [],
+      notes: includeAnnotations ? paper.notes : []
+    }))
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringOr(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+// Links end up in `href`s, where `javascript:` and similar schemes would run.
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function httpUrlOrNull(value: unknown): string | null {
+  const url = stringOrNull(value);
+  return url && isHttpUrl(url) ? url : null;
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function ratingOrNull(value: unknown): number | null {
+  const rating = numberOrNull(value);
+  return rating === null ? null : Math.min(5, Math.max(1, Math.round(rating)));
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// Highlights and notes are kept only if they have the fields the reader relies on.
+function annotationList(value: unknown): Annotation[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is Annotation =>
+    isRecord(item) && typeof item.id === 'string' && typeof item.text === 'string' &&
+    typeof item.pageNumber === 'number' && Array.isArray(item.rects) && isRecord(item.position)
+  );
+}
+
+function noteList(value: unknown): Note[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is Note =>
+      isRecord(item) && typeof item.id === 'string' && typeof item.text === 'string' &&
+      typeof item.pageNumber === 'number'
+    )
+    .map(note => ({
+      ...note,
+      annotationId: typeof note.annotationId === 'string' ? note.annotationId : null,
+      history: Array.isArray(note.history) ? note.history : []
+    }));
+}
+
+function parseBundledPaper(value: unknown): BundledPaper | null {
+  if (!isRecord(value) || typeof value.title !== 'string' || !value.title.trim()) return null;
+  return {
+    title: value.title,
+    authors: stringList(value.authors),
+    abstract: stringOr(value.abstract, ''),
+    publicationDate: stringOr(value.publicationDate, ''),
+    journal: stringOr(value.journal, ''),
+    doi: stringOr(value.doi, ''),
+    pdfUrl: httpUrlOrNull(value.pdfUrl),
+    arxivId: stringOrNull(value.arxivId),
+    arxivVersion: numberOrNull(value.arxivVersion),
+    tags: stringList(value.tags),
+    rating: ratingOrNull(value.rating),
+    annotations: annotationList(value.annotations),
+    notes: noteList(value.notes)
+  };
+}
+
+// Bundles come from other people, so everything is checked rather than trusted.
+export function parseReadingListBundle(text: string): ReadingListBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReadingListError('The file is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== BUNDLE_FORMAT) {
+    throw new ReadingListError('The file is not a reading list');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new ReadingListError('The reading list was made by a newer version of the app');
+  }
+  if (!Array.isArray(data.papers)) {
+    throw new ReadingListError('The reading list has no papers');
+  }
+
+  const papers = data.papers
+    .map(parseBundledPaper)
+    .filter((paper): paper is BundledPaper => paper !== null);
+  return {
+    format: BUNDLE_FORMAT,
+    version: data.version,
+    title: stringOr(data.title, 'Reading list'),
+    exportedAt: stringOr(data.exportedAt, ''),
+    exportedBy: stringOrNull(data.exportedBy),
+    includesAnnotations: papers.some(paper => paper.annotations.length > 0 || paper.notes.length > 0),
+    papers
+  };
+}
+
+function unionById<T extends { id: string }>(kept: T[], other: T[]): T[] {
+  const ids = new Set(kept.map(item => item.id));
+  return [...kept, ...other.filter(item => !ids.has(item.id))];
+}
+
+export interface ReadingListImport {
+  papers: Paper[];
+  added: number;
+  matched: number;
+}
+
+// Papers already in the library are matched by identifier and keep their own
+// metadata; they only gain the shelf, the tags and, if asked for, the
+// sender's highlights and notes. Annotation ids are kept, so importing the
+// same bundle twice doesn't duplicate them.
+export function importReadingList(
+  library: Paper[],
+  bundle: ReadingListBundle,
+  options: { includeAnnotations: boolean; shelfId: string | null }
+): ReadingListImport {
+  let papers = [...library];
+  let added = 0;
+  let matched = 0;
+
+  bundle.papers.forEach(bundled => {
+    const annotations = options.includeAnnotations ? bundled.annotations : [];
+    const notes = options.includeAnnotations ? bundled.notes : [];
+    const shelfIds = options.shelfId ? [options.shelfId] : [];
+
+    const match = findDuplicate(papers, bundled);
+    const existing = match?.reason === 'title' ? null : match?.paper;
+    if (existing) {
+      papers = papers.map(paper => (paper.id === existing.id
+        ? {
+          ...paper,
+          shelfIds: Array.from(new Set([...paper.shelfIds, ...shelfIds])),
+          tags: Array.from(new Set([...paper.tags, ...bundled.tags])),
+          annotations: unionById(paper.annotations, annotations),
+          notes: unionById(paper.notes, notes)
+        }
+        : paper));
+      matched++;
+    } else {
+      const metadata: PaperMetadata = {
+        title: bundled.title,
+        authors: bundled.authors,
+        abstract: bundled.abstract,
+        publicationDate: bundled.publicationDate || new Date().toISOString(),
+        journal: bundled.journal,
+        doi: bundled.doi,
+        pdfUrl: bundled.pdfUrl,
+        arxivId: bundled.arxivId,
+        arxivVersion: bundled.arxivVersion,
+        tags: bundled.tags,
+        shelfIds,
+        annotations,
+        notes
+      };
+      papers.push(createPaper(metadata));
+      added++;
+    }
+  });
+
+  return { papers, added, matched };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function paperLink(paper: BundledPaper): string | null {
+  if (paper.arxivId) return `https://arxiv.org/abs/${paper.arxivId}`;
+  if (paper.doi) return `https://doi.org/${paper.doi}`;
+  return paper.pdfUrl && isHttpUrl(paper.pdfUrl) ? paper.pdfUrl : null;
+}
+
+function renderPaper(paper: BundledPaper): string {
+  const link = paperLink(paper);
+  const title = link
+    ? `<a href="${escapeHtml(link)}">${escapeHtml(paper.title)}</a>`
+    : escapeHtml(paper.title);
+  const year = paper.publicationDate ? new Date(paper.publicationDate).getFullYear() : null;
+  const details = [paper.journal, year && !Number.isNaN(year) ? String(year) : null]
+    .filter(Boolean)
+    .map(detail => escapeHtml(String(detail)))
+    .join(' • ');
+  const highlights = paper.annotations
+    .slice()
+    .sort((a, b) => a.pageNumber - b.pageNumber)
+    .map(annotation => `<li><span class="page">p. ${annotation.pageNumber}</span> “${escapeHtml(annotation.text)}”</li>`);
+  const notes = paper.notes.map(note => `<li><span class="page">p. ${note.pageNumber}</span> ${escapeHtml(note.text)}</li>`);
+
+  return [
+    '<li class="paper">',
+    `<h2>${title}</h2>`,
+    `<p class="authors">${escapeHtml(paper.authors.join(', '))}</p>`,
+    details && `<p class="details">${details}</p>`,
+    paper.rating !== null && `<p class="rating">${'★'.repeat(paper.rating)}${'☆'.repeat(5 - paper.rating)}</p>`,
+    paper.abstract && `<p class="abstract">${escapeHtml(paper.abstract)}</p>`,
+    paper.tags.length > 0 && `<p class="tags">${paper.tags.map(tag => `<span>${escapeHtml(tag)}</span>`).join(' ')}</p>`,
+    highlights.length > 0 && `<h3>Highlights</h3><ul>${highlights.join('')}</ul>`,
+    notes.length > 0 && `<h3>Notes</h3><ul>${notes.join('')}</ul>`,
+    '</li>'
+  ].filter(Boolean).join('\n');
+}
+
+// A standalone, read-only page for people who don't use the app.
+export function renderReadingListHtml(bundle: ReadingListBundle): string {
+  const byline = [
+    bundle.exportedBy && `Shared by ${escapeHtml(bundle.exportedBy)}`,
+    bundle.exportedAt && new Date(bundle.exportedAt).toLocaleDateString(),
+    `${bundle.papers.length} ${bundle.papers.length === 1 ? 'paper' : 'papers'}`
+  ].filter(Boolean).join(' • ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(bundle.title)}</title>
+<style>
+body { margin: 0; background: #F9F8F4; color: #1f2937; font: 15px/1.5 system-ui, sans-serif; }
+header { background: #F4F1EA; border-bottom: 1px solid #D6D0C4; padding: 24px 16px; }
+header h1 { margin: 0; color: #1B3A33; }
+header p, .details, .page { color: #6b7280; font-size: 13px; }
+main, header > * { max-width: 48rem; margin-left: auto; margin-right: auto; }
+main ol { list-style: none; padding: 0 16px; }
+.paper { background: #fff; border: 1px solid #D6D0C4; border-radius: 8px; padding: 16px; margin: 16px 0; }
+.paper h2 { margin: 0; font-size: 18px; }
+.paper h3 { margin: 12px 0 4px; font-size: 14px; color: #1B3A33; }
+a { color: #1B3A33; }
+.authors { margin: 4px 0 0; color: #4b5563; }
+.details { margin: 4px 0 0; }
+.rating { margin: 4px 0 0; color: #FF9900; }
+.tags span { display: inline-block; background: #F4F1EA; border-radius: 999px; padding: 0 8px; font-size: 12px; }
+.paper ul { margin: 0; padding-left: 20px; font-size: 14px; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(bundle.title)}</h1>
+<p>${byline}</p>
+</header>
+<main>
+<ol>
+${bundle.papers.map(renderPaper).join('\n')}
+</ol>
+</main>
+</body>
+</html>
+`;
+}
+
+export function readingListFileName(bundle: ReadingListBundle, extension: string): string {
+  const slug = bundle.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'reading-list';
+  return `${slug}.${extension}`;
+}
@@ -0,0 +1,125 @@
+import type { Paper, ReadingEvent, ReadingGoal } from './types';
+
+export interface StatBucket {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export const GOAL_METRICS: { value: ReadingGoal['metric']; label: string }[] = [
+  { value: 'papers', label: 'papers read' },
+  { value: 'pages', label: 'pages read' }
+];
+
+export const GOAL_PERIODS: { value: ReadingGoal['period']; label: string }[] = [
+  { value: 'week', label: 'per week' },
+  { value: 'month', label: 'per month' },
+  { value: 'year', label: 'per year' }
+];
+
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// Fraction of the paper read so far; papers marked read count as finished
+// even if the reader never reached the last page.
+export function readingProgress(paper: Paper): number {
+  if (paper.readingStatus === 'read') return 1;
+  if (paper.totalPages === 0) return 0;
+  return Math.min(paper.currentPage / paper.totalPages, 1);
+}
+
+// Start of the current week (Monday), month or year in local time.
+export function periodStart(period: ReadingGoal['period'], now: Date): Date {
+  switch (period) {
+    case 'week': {
+      const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+      return start;
+    }
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    case 'year':
+      return new Date(now.getFullYear(), 0, 1);
+  }
+}
+
+// One entry per paper finished, dated by the most recent move to "read".
+// Status changes are undoable but their events are not, so papers still in
+// the library only count while they are marked read; deleted ones keep
+// counting.
+function finishedPapers(events: ReadingEvent[], papers: Paper[], since: Date): Map<string, Date> {
+  const statuses = new Map(papers.map(paper => [paper.id, paper.readingStatus]));
+  const finished = new Map<string, Date>();
+  events.forEach(event => {
+    if (event.type !== 'status' || event.to !== 'read') return;
+    if (statuses.has(event.paperId) && statuses.get(event.paperId) !== 'read') return;
+    const date = new Date(event.timestamp);
+    const previous = finished.get(event.paperId);
+    if (date >= since && (!previous || date > previous)) {
+      finished.set(event.paperId, date);
+    }
+  });
+  return finished;
+}
+
+function pagesRead(events: ReadingEvent[], since: Date): { date: Date; pages: number }[] {
+  return events
+    .filter((event): event is Extract<ReadingEvent, { type: 'session' }> => event.type === 'session')
+    .map(event => ({ date: new Date(event.timestamp), pages: event.pagesRead }))
+    .filter(entry => entry.date >= since);
+}
+
+export function papersReadByMonth(
+  events: ReadingEvent[],
+  papers: Paper[],
+  months: number,
+  now: Date
+): StatBucket[] {
+  const buckets = Array.from({ length: months }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - (months - 1 - index), 1);
+    return {
+      key: monthKey(date),
+      label: date.toLocaleDateString(undefined, { month: 'short' }),
+      count: 0
+    };
+  });
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+
+  finishedPapers(events, papers, new Date(now.getFullYear(), now.getMonth() - months + 1, 1)).forEach(date => {
+    const bucket = byKey.get(monthKey(date));
+    if (bucket) bucket.count++;
+  });
+  return buckets;
+}
+
+export function pagesPerDay(events: ReadingEvent[], days: number, now: Date): StatBucket[] {
+  const buckets = Array.from({ length: days }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1 - index));
+    return {
+      key: dayKey(date),
+      label: date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      count: 0
+    };
+  });
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+
+  pagesRead(events, new Date(now.getFullYear(), now.getMonth(), now.getDate() - days + 1)).forEach(entry => {
+    const bucket = byKey.get(dayKey(entry.date));
+    if (bucket) bucket.count += entry.pages;
+  });
+  return buckets;
+}
+
+export function goalProgress(goal: ReadingGoal, events: ReadingEvent[], papers: Paper[], now: Date): number {
+  const since = periodStart(goal.period, now);
+  return goal.metric === 'papers'
+    ? finishedPapers(events, papers, since).size
+    : pagesRead(events, since).reduce((total, entry) => total + entry.pages, 0);
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { createPaper } from './paper-factory';
+import {
+  buildRecommendationModel,
+  preferenceWeight,
+  recommendationText,
+  recommendedForLibrary,
+  relatedPapers,
+  topTerms
+} from './recommendations';
+import type { Recommendation } from './recommendations';
+import type { ArxivPaper, Paper } from './types';
+
+function paper(id: string, title: string, abstract: string, overrides: Partial<Paper> = {}): Paper {
+  return createPaper({
+    id,
+    title,
+    authors: ['A. Author'],
+    abstract,
+    publicationDate: '2024-01-01',
+    journal: 'arXiv preprint',
+    doi: '',
+    pdfUrl: null,
+    arxivId: null,
+    ...overrides
+  });
+}
+
+function candidate(id: string, title: string, summary: string): ArxivPaper {
+  return {
+    id,
+    version: 1,
+    title,
+    authors: [{ name: 'B. Author', affiliations: [] }],
+    summary,
+    published: '2024-02-01T00:00:00Z',
+    updated: '2024-02-01T00:00:00Z',
+    pdfLink: `https://arxiv.org/pdf/${id}v1`,
+    primaryCategory: 'cs.LG',
+    categories: ['cs.LG']
+  };
+}
+
+function ids(recommendations: Recommendation[]): string[] {
+  return recommendations.map(({ item }) => `${item.kind}:${item.paper.id}`);
+}
+
+// Two library papers on unrelated topics, with one matching candidate each
+// worded the same way, so rankings between them come down to preferences.
+const CANDIDATES = [
+  candidate('2401.00001', 'Graph Nodes', 'edges'),
+  candidate('2401.00002', 'Image Colour', 'texture'),
+  candidate('2401.00003', 'Quantum Lattice', 'gluons')
+];
+
+function library(graph: Partial<Paper> = {}, image: Partial<Paper> = {}): Paper[] {
+  return [
+    paper('graph', 'Graph Networks', 'nodes edges', graph),
+    paper('image', 'Image Pixels', 'colour texture', image)
+  ];
+}
+
+function recommend(papers: Paper[]): string[] {
+  const model = buildRecommendationModel(papers.map(recommendationText), CANDIDATES);
+  return ids(recommendedForLibrary(model, papers, 10));
+}
+
+describe('preferenceWeight', () => {
+  it('scales the rating around 2 by the shelf weight', () => {
+    expect(preferenceWeight(paper('p', '', '', { userRating: 5, readingStatus: 'read' }))).toBe(1);
+    expect(preferenceWeight(paper('p', '', '', { userRating: 5, readingStatus: 'current' }))).toBeCloseTo(1.2);
+    expect(preferenceWeight(paper('p', '', '', { userRating: 2, readingStatus: 'want' }))).toBe(0);
+    expect(preferenceWeight(paper('p', '', '', { userRating: 1, readingStatus: 'read' }))).toBeCloseTo(-1 / 3);
+  });
+
+  it('weighs unrated papers like ones rated 3', () => {
+    expect(preferenceWeight(paper('p', '', ''))).toBeCloseTo(1 / 6);
+    expect(preferenceWeight(paper('p', '', '', { readingStatus: 'read' })))
+      .toBe(preferenceWeight(paper('p', '', '', { userRating: 3, readingStatus: 'read' })));
+  });
+});
+
+describe('relatedPapers', () => {
+  it('ranks papers sharing terms with the target and leaves out unrelated ones', () => {
+    const papers = [...library(), paper('graph-2', 'Graph Edges', 'networks')];
+    const model = buildRecommendationModel(papers.map(recommendationText), CANDIDATES);
+
+    expect(ids(relatedPapers(model, papers, 'graph', 10))).toEqual(['library:graph-2', 'arxiv:2401.00001']);
+  });
+
+  it('explains matches with the strongest shared terms', () => {
+    const papers = library();
+    const model = buildRecommendationModel(papers.map(recommendationText), CANDIDATES);
+    const [match] = relatedPapers(model, papers, 'graph', 1);
+
+    // "nodes" is in the candidate's title, "edges" only in its summary.
+    expect(match.sharedTerms).toEqual(['graph', 'nodes', 'edges']);
+  });
+
+  it('returns the current version of library papers and skips removed ones', () => {
+    const papers = [...library(), paper('graph-2', 'Graph Edges', 'networks')];
+    const model = buildRecommendationModel(papers.map(recommendationText), CANDIDATES);
+    const rated = { ...papers[2], userRating: 4 };
+
+    expect(relatedPapers(model, [papers[0], rated], 'graph', 10)[0].item.paper).toBe(rated);
+    expect(ids(relatedPapers(model, [papers[0]], 'graph', 10))).toEqual(['arxiv:2401.00001']);
+  });
+
+  it('returns nothing for papers outside the model', () => {
+    const papers = library();
+    const model = buildRecommendationModel(papers.map(recommendationText), CANDIDATES);
+
+    expect(relatedPapers(model, papers, 'missing', 10)).toEqual([]);
+  });
+});
+
+describe('recommendedForLibrary', () => {
+  it('ranks candidates matching higher-rated papers first', () => {
+    expect(recommend(library({ userRating: 5 }, { userRating: 3 }))).toEqual(['arxiv:2401.00001', 'arxiv:2401.00002']);
+    expect(recommend(library({ userRating: 3 }, { userRating: 5 }))).toEqual(['arxiv:2401.00002', 'arxiv:2401.00001']);
+  });
+
+  it('leaves out candidates only matching disliked papers', () => {
+    expect(recommend(library({ userRating: 1 }, { userRating: 4 }))).toEqual(['arxiv:2401.00002']);
+  });
+
+  it('weights papers being read over ones still wanted', () => {
+    expect(recommend(library({ readingStatus: 'current' }, { readingStatus: 'want' })))
+      .toEqual(['arxiv:2401.00001', 'arxiv:2401.00002']);
+    expect(recommend(library({ readingStatus: 'want' }, { readingStatus: 'current' })))
+      .toEqual(['arxiv:2401.00002', 'arxiv:2401.00001']);
+  });
+
+  it('breaks ties by id', () => {
+    expect(recommend(library())).toEqual(['arxiv:2401.00001', 'arxiv:2401.00002']);
+  });
+
+  it('uses current ratings without rebuilding the model', () => {
+    const papers = library({ userRating: 5 }, { userRating: 3 });
+    const model = buildRecommendationModel(papers.map(recommendationText), CANDIDATES);
+    const rerated = library({ userRating: 3 }, { userRating: 5 });
+
+    expect(ids(recommendedForLibrary(model, rerated, 10))).toEqual(['arxiv:2401.00002', 'arxiv:2401.00001']);
+  });
+
+  it('skips candidates already in the library', () => {
+    const papers = library({ arxivId: '2401.00001' });
+
+    expect(recommend(papers)).toEqual(['arxiv:2401.00002']);
+  });
+});
+
+describe('topTerms', () => {
+  it('prefers title terms and terms rare across the library', () => {
+    const papers = library();
+    const model = buildRecommendationModel(papers.map(recommendationText), CANDIDATES);
+
+    expect(topTerms(model, 'graph', 2)).toEqual(['networks', 'graph']);
+  });
+});
@@ -0,0 +1,232 @@
+import { createArxivQueryTerm } from './arxiv-query';
+import type { ArxivQuery } from './arxiv-query';
+import { indexTerms } from './search-index';
+import type { ArxivPaper, Paper } from './types';
+
+export type Recommendable =
+  | { kind: 'library'; paper: Paper }
+  | { kind: 'arxiv'; paper: ArxivPaper };
+
+export interface Recommendation {
+  item: Recommendable;
+  score: number;
+  // The terms contributing most to the match, for "because you read…" hints.
+  sharedTerms: string[];
+}
+
+type Vector = Map<string, number>;
+
+// Library papers are looked up by id when ranking, so recommendations show
+// their current ratings and shelves.
+type DocumentSource =
+  | { kind: 'library'; paperId: string }
+  | { kind: 'arxiv'; paper: ArxivPaper };
+
+interface Document {
+  id: string;
+  source: DocumentSource;
+  vector: Vector;
+}
+
+// The fields the model is built from.
+export type RecommendationText = Pick<Paper, 'id' | 'arxivId' | 'title' | 'abstract'>;
+
+export interface RecommendationModel {
+  library: Document[];
+  candidates: Document[];
+}
+
+// Titles say more about a paper than any single abstract sentence.
+const TITLE_WEIGHT = 2;
+const MIN_TERM_LENGTH = 3;
+const SHARED_TERMS_SHOWN = 3;
+// Words common in paper titles and abstracts that say nothing about the topic.
+const GENERIC_TERMS = new Set([
+  'all', 'approach', 'based', 'can', 'has', 'have', 'its', 'method', 'new', 'not', 'our', 'paper',
+  'propose', 'results', 'show', 'than', 'their', 'these', 'this', 'towards', 'using', 'via', 'we',
+  'which', 'you'
+]);
+
+// Unrated papers count as average, never more than ones rated 3.
+const UNRATED_RATING = 3;
+
+const SHELF_WEIGHTS: Record<NonNullable<Paper['readingStatus']> | 'none', number> = {
+  current: 1.2,
+  read: 1,
+  want: 0.8,
+  none: 0.5
+};
+
+function termCounts(title: string, abstract: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (text: string, weight: number): void => {
+    indexTerms(text)
+      .filter(term => term.length >= MIN_TERM_LENGTH && !/^\d+$/.test(term) && !GENERIC_TERMS.has(term))
+      .forEach(term => counts.set(term, (counts.get(term) ?? 0) + weight));
+  };
+  add(title, TITLE_WEIGHT);
+  add(abstract, 1);
+  return counts;
+}
+
+function normalize(vector: Vector): Vector {
+  const length = Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0));
+  if (length === 0) return vector;
+  return new Map(Array.from(vector.entries()).map(([term, value]) => [term, value / length]));
+}
+
+function cosine(a: Vector, b: Vector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((value, term) => {
+    dot += value * (large.get(term) ?? 0);
+  });
+  return dot;
+}
+
+function sharedTerms(a: Vector, b: Vector): string[] {
+  return Array.from(a.entries())
+    .filter(([term]) => b.has(term))
+    .map(([term, value]) => [term, value * (b.get(term) as number)] as const)
+    .sort((x, y) => y[1] - x[1] || x[0].localeCompare(y[0]))
+    .slice(0, SHARED_TERMS_SHOWN)
+    .map(([term]) => term);
+}
+
+// Ratings above 2 pull recommendations towards a paper, lower ones away.
+export function preferenceWeight(paper: Paper): number {
+  const rating = ((paper.userRating ?? UNRATED_RATING) - 2) / 3;
+  return rating * SHELF_WEIGHTS[paper.readingStatus ?? 'none'];
+}
+
+export function recommendationText(paper: Paper): RecommendationText {
+  return { id: paper.id, arxivId: paper.arxivId, title: paper.title, abstract: paper.abstract };
+}
+
+// TF-IDF over titles and abstracts of the library and candidate papers.
+// Everything is computed locally, and ties are broken by id, so the same
+// inputs always give the same ranking.
+export function buildRecommendationModel(
+  library: RecommendationText[],
+  candidates: ArxivPaper[]
+): RecommendationModel {
+  const libraryArxivIds = new Set(library.map(paper => paper.arxivId).filter(Boolean));
+  const raw = [
+    ...library.map(paper => ({
+      id: paper.id,
+      source: { kind: 'library', paperId: paper.id } as DocumentSource,
+      counts: termCounts(paper.title, paper.abstract)
+    })),
+    ...candidates
+      .filter(paper => !libraryArxivIds.has(paper.id))
+      .map(paper => ({
+        id: `arxiv:${paper.id}`,
+        source: { kind: 'arxiv', paper } as DocumentSource,
+        counts: termCounts(paper.title, paper.summary)
+      }))
+  ];
+
+  const documentFrequency = new Map<string, number>();
+  raw.forEach(doc => doc.counts.forEach((_, term) => {
+    documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }));
+
+  const documents: Document[] = raw.map(doc => ({
+    id: doc.id,
+    source: doc.source,
+    vector: normalize(new Map(Array.from(doc.counts.entries()).map(([term, count]) => [
+      term,
+      (1 + Math.log(count)) * Math.log(1 + raw.length / (documentFrequency.get(term) as number))
+    ])))
+  }));
+
+  return {
+    library: documents.filter(doc => doc.source.kind === 'library'),
+    candidates: documents.filter(doc => doc.source.kind === 'arxiv')
+  };
+}
+
+// Null for library papers removed since the model was built.
+function recommendable(source: DocumentSource, papersById: Map<string, Paper>): Recommendable | null {
+  if (source.kind === 'arxiv') return source;
+  const paper = papersById.get(source.paperId);
+  return paper ? { kind: 'library', paper } : null;
+}
+
+function rank(
+  query: Vector,
+  documents: Document[],
+  papersById: Map<string, Paper>,
+  limit: number
+): Recommendation[] {
+  return documents
+    .map(doc => ({ doc, score: cosine(query, doc.vector) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.doc.id.localeCompare(b.doc.id))
+    .flatMap(({ doc, score }) => {
+      const item = recommendable(doc.source, papersById);
+      return item ? [{ item, score, sharedTerms: sharedTerms(query, doc.vector) }] : [];
+    })
+    .slice(0, limit);
+}
+
+// `papers` is the current library; the model may be older than it, since it
+// is only rebuilt when the library's text changes.
+export function relatedPapers(
+  model: RecommendationModel,
+  papers: Paper[],
+  paperId: string,
+  limit: number
+): Recommendation[] {
+  const target = model.library.find(doc => doc.id === paperId);
+  if (!target) return [];
+
+  const others = [...model.library.filter(doc => doc.id !== paperId), ...model.candidates];
+  return rank(target.vector, others, new Map(papers.map(paper => [paper.id, paper])), limit);
+}
+
+// `papers` also supplies the ratings and shelves the profile is weighted by.
+export function recommendedForLibrary(
+  model: RecommendationModel,
+  papers: Paper[],
+  limit: number
+): Recommendation[] {
+  const papersById = new Map(papers.map(paper => [paper.id, paper]));
+  const profile: Vector = new Map();
+  model.library.forEach(doc => {
+    const paper = papersById.get(doc.id);
+    const weight = paper ? preferenceWeight(paper) : 0;
+    doc.vector.forEach((value, term) => {
+      profile.set(term, (profile.get(term) ?? 0) + weight * value);
+    });
+  });
+  // Terms only found in disliked papers shouldn't count as interests.
+  profile.forEach((value, term) => {
+    if (value <= 0) profile.delete(term);
+  });
+
+  return rank(normalize(profile), model.candidates, papersById, limit);
+}
+
+// The strongest terms of a paper, for looking up more candidates on arXiv.
+export function topTerms(model: RecommendationModel, paperId: string, count: number): string[] {
+  const doc = model.library.find(candidate => candidate.id === paperId);
+  if (!doc) return [];
+
+  return Array.from(doc.vector.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([term]) => term);
+}
+
+// Looks for papers sharing any of `terms`; the local scorer then decides
+// which of the results are actually related.
+export function relatedArxivQuery(terms: string[]): ArxivQuery {
+  return {
+    terms: terms.map(term => ({ ...createArxivQueryTerm('all', term), operator: 'OR' })),
+    submittedFrom: '',
+    submittedTo: '',
+    sortBy: 'relevance',
+    sortOrder: 'descending'
+  };
+}
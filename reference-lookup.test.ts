@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { createPaper } from './paper-factory';
+import {
+  FixtureReferenceLookup,
+  MAX_REFERENCE_LOOKUPS,
+  applyReferenceLookup,
+  lookUpReferences,
+  needsReferenceLookup
+} from './reference-lookup';
+import type { ReferenceLookupProvider } from './reference-lookup';
+import { parseReference } from './references';
+import type { Paper, PaperReference } from './types';
+
+const EXTRACTED_AT = '2024-06-01T00:00:00.000Z';
+const LOOKED_UP_AT = '2024-06-01T00:05:00.000Z';
+
+const provider = new FixtureReferenceLookup({
+  'Attention is all you need': { arxivId: '1706.03762', doi: '10.48550/arxiv.1706.03762' },
+  'Deep residual learning for image recognition': { arxivId: null, doi: '10.1109/cvpr.2016.90' }
+});
+
+const ATTENTION = parseReference(
+  'A. Vaswani, N. Shazeer, N. Parmar, et al. Attention is all you need. In NeurIPS, pages 5998–6008, 2017.'
+);
+const RESNET = parseReference(
+  'K. He, X. Zhang, S. Ren, and J. Sun. Deep residual learning for image recognition. In CVPR, 2016.'
+);
+const UNKNOWN = parseReference('J. Doe. An obscure workshop paper nobody indexed. Tech report, 1999.');
+const LINKED = parseReference('Y. LeCun, Y. Bengio, G. Hinton. Deep learning. Nature, 2015. doi:10.1038/nature14539');
+
+function paper(overrides: Partial<Paper> = {}): Paper {
+  return createPaper({
+    id: 'p1',
+    title: 'Citing Paper',
+    authors: ['A. Author'],
+    abstract: '',
+    publicationDate: '2024-01-01',
+    journal: 'arXiv preprint',
+    doi: '',
+    pdfUrl: null,
+    arxivId: null,
+    references: [ATTENTION, RESNET],
+    referencesExtractedAt: EXTRACTED_AT,
+    ...overrides
+  });
+}
+
+describe('lookUpReferences', () => {
+  it('fills in identifiers for entries printed without them', async () => {
+    const references = await lookUpReferences([ATTENTION, RESNET, UNKNOWN], provider);
+
+    expect(references).toEqual([
+      { ...ATTENTION, arxivId: '1706.03762', doi: '10.48550/arxiv.1706.03762' },
+      { ...RESNET, doi: '10.1109/cvpr.2016.90' },
+      UNKNOWN
+    ]);
+  });
+
+  it('leaves entries that already carry an identifier alone', async () => {
+    const asked: PaperReference[] = [];
+    const recording: ReferenceLookupProvider = {
+      name: 'Recording',
+      resolve: async reference => {
+        asked.push(reference);
+        return null;
+      }
+    };
+
+    expect(await lookUpReferences([LINKED, UNKNOWN], recording)).toEqual([LINKED, UNKNOWN]);
+    expect(asked).toEqual([UNKNOWN]);
+  });
+
+  it('only matches titles printed in full', async () => {
+    const partial = parseReference('A. Vaswani. Attention is all you want. 2017.');
+
+    expect(await lookUpReferences([partial], provider)).toEqual([partial]);
+  });
+
+  it('stops after the lookup limit', async () => {
+    const references = Array.from({ length: MAX_REFERENCE_LOOKUPS + 5 }, () => ATTENTION);
+    const resolved = await lookUpReferences(references, provider);
+
+    expect(resolved.filter(reference => reference.arxivId)).toHaveLength(MAX_REFERENCE_LOOKUPS);
+  });
+
+  it('passes provider failures on', async () => {
+    const failing: ReferenceLookupProvider = {
+      name: 'Failing',
+      resolve: async () => {
+        throw new Error('rate limited');
+      }
+    };
+
+    await expect(lookUpReferences([ATTENTION], failing)).rejects.toThrow('rate limited');
+  });
+});
+
+describe('needsReferenceLookup', () => {
+  it('is due once references are extracted and until they are looked up', () => {
+    expect(needsReferenceLookup(paper({ referencesExtractedAt: null }))).toBe(false);
+    expect(needsReferenceLookup(paper())).toBe(true);
+    expect(needsReferenceLookup(paper({ referencesLookedUpAt: LOOKED_UP_AT }))).toBe(false);
+  });
+});
+
+describe('applyReferenceLookup', () => {
+  it('stores the resolved references', async () => {
+    const original = paper();
+    const references = await lookUpReferences(original.references, provider);
+    const updated = applyReferenceLookup(original, EXTRACTED_AT, references, LOOKED_UP_AT);
+
+    expect(updated.references.map(reference => reference.doi)).toEqual([
+      '10.48550/arxiv.1706.03762',
+      '10.1109/cvpr.2016.90'
+    ]);
+    expect(updated.referencesLookedUpAt).toBe(LOOKED_UP_AT);
+  });
+
+  it('ignores results for a reference list that has since been read again', () => {
+    const reread = paper({ referencesExtractedAt: '2024-06-02T00:00:00.000Z' });
+
+    expect(applyReferenceLookup(reread, EXTRACTED_AT, [], LOOKED_UP_AT)).toBe(reread);
+  });
+});
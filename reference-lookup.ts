@@ -0,0 +1,111 @@
+import { proxyRequest } from './proxy-client';
+import { normalizeDoi, parseReference } from './references';
+import type { Paper, PaperReference } from './types';
+
+export type ReferenceMatch = Pick<PaperReference, 'arxivId' | 'doi'>;
+
+export interface ReferenceLookupProvider {
+  name: string;
+  // Resolves to null when no work clearly matches the entry.
+  resolve(reference: PaperReference, signal?: AbortSignal): Promise<ReferenceMatch | null>;
+}
+
+// Crossref is asked one entry at a time, so very long lists are only looked
+// up in part.
+export const MAX_REFERENCE_LOOKUPS = 100;
+
+function titleWords(text: string): string {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).join(' ');
+}
+
+// Search results are ranked, not matched, so a hit only counts if its full
+// title is printed in the entry.
+function mentionsTitle(text: string, title: string): boolean {
+  const words = titleWords(title);
+  return words.split(' ').length >= 3 && ` ${titleWords(text)} `.includes(` ${words} `);
+}
+
+function isUnlinked(reference: PaperReference): boolean {
+  return !reference.arxivId && !reference.doi;
+}
+
+export class CrossrefReferenceLookup implements ReferenceLookupProvider {
+  readonly name = 'Crossref';
+
+  async resolve(reference: PaperReference, signal?: AbortSignal): Promise<ReferenceMatch | null> {
+    const response = await proxyRequest({
+      protocol: 'https',
+      origin: 'api.crossref.org',
+      path: '/works',
+      method: 'GET',
+      params: {
+        'query.bibliographic': reference.text,
+        rows: 3,
+        select: 'DOI,title'
+      }
+    }, signal);
+    const body: { message: { items: { DOI: string; title?: string[] }[] } } = await response.json();
+
+    const match = body.message.items.find(item => mentionsTitle(reference.text, item.title?.[0] ?? ''));
+    // An arXiv DOI carries the arXiv id as well.
+    return match ? { arxivId: parseReference(match.DOI).arxivId, doi: normalizeDoi(match.DOI) } : null;
+  }
+}
+
+// Offline stand-in keyed by title.
+export class FixtureReferenceLookup implements ReferenceLookupProvider {
+  readonly name = 'Fixtures';
+
+  constructor(private readonly fixtures: Record<string, ReferenceMatch>) {}
+
+  async resolve(reference: PaperReference): Promise<ReferenceMatch | null> {
+    const title = Object.keys(this.fixtures).find(candidate => mentionsTitle(reference.text, candidate));
+    return title ? this.fixtures[title] : null;
+  }
+}
+
+const DEV_FIXTURES: Record<string, ReferenceMatch> = {
+  'Attention is all you need': { arxivId: '1706.03762', doi: '10.48550/arxiv.1706.03762' },
+  'Deep residual learning for image recognition': { arxivId: '1512.03385', doi: '10.1109/cvpr.2016.90' }
+};
+
+export function createReferenceLookupProvider(): ReferenceLookupProvider {
+  return process.env.NEXT_PUBLIC_ENRICHMENT_PROVIDER === 'fixtures'
+    ? new FixtureReferenceLookup(DEV_FIXTURES)
+    : new CrossrefReferenceLookup();
+}
+
+export function needsReferenceLookup(paper: Paper): boolean {
+  return paper.referencesExtractedAt !== null && paper.referencesLookedUpAt === null;
+}
+
+// Entries already carrying an arXiv id or DOI are left as they are. Failed
+// lookups are thrown, so the caller can retry the whole list later.
+export async function lookUpReferences(
+  references: PaperReference[],
+  provider: ReferenceLookupProvider,
+  signal?: AbortSignal
+): Promise<PaperReference[]> {
+  const resolved = [...references];
+  const unlinked = references
+    .map((reference, index) => ({ reference, index }))
+    .filter(({ reference }) => isUnlinked(reference))
+    .slice(0, MAX_REFERENCE_LOOKUPS);
+
+  for (const { reference, index } of unlinked) {
+    const match = await provider.resolve(reference, signal);
+    if (match) resolved[index] = { ...reference, ...match };
+  }
+  return resolved;
+}
+
+// Ignored if the reference list was read again while the lookup ran.
+export function applyReferenceLookup(
+  paper: Paper,
+  extractedAt: string,
+  references: PaperReference[],
+  lookedUpAt: string
+): Paper {
+  if (paper.referencesExtractedAt !== extractedAt) return paper;
+  return { ...paper, references, referencesLookedUpAt: lookedUpAt };
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { libraryPaperKeys, referenceKey, resolveReference } from './references';
+import type { Paper, PaperReference } from './types';
+
+interface ReferencesPanelProps {
+  references: PaperReference[];
+  extractedAt: string | null;
+  papers: Paper[];
+  addingKey: string | null;
+  error: string | null;
+  onOpenPaper: (paper: Paper) => void;
+  onAddReference: (reference: PaperReference) => void;
+}
+
+const INITIALLY_SHOWN = 15;
+
+export default function ReferencesPanel({
+  references,
+  extractedAt,
+  papers,
+  addingKey,
+  error,
+  onOpenPaper,
+  onAddReference
+}: ReferencesPanelProps): JSX.Element {
+  const [showAll, setShowAll] = useState<boolean>(false);
+
+  if (extractedAt === null) {
+    return <p className="text-gray-500 text-sm">References are read from the PDF once it has loaded</p>;
+  }
+  if (references.length === 0) {
+    return <p className="text-gray-500 text-sm">No reference list found in this PDF</p>;
+  }
+
+  const byKey = libraryPaperKeys(papers);
+  const resolved = references.map(reference => ({ reference, paper: resolveReference(reference, byKey) }));
+  const inLibrary = resolved.filter(entry => entry.paper).length;
+  const shown = showAll ? resolved : resolved.slice(0, INITIALLY_SHOWN);
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">
+        {references.length} references • {inLibrary} in your library
+      </p>
+      {error && <p className="mb-2 text-xs text-red-700">{error}</p>}
+      <ol className="space-y-3">
+        {shown.map(({ reference, paper }, index) => {
+          const key = referenceKey(reference);
+          return (
+            <li key={index} className="text-xs">
+              <p className="text-gray-700 line-clamp-3" title={reference.text}>{reference.text}</p>
+              <div className="mt-1 flex items-center gap-3">
+                {paper ? (
+                  <button onClick={() => onOpenPaper(paper)} className="text-[#1B3A33] hover:underline">
+                    In your library
+                  </button>
+                ) : key && (
+                  <button
+                    onClick={() => onAddReference(reference)}
+                    disabled={addingKey !== null}
+                    className="text-[#1B3A33] hover:underline disabled:opacity-50"
+                  >
+                    {addingKey === key ? 'Adding...' : 'Add to library'}
+                  </button>
+                )}
+                {reference.arxivId && <span className="text-gray-500">arXiv:{reference.arxivId}</span>}
+                {!reference.arxivId && reference.doi && (
+                  <a
+                    href={`https://doi.org/${reference.doi}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-gray-500 hover:underline truncate"
+                  >
+                    {reference.doi}
+                  </a>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      {resolved.length > INITIALLY_SHOWN && (
+        <button
+          onClick={() => setShowAll(prev => !prev)}
+          className="mt-3 text-sm text-[#1B3A33] hover:underline"
+        >
+          {showAll ? 'Show fewer' : `Show all ${resolved.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
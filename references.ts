@@ -0,0 +1,143 @@
+import type { Paper, PaperReference } from './types';
+
+const REFERENCES_HEADING = /^\s*(?:\d+\.?\s*)?(?:references|bibliography|literature cited|works cited)\s*$/gim;
+// Anything after the reference list that isn't part of it.
+const TRAILING_SECTION = /^\s*(?:[A-Z]\.?\s+)?(?:appendix|appendices|supplementary material)\b/im;
+const BRACKET_MARKER = /^\s*\[\d{1,3}\]\s*/;
+const NUMBER_MARKER = /^\s*\d{1,3}\.\s+/;
+
+const MAX_REFERENCES = 500;
+const MAX_REFERENCE_LENGTH = 1000;
+
+const ARXIV_NEW_ID = /(?:arxiv\s*:?\s*|arxiv\.org\/(?:abs|pdf)\/)(\d{4}\.\d{4,5})(?:v\d+)?/i;
+// Old-style ids name their archive, so they are recognisable without a prefix.
+const ARXIV_OLD_ID = /\b((?:astro-ph|cond-mat|gr-qc|hep-ex|hep-lat|hep-ph|hep-th|math-ph|nlin|nucl-ex|nucl-th|physics|quant-ph|math|cs|q-bio)(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?/i;
+const ARXIV_DOI = /^10\.48550\/arxiv\.(.+)$/i;
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+)/i;
+
+// Drops the version suffix and case so ids from PDFs and from arXiv compare equal.
+export function normalizeArxivId(id: string): string {
+  return id.trim().toLowerCase().replace(/v\d+$/, '');
+}
+
+export function normalizeDoi(doi: string): string {
+  return doi.trim().toLowerCase().replace(/^https?:\/\/(?:dx\.)?doi\.org\//, '');
+}
+
+function findDoi(text: string): string | null {
+  const match = text.match(DOI);
+  // Sentence punctuation and closing brackets often stick to the end of a DOI.
+  return match ? normalizeDoi(match[1].replace(/[.,;:)\]}]+$/, '')) : null;
+}
+
+function findArxivId(text: string, doi: string | null): string | null {
+  const match = text.match(ARXIV_NEW_ID) ?? text.match(ARXIV_OLD_ID);
+  if (match) return normalizeArxivId(match[1]);
+
+  const arxivDoi = doi?.match(ARXIV_DOI);
+  return arxivDoi ? normalizeArxivId(arxivDoi[1]) : null;
+}
+
+export function parseReference(text: string): PaperReference {
+  const doi = findDoi(text);
+  return { text, arxivId: findArxivId(text, doi), doi };
+}
+
+// Text following the last "References" heading, up to any appendix.
+function referenceSection(fullText: string): string | null {
+  let start = -1;
+  for (const match of fullText.matchAll(REFERENCES_HEADING)) {
+    start = (match.index ?? 0) + match[0].length;
+  }
+  if (start === -1) return null;
+
+  const section = fullText.slice(start);
+  const end = section.search(TRAILING_SECTION);
+  return end === -1 ? section : section.slice(0, end);
+}
+
+function splitEntries(lines: string[]): string[][] {
+  const marker = [BRACKET_MARKER, NUMBER_MARKER].find(
+    pattern => lines.filter(line => pattern.test(line)).length >= 3
+  );
+  const entries: string[][] = [];
+
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    // Without numbering, an entry ends with a full stop and the next one
+    // starts with an author's name.
+    const startsEntry = marker
+      ? marker.test(line)
+      : index === 0 || (/\.$/.test(previous) && /^\p{Lu}/u.test(line));
+
+    if (startsEntry || entries.length === 0) {
+      entries.push([marker ? line.replace(marker, '') : line]);
+    } else {
+      entries[entries.length - 1].push(line);
+    }
+  });
+  return entries;
+}
+
+function joinLines(lines: string[]): string {
+  return lines.reduce((text, line) => {
+    // URLs and DOIs broken across lines shouldn't gain a space.
+    const lastToken = text.slice(text.lastIndexOf(' ') + 1);
+    if (/^(?:https?:|doi:|10\.\d|arxiv\.org)/i.test(lastToken) && /[/.\-_]$/.test(lastToken)) {
+      return text + line;
+    }
+    return text ? `${text} ${line}` : line;
+  }, '');
+}
+
+// Reads the reference list from a paper's extracted text. Returns an empty
+// list when no references section can be found.
+export function extractReferences(fullText: string): PaperReference[] {
+  const section = referenceSection(fullText);
+  if (!section) return [];
+
+  // Bare numbers are page numbers from headers and footers.
+  const lines = section
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line && !/^\d+$/.test(line));
+  return splitEntries(lines)
+    .map(joinLines)
+    .filter(text => text.length >= 20 && text.length <= MAX_REFERENCE_LENGTH)
+    .slice(0, MAX_REFERENCES)
+    .map(parseReference);
+}
+
+// A key shared by every reference to the same work, preferring the arXiv id.
+export function referenceKey(reference: Pick<PaperReference, 'arxivId' | 'doi'>): string | null {
+  if (reference.arxivId) return `arxiv:${reference.arxivId}`;
+  if (reference.doi) return `doi:${reference.doi}`;
+  return null;
+}
+
+// Looks up library papers by every key a reference might use for them.
+export function libraryPaperKeys<T extends Pick<Paper, 'arxivId' | 'doi'>>(papers: T[]): Map<string, T> {
+  const byKey = new Map<string, T>();
+  papers.forEach(paper => {
+    if (paper.arxivId) byKey.set(`arxiv:${normalizeArxivId(paper.arxivId)}`, paper);
+    if (paper.doi) {
+      const doi = normalizeDoi(paper.doi);
+      byKey.set(`doi:${doi}`, paper);
+      const arxivDoi = doi.match(ARXIV_DOI);
+      if (arxivDoi) byKey.set(`arxiv:${normalizeArxivId(arxivDoi[1])}`, paper);
+    }
+  });
+  return byKey;
+}
+
+export function resolveReference<T>(reference: PaperReference, byKey: Map<string, T>): T | null {
+  const keys = [
+    reference.arxivId && `arxiv:${reference.arxivId}`,
+    reference.doi && `doi:${reference.doi}`
+  ];
+  for (const key of keys) {
+    const paper = key ? byKey.get(key) : undefined;
+    if (paper) return paper;
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import type { Recommendation } from './recommendations';
+import type { ArxivPaper, Paper } from './types';
+
+interface RelatedPapersProps {
+  recommendations: Recommendation[];
+  emptyMessage: string;
+  onOpenPaper: (paper: Paper) => void;
+  onAddPaper: (paper: ArxivPaper) => void;
+}
+
+export default function RelatedPapers({
+  recommendations,
+  emptyMessage,
+  onOpenPaper,
+  onAddPaper
+}: RelatedPapersProps): JSX.Element {
+  if (recommendations.length === 0) {
+    return <p className="text-gray-500 text-sm">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {recommendations.map(({ item, sharedTerms }) => (
+        <li key={`${item.kind}:${item.paper.id}`} className="text-sm">
+          <div className="flex items-start gap-2">
+            {item.kind === 'library' ? (
+              <button
+                onClick={() => onOpenPaper(item.paper)}
+                className="min-w-0 text-left font-medium text-[#1B3A33] hover:underline"
+              >
+                {item.paper.title}
+              </button>
+            ) : (
+              <>
+                <a
+                  href={`https://arxiv.org/abs/${item.paper.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="min-w-0 font-medium text-[#1B3A33] hover:underline"
+                >
+                  {item.paper.title}
+                </a>
+                <button
+                  onClick={() => onAddPaper(item.paper)}
+                  className="ml-auto flex-shrink-0 px-2 py-0.5 text-xs bg-[#1B3A33] text-white rounded hover:bg-[#152E28]"
+                >
+                  Add
+                </button>
+              </>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {item.kind === 'library' ? 'In your library' : 'arXiv'}
+            {sharedTerms.length > 0 && ` • ${sharedTerms.join(', ')}`}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
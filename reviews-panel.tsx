@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { sortReviewsByHelpfulness } from './community-ratings';
+import type { Review, UserProfile } from './types';
+
+export type ReviewDraft = Pick<Review, 'text' | 'rating'>;
+
+interface ReviewsPanelProps {
+  reviews: Review[];
+  currentUser: UserProfile | null;
+  onAdd: (review: ReviewDraft) => void;
+  onUpdate: (reviewId: string, changes: ReviewDraft) => void;
+  onDelete: (reviewId: string) => void;
+  onToggleHelpful: (reviewId: string) => void;
+}
+
+interface ReviewFormProps {
+  initial: ReviewDraft;
+  submitLabel: string;
+  onSubmit: (review: ReviewDraft) => void;
+  onCancel: () => void;
+}
+
+function ReviewForm({ initial, submitLabel, onSubmit, onCancel }: ReviewFormProps): JSX.Element {
+  const [text, setText] = useState<string>(initial.text);
+  const [rating, setRating] = useState<number>(initial.rating);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-center gap-1">
+        {[1, 2, 3, 4, 5].map((star) => (
+          <button
+            key={star}
+            onClick={() => setRating(star)}
+            className={`text-2xl ${
+              star <= rating
+                ? 'text-[#FF9900]'
+                : 'text-gray-300'
+            }`}
+            aria-label={`Rate ${star} stars`}
+          >
+            {'★'}
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Write your review..."
+        className="w-full p-2 border border-gray-300 rounded resize-none focus:ring-2 focus:ring-[#1B3A33] focus:border-[#1B3A33]"
+        rows={4}
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSubmit({ text, rating })}
+          disabled={!text.trim()}
+          className="flex-1 px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28] disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function ReviewsPanel({
+  reviews,
+  currentUser,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onToggleHelpful
+}: ReviewsPanelProps): JSX.Element {
+  const [isWriting, setIsWriting] = useState<boolean>(false);
+  const [editingReviewId, setEditingReviewId] = useState<string | null>(null);
+  const hasReviewed = currentUser !== null && reviews.some(review => review.authorId === currentUser.id);
+
+  return (
+    <div>
+      <div className="space-y-4">
+        {sortReviewsByHelpfulness(reviews).map((review) => {
+          const isOwn = currentUser !== null && review.authorId === currentUser.id;
+          const votedHelpful = currentUser !== null && review.helpfulVoterIds.includes(currentUser.id);
+          const helpfulCount = review.helpfulVoterIds.length;
+
+          if (isOwn && editingReviewId === review.id) {
+            return (
+              <div key={review.id} className="bg-blue-50 p-3 rounded">
+                <ReviewForm
+                  initial={review}
+                  submitLabel="Save"
+                  onSubmit={(changes) => {
+                    onUpdate(review.id, changes);
+                    setEditingReviewId(null);
+                  }}
+                  onCancel={() => setEditingReviewId(null)}
+                />
+              </div>
+            );
+          }
+
+          return (
+            <div key={review.id} className="bg-blue-50 p-3 rounded">
+              <div className="flex items-center gap-2 mb-2">
+                <div className="flex">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <span
+                      key={star}
+                      className={`text-lg ${
+                        star <= review.rating
+                          ? 'text-[#FF9900]'
+                          : 'text-gray-300'
+                      }`}
+                    >
+                      {'★'}
+                    </span>
+                  ))}
+                </div>
+                <span className="text-sm text-gray-600">
+                  by {review.userName}
+                </span>
+              </div>
+              <p className="text-sm">{review.text}</p>
+              <div className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+                <span>{new Date(review.timestamp).toLocaleDateString()}</span>
+                {review.editedAt && (
+                  <span title={`Edited ${new Date(review.editedAt).toLocaleString()}`}>(edited)</span>
+                )}
+                {currentUser && !isOwn ? (
+                  <button
+                    onClick={() => onToggleHelpful(review.id)}
+                    aria-pressed={votedHelpful}
+                    className={`ml-auto hover:text-gray-900 ${votedHelpful ? 'text-[#1B3A33] font-medium' : ''}`}
+                  >
+                    Helpful{helpfulCount > 0 && ` (${helpfulCount})`}
+                  </button>
+                ) : helpfulCount > 0 && (
+                  <span className={isOwn ? '' : 'ml-auto'}>
+                    {helpfulCount} found this helpful
+                  </span>
+                )}
+                {isOwn && (
+                  <span className="ml-auto flex gap-2">
+                    <button onClick={() => setEditingReviewId(review.id)} className="hover:text-gray-900">
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm('Delete your review?')) onDelete(review.id);
+                      }}
+                      className="hover:text-red-700"
+                    >
+                      Delete
+                    </button>
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {!currentUser ? (
+        <p className="mt-4 text-sm text-gray-500">Sign in to write a review</p>
+      ) : hasReviewed ? null : isWriting ? (
+        <div className="mt-4">
+          <ReviewForm
+            initial={{ text: '', rating: 5 }}
+            submitLabel="Post Review"
+            onSubmit={(review) => {
+              onAdd(review);
+              setIsWriting(false);
+            }}
+            onCancel={() => setIsWriting(false)}
+          />
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsWriting(true)}
+          className="mt-4 w-full px-4 py-2 bg-[#1B3A33] text-white rounded hover:bg-[#152E28]"
+        >
+          Write a Review
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { fullTextPages } from './pdf-outline';
+import type { Paper } from './types';
+
+export type SearchField = 'title' | 'authors' | 'abstract' | 'note' | 'highlight' | 'review' | 'comment' | 'fullText';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  authors: 4,
+  note: 3,
+  highlight: 3,
+  abstract: 2,
+  review: 1.5,
+  comment: 1,
+  fullText: 1
+};
+
+export const FIELD_LABELS: Record<SearchField, string> = {
+  title: 'Title',
+  authors: 'Authors',
+  abstract: 'Abstract',
+  note: 'Note',
+  highlight: 'Highlight',
+  review: 'Review',
+  comment: 'Comment',
+  fullText: 'PDF text'
+};
+
+// Prefix matches count for less than whole-word matches.
+const PREFIX_MATCH_WEIGHT = 0.5;
+const SNIPPET_RADIUS = 60;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'with']);
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedSource {
+  paperId: string;
+  field: SearchField;
+  text: string;
+  pageNumber?: number;
+}
+
+// The text search looks at in one paper, apart from its PDF.
+export interface SearchableText {
+  paperId: string;
+  sources: IndexedSource[];
+}
+
+interface Posting {
+  sourceIndex: number;
+  count: number;
+}
+
+export interface SearchIndex {
+  sources: IndexedSource[];
+  postings: Map<string, Posting[]>;
+  // Sorted, for prefix lookups.
+  terms: string[];
+  paperCount: number;
+}
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  // [start, end) character ranges within `text` to emphasise.
+  highlights: [number, number][];
+  pageNumber?: number;
+}
+
+export interface SearchResult {
+  paperId: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+function normalize(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// Words are matched on the original text and normalised one at a time, so
+// token offsets always point back into the text that is shown in snippets.
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ term: normalize(match[0]), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+// Normalised terms of `text` without stop words, for other text models.
+export function indexTerms(text: string): string[] {
+  return tokenize(text).map(token => token.term).filter(term => !STOP_WORDS.has(term));
+}
+
+export function searchableText(paper: Paper): SearchableText {
+  const sources: IndexedSource[] = [
+    { paperId: paper.id, field: 'title', text: paper.title },
+    { paperId: paper.id, field: 'authors', text: paper.authors.join(', ') },
+    { paperId: paper.id, field: 'abstract', text: paper.abstract },
+    ...paper.notes.map(note => ({
+      paperId: paper.id, field: 'note' as const, text: note.text, pageNumber: note.pageNumber
+    })),
+    ...paper.annotations.map(annotation => ({
+      paperId: paper.id, field: 'highlight' as const, text: annotation.text, pageNumber: annotation.pageNumber
+    })),
+    ...paper.reviews.map(review => ({ paperId: paper.id, field: 'review' as const, text: review.text })),
+    ...paper.comments.map(comment => ({ paperId: paper.id, field: 'comment' as const, text: comment.text }))
+  ];
+  return { paperId: paper.id, sources: sources.filter(source => source.text.trim()) };
+}
+
+// PDF text is indexed page by page, so a match can open the page it is on.
+function fullTextSources(paperId: string, fullText: string | undefined): IndexedSource[] {
+  if (!fullText) return [];
+  return fullTextPages(fullText)
+    .map((text, index) => ({ paperId, field: 'fullText' as const, text, pageNumber: index + 1 }))
+    .filter(source => source.text.trim());
+}
+
+export function buildSearchIndex(library: SearchableText[], fullTexts: Record<string, string>): SearchIndex {
+  const sources: IndexedSource[] = [];
+  const postings = new Map<string, Posting[]>();
+
+  library.forEach(paper => {
+    [...paper.sources, ...fullTextSources(paper.paperId, fullTexts[paper.paperId])].forEach(source => {
+      const termCounts = new Map<string, number>();
+      tokenize(source.text).forEach(token => {
+        termCounts.set(token.term, (termCounts.get(token.term) ?? 0) + 1);
+      });
+
+      const sourceIndex = sources.length;
+      sources.push(source);
+      termCounts.forEach((count, term) => {
+        const list = postings.get(term);
+        if (list) {
+          list.push({ sourceIndex, count });
+        } else {
+          postings.set(term, [{ sourceIndex, count }]);
+        }
+      });
+    });
+  });
+
+  return {
+    sources,
+    postings,
+    terms: Array.from(postings.keys()).sort(),
+    paperCount: library.length
+  };
+}
+
+function termsWithPrefix(index: SearchIndex, prefix: string): string[] {
+  let low = 0;
+  let high = index.terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.terms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < index.terms.length && index.terms[i].startsWith(prefix); i++) {
+    matches.push(index.terms[i]);
+  }
+  return matches;
+}
+
+function queryTerms(query: string): string[] {
+  const terms = Array.from(new Set(tokenize(query).map(token => token.term)));
+  const meaningful = terms.filter(term => !STOP_WORDS.has(term));
+  return meaningful.length > 0 ? meaningful : terms;
+}
+
+function buildSnippet(source: IndexedSource, terms: string[]): SearchSnippet {
+  const matches = tokenize(source.text)
+    .filter(token => terms.some(term => token.term.startsWith(term)));
+  const first = matches[0];
+  const start = first && source.text.length > SNIPPET_RADIUS * 2
+    ? Math.max(0, first.start - SNIPPET_RADIUS)
+    : 0;
+  const end = Math.min(source.text.length, start + SNIPPET_RADIUS * 3);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < source.text.length ? '…' : '';
+  const highlights = matches
+    .filter(token => token.start >= start && token.end <= end)
+    .map(token => [token.start - start + prefix.length, token.end - start + prefix.length] as [number, number]);
+
+  return {
+    field: source.field,
+    text: `${prefix}${source.text.slice(start, end)}${suffix}`,
+    highlights,
+    pageNumber: source.pageNumber
+  };
+}
+
+export function searchLibrary(index: SearchIndex, query: string, maxSnippets = 2): SearchResult[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  // paperId -> per-term score, so every query term must match somewhere.
+  const paperScores = new Map<string, number[]>();
+  const sourceScores = new Map<number, number>();
+  const addPaperScore = (paperId: string, termIndex: number, score: number): void => {
+    const scores = paperScores.get(paperId) ?? new Array<number>(terms.length).fill(0);
+    scores[termIndex] += score;
+    paperScores.set(paperId, scores);
+  };
+
+  terms.forEach((queryTerm, termIndex) => {
+    termsWithPrefix(index, queryTerm).forEach(term => {
+      const postings = index.postings.get(term) ?? [];
+      const papersWithTerm = new Set(postings.map(posting => index.sources[posting.sourceIndex].paperId));
+      const idf = Math.log(1 + index.paperCount / papersWithTerm.size);
+      const matchWeight = term === queryTerm ? 1 : PREFIX_MATCH_WEIGHT;
+      const score = (field: SearchField, count: number): number =>
+        FIELD_WEIGHTS[field] * matchWeight * idf * (1 + Math.log(count));
+      // PDF pages are scored together, as one text, so long papers don't
+      // outweigh the title and notes by matching on many pages.
+      const fullTextCounts = new Map<string, number>();
+
+      postings.forEach(posting => {
+        const source = index.sources[posting.sourceIndex];
+        const sourceScore = score(source.field, posting.count);
+        sourceScores.set(posting.sourceIndex, (sourceScores.get(posting.sourceIndex) ?? 0) + sourceScore);
+        if (source.field === 'fullText') {
+          fullTextCounts.set(source.paperId, (fullTextCounts.get(source.paperId) ?? 0) + posting.count);
+        } else {
+          addPaperScore(source.paperId, termIndex, sourceScore);
+        }
+      });
+      fullTextCounts.forEach((count, paperId) => addPaperScore(paperId, termIndex, score('fullText', count)));
+    });
+  });
+
+  const results: SearchResult[] = [];
+  paperScores.forEach((scores, paperId) => {
+    if (scores.some(score => score === 0)) return;
+
+    const snippets = Array.from(sourceScores.entries())
+      .filter(([sourceIndex]) => index.sources[sourceIndex].paperId === paperId)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, maxSnippets)
+      .map(([sourceIndex]) => buildSnippet(index.sources[sourceIndex], terms));
+
+    results.push({ paperId, score: scores.reduce((sum, score) => sum + score, 0), snippets });
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+}
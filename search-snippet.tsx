@@ -0,0 +1,49 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { FIELD_LABELS } from './search-index';
+import type { SearchSnippet as Snippet } from './search-index';
+
+interface SearchSnippetProps {
+  snippet: Snippet;
+  onGoToPage: (page: number) => void;
+}
+
+function highlightedText(snippet: Snippet): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  snippet.highlights.forEach(([start, end]) => {
+    if (start < cursor) return;
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-[#FF9900]/30 text-inherit rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor));
+
+  return parts;
+}
+
+export default function SearchSnippet({ snippet, onGoToPage }: SearchSnippetProps): JSX.Element {
+  const { pageNumber } = snippet;
+
+  return (
+    <p className="text-xs text-gray-600">
+      <span className="font-semibold text-[#1B3A33]">{FIELD_LABELS[snippet.field]}</span>
+      {pageNumber !== undefined && (
+        <>
+          {' '}
+          <button onClick={() => onGoToPage(pageNumber)} className="text-[#1B3A33] hover:underline">
+            (p. {pageNumber})
+          </button>
+        </>
+      )}
+      {': '}
+      {highlightedText(snippet)}
+    </p>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import { compileArxivQuery } from './arxiv-query';
+import { READING_STATUS_OPTIONS } from './organization';
+import { openInboxItems, unseenCounts } from './subscriptions';
+import type { InboxItem, Paper, Shelf, Subscription } from './types';
+
+export type InboxTarget =
+  | { kind: 'status'; status: NonNullable<Paper['readingStatus']> }
+  | { kind: 'shelf'; shelfId: string };
+
+interface SubscriptionInboxProps {
+  subscriptions: Subscription[];
+  inbox: InboxItem[];
+  shelves: Shelf[];
+  isChecking: boolean;
+  checkError: string | null;
+  onCheckNow: (subscriptionId: string) => void;
+  onDeleteSubscription: (subscriptionId: string) => void;
+  onAdd: (item: InboxItem, target: InboxTarget | null) => void;
+  onDismiss: (itemId: string) => void;
+  onMarkSeen: (itemIds: string[]) => void;
+}
+
+// Select values are `status:<status>` or `shelf:<shelf id>`.
+function parseTarget(value: string): InboxTarget | null {
+  const separator = value.indexOf(':');
+  const kind = value.slice(0, separator);
+  const id = value.slice(separator + 1);
+  if (kind === 'shelf') return { kind: 'shelf', shelfId: id };
+  const option = READING_STATUS_OPTIONS.find(candidate => candidate.value === id);
+  return kind === 'status' && option ? { kind: 'status', status: option.value } : null;
+}
+
+function InboxEntry({
+  item,
+  shelves,
+  onAdd,
+  onDismiss
+}: {
+  item: InboxItem;
+  shelves: Shelf[];
+  onAdd: (target: InboxTarget | null) => void;
+  onDismiss: () => void;
+}): JSX.Element {
+  const { paper } = item;
+
+  return (
+    <li className={`p-3 rounded border ${item.status === 'unseen' ? 'border-[#FF9900]/50 bg-[#FF9900]/5' : 'border-[#D6D0C4] bg-white'}`}>
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <a
+            href={`https://arxiv.org/abs/${paper.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-medium text-[#1B3A33] hover:underline"
+          >
+            {paper.title}
+          </a>
+          <p className="text-sm text-gray-600 mt-1 truncate">
+            {paper.authors.map(author => author.name).join(', ')}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            {paper.primaryCategory && `${paper.primaryCategory} • `}
+            {new Date(paper.published).toLocaleDateString()}
+          </p>
+          <p className="text-xs text-gray-600 mt-2 line-clamp-3">{paper.summary}</p>
+        </div>
+        <div className="flex flex-col items-end gap-2 flex-shrink-0">
+          <button
+            onClick={() => onAdd(null)}
+            className="px-2 py-0.5 text-xs bg-[#1B3A33] text-white rounded hover:bg-[#152E28]"
+          >
+            Add
+          </button>
+          <select
+            value=""
+            onChange={(e) => onAdd(parseTarget(e.target.value))}
+            className="p-1 text-xs border border-[#D6D0C4] rounded bg-white"
+            aria-label={`Add ${paper.title} to a shelf`}
+          >
+            <option value="" disabled>Add to shelf…</option>
+            {READING_STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={`status:${option.value}`}>{option.label}</option>
+            ))}
+            {shelves.map(shelf => (
+              <option key={shelf.id} value={`shelf:${shelf.id}`}>{shelf.name}</option>
+            ))}
+          </select>
+          <button onClick={onDismiss} className="text-xs text-gray-500 hover:text-[#1B3A33]">
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+export default function SubscriptionInbox({
+  subscriptions,
+  inbox,
+  shelves,
+  isChecking,
+  checkError,
+  onCheckNow,
+  onDeleteSubscription,
+  onAdd,
+  onDismiss,
+  onMarkSeen
+}: SubscriptionInboxProps): JSX.Element {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const counts = unseenCounts(inbox);
+  const totalUnseen = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  const selected = subscriptions.find(subscription => subscription.id === selectedId) ?? null;
+  const items = openInboxItems(inbox, selected?.id ?? null);
+  const unseenIds = items.filter(item => item.status === 'unseen').map(item => item.id);
+
+  if (subscriptions.length === 0) {
+    return (
+      <p className="text-gray-500 text-sm">
+        No subscriptions yet. Search arXiv and choose “Save search” to follow new submissions for a query.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex gap-8">
+      <aside className="w-64 flex-shrink-0">
+        <ul className="space-y-1 text-sm">
+          <li>
+            <button
+              onClick={() => setSelectedId(null)}
+              className={`w-full flex justify-between px-2 py-1 rounded ${
+                selected === null ? 'bg-[#1B3A33] text-white' : 'text-[#1B3A33] hover:bg-[#F4F1EA]'
+              }`}
+            >
+              <span>All subscriptions</span>
+              {totalUnseen > 0 && <span>{totalUnseen}</span>}
+            </button>
+          </li>
+          {subscriptions.map(subscription => (
+            <li key={subscription.id}>
+              <button
+                onClick={() => setSelectedId(subscription.id)}
+                title={compileArxivQuery(subscription.query)}
+                className={`w-full flex justify-between gap-2 px-2 py-1 rounded ${
+                  selected?.id === subscription.id ? 'bg-[#1B3A33] text-white' : 'text-[#1B3A33] hover:bg-[#F4F1EA]'
+                }`}
+              >
+                <span className="truncate">{subscription.name}</span>
+                {(counts.get(subscription.id) ?? 0) > 0 && <span>{counts.get(subscription.id)}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {isChecking && <p className="text-xs text-gray-500 mt-3">Checking for new papers…</p>}
+        {checkError && <p className="text-xs text-red-700 mt-3">{checkError}</p>}
+      </aside>
+
+      <section className="flex-1 min-w-0">
+        <div className="flex items-center gap-4 mb-4 text-sm">
+          {selected ? (
+            <div className="flex-1 min-w-0">
+              <h2 className="font-semibold text-[#1B3A33]">{selected.name}</h2>
+              <p className="text-xs text-gray-500 truncate">
+                {compileArxivQuery(selected.query)}
+                {` • last checked ${selected.lastCheckedAt ? new Date(selected.lastCheckedAt).toLocaleString() : 'never'}`}
+              </p>
+            </div>
+          ) : (
+            <h2 className="flex-1 font-semibold text-[#1B3A33]">New papers</h2>
+          )}
+          {unseenIds.length > 0 && (
+            <button onClick={() => onMarkSeen(unseenIds)} className="text-[#1B3A33] hover:underline">
+              Mark all as seen
+            </button>
+          )}
+          {selected && (
+            <>
+              <button
+                onClick={() => onCheckNow(selected.id)}
+                disabled={isChecking}
+                className="text-[#1B3A33] hover:underline disabled:opacity-50"
+              >
+                Check now
+              </button>
+              <button
+                onClick={() => onDeleteSubscription(selected.id)}
+                className="text-red-700 hover:underline"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+
+        {items.length === 0 ? (
+          <p className="text-gray-500 text-sm">Nothing new. Papers submitted after the last check will show up here.</p>
+        ) : (
+          <ul className="space-y-3">
+            {items.map(item => (
+              <InboxEntry
+                key={item.id}
+                item={item}
+                shelves={shelves}
+                onAdd={(target) => onAdd(item, target)}
+                onDismiss={() => onDismiss(item.id)}
+              />
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import type { ArxivQuery } from './arxiv-query';
+import { createId } from './ids';
+import type { InboxItem, Subscription } from './types';
+
+export const SUBSCRIPTION_POLL_INTERVAL_MS = 60 * 60 * 1000;
+// A new subscription starts with the past week's submissions.
+const INITIAL_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+// arXiv announces papers hours to days after their `published` time, so each
+// check looks back past the previous one. Papers seen twice are already in the
+// inbox and are skipped there.
+const ANNOUNCEMENT_OVERLAP_MS = 3 * 24 * 60 * 60 * 1000;
+// Added and dismissed papers are remembered this long; by then they are too
+// old to come back in a feed.
+const HANDLED_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export function createSubscription(name: string, query: ArxivQuery): Subscription {
+  return {
+    id: createId(),
+    name: name.trim(),
+    query,
+    createdAt: new Date().toISOString(),
+    lastCheckedAt: null
+  };
+}
+
+export function needsPolling(subscription: Subscription, now: number): boolean {
+  return !subscription.lastCheckedAt ||
+    now - new Date(subscription.lastCheckedAt).getTime() > SUBSCRIPTION_POLL_INTERVAL_MS;
+}
+
+// Papers submitted after this may be new for the subscription.
+export function pollingSince(subscription: Subscription): Date {
+  return subscription.lastCheckedAt
+    ? new Date(new Date(subscription.lastCheckedAt).getTime() - ANNOUNCEMENT_OVERLAP_MS)
+    : new Date(new Date(subscription.createdAt).getTime() - INITIAL_LOOKBACK_MS);
+}
+
+// The saved query, newest submissions first.
+export function feedQuery(subscription: Subscription): ArxivQuery {
+  return { ...subscription.query, sortBy: 'submittedDate', sortOrder: 'descending' };
+}
+
+export function inboxItemId(subscriptionId: string, arxivId: string): string {
+  return `${subscriptionId}:${arxivId}`;
+}
+
+export function addToInbox(
+  inbox: InboxItem[],
+  subscriptionId: string,
+  papers: InboxItem['paper'][],
+  foundAt: string
+): InboxItem[] {
+  const existingIds = new Set(inbox.map(item => item.id));
+  const added = papers
+    .filter(paper => !existingIds.has(inboxItemId(subscriptionId, paper.id)))
+    .map(paper => ({
+      id: inboxItemId(subscriptionId, paper.id),
+      subscriptionId,
+      paper,
+      foundAt,
+      status: 'unseen' as const
+    }));
+  return [...inbox, ...added];
+}
+
+export function pruneInbox(inbox: InboxItem[], now: number): InboxItem[] {
+  return inbox.filter(item =>
+    item.status === 'unseen' || item.status === 'seen' ||
+    now - new Date(item.foundAt).getTime() < HANDLED_RETENTION_MS
+  );
+}
+
+// Papers still waiting for a decision, newest submission first.
+export function openInboxItems(inbox: InboxItem[], subscriptionId: string | null): InboxItem[] {
+  return inbox
+    .filter(item => item.status === 'unseen' || item.status === 'seen')
+    .filter(item => subscriptionId === null || item.subscriptionId === subscriptionId)
+    .sort((a, b) => b.paper.published.localeCompare(a.paper.published));
+}
+
+export function unseenCounts(inbox: InboxItem[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  inbox.forEach(item => {
+    if (item.status === 'unseen') counts.set(item.subscriptionId, (counts.get(item.subscriptionId) ?? 0) + 1);
+  });
+  return counts;
+}
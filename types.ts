@@ -0,0 +1,260 @@
+import type { ArxivQuery } from './arxiv-query';
+
+// Page-relative coordinates, as fractions of the page width and height, so
+// highlights line up at any zoom level.
+export interface HighlightRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Annotation {
+  id: string;
+  text: string;
+  color: string;
+  pageNumber: number;
+  position: { x: number; y: number };
+  rects: HighlightRect[];
+  timestamp: string;
+}
+
+export interface NoteRevision {
+  text: string;
+  timestamp: string;
+}
+
+export interface Note {
+  id: string;
+  // Markdown, with $inline$ and $$display$$ LaTeX math.
+  text: string;
+  pageNumber: number;
+  annotationId: string | null;
+  timestamp: string;
+  updatedAt: string | null;
+  // Earlier versions of `text`, oldest first.
+  history: NoteRevision[];
+}
+
+export interface UserProfile {
+  id: string;
+  displayName: string;
+}
+
+// Where a discussion thread points in the paper. Annotation anchors keep the
+// page too, so the thread still has a place if the highlight is deleted.
+export type CommentAnchor =
+  | { type: 'page'; pageNumber: number }
+  | { type: 'annotation'; annotationId: string; pageNumber: number };
+
+export interface Comment {
+  id: string;
+  text: string;
+  timestamp: string;
+  // null for entries written before user accounts; nobody can edit those.
+  authorId: string | null;
+  // Display name at the time of writing.
+  userName: string;
+  editedAt: string | null;
+  // null for comments that start a thread.
+  parentId: string | null;
+  // Only thread roots carry an anchor and a resolved state.
+  anchor: CommentAnchor | null;
+  resolvedAt: string | null;
+  // Display name of whoever resolved the thread.
+  resolvedBy: string | null;
+  mentionedUserIds: string[];
+  // Deleted comments with replies keep their place in the thread.
+  deletedAt: string | null;
+}
+
+export interface Review {
+  id: string;
+  text: string;
+  rating: number;
+  timestamp: string;
+  authorId: string | null;
+  userName: string;
+  editedAt: string | null;
+  // Users who found the review helpful. Authors can't vote on their own.
+  helpfulVoterIds: string[];
+}
+
+// An entry from a paper's reference list, with whatever identifiers could be
+// read from it.
+export interface PaperReference {
+  // The entry as printed, with line breaks joined.
+  text: string;
+  arxivId: string | null;
+  // Lower-cased.
+  doi: string | null;
+}
+
+export interface Section {
+  title: string;
+  page: number;
+  // Nesting depth, 0 for top-level sections.
+  level: number;
+}
+
+// A user-defined shelf. Unlike the built-in reading statuses, a paper can sit
+// on any number of these.
+export interface Shelf {
+  id: string;
+  name: string;
+  // Papers on the shelf have their PDFs kept for offline reading.
+  availableOffline: boolean;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  // null for top-level collections.
+  parentId: string | null;
+}
+
+// Metadata of a newer arXiv version, kept so the changes can be shown before
+// the user switches to it.
+export interface ArxivUpdate {
+  version: number | null;
+  updated: string;
+  title: string;
+  abstract: string;
+  authors: string[];
+  comment: string;
+  pdfUrl: string;
+  foundAt: string;
+  // Dismissed updates stay hidden until an even newer version appears.
+  dismissedAt: string | null;
+}
+
+export type EnrichableField = 'doi' | 'journal' | 'citations';
+
+export interface Paper {
+  id: string;
+  title: string;
+  authors: string[];
+  abstract: string;
+  publicationDate: string;
+  journal: string;
+  userRating: number | null;
+  citations: number | null;
+  doi: string;
+  readingStatus: 'want' | 'current' | 'read' | null;
+  shelfIds: string[];
+  collectionIds: string[];
+  // Lower-cased, trimmed and unique.
+  tags: string[];
+  pdfUrl: string | null;
+  arxivId: string | null;
+  arxivVersion: number | null;
+  arxivComment: string;
+  updatedDate: string;
+  primaryCategory: string | null;
+  categories: string[];
+  authorAffiliations: Record<string, string[]>;
+  fieldUpdatedAt: Partial<Record<EnrichableField, string>>;
+  enrichmentCheckedAt: string | null;
+  currentPage: number;
+  totalPages: number;
+  annotations: Annotation[];
+  notes: Note[];
+  sections: Section[];
+  sectionsSource: 'outline' | 'headings' | null;
+  comments: Comment[];
+  reviews: Review[];
+  references: PaperReference[];
+  // null until the reference list has been read from the PDF.
+  referencesExtractedAt: string | null;
+  // null until entries printed without an arXiv id or DOI have been looked up.
+  referencesLookedUpAt: string | null;
+  // Papers the user has confirmed are not duplicates of this one.
+  notDuplicateOf: string[];
+  versionCheckedAt: string | null;
+  // A newer arXiv version than the stored one, until the user switches to it.
+  availableUpdate: ArxivUpdate | null;
+  // Kept in the offline cache even when none of its shelves are.
+  availableOffline: boolean;
+  // BibTeX key, fixed the first time the paper is exported so `\cite{}`s
+  // written against earlier exports keep working. null until then.
+  citationKey: string | null;
+}
+
+export type ReadingStatus = Paper['readingStatus'];
+
+export type ReadingEvent =
+  | {
+    type: 'status';
+    id: string;
+    paperId: string;
+    timestamp: string;
+    from: ReadingStatus;
+    to: ReadingStatus;
+  }
+  | {
+    type: 'session';
+    id: string;
+    paperId: string;
+    // When the session started.
+    timestamp: string;
+    endedAt: string;
+    // Distinct pages viewed during the session.
+    pagesRead: number;
+  };
+
+export interface ReadingGoal {
+  id: string;
+  metric: 'papers' | 'pages';
+  period: 'week' | 'month' | 'year';
+  target: number;
+}
+
+export interface SearchFilters {
+  query: string;
+  sortBy: 'date' | 'rating' | 'community' | 'title';
+  shelf: 'all' | 'want' | 'current' | 'read';
+  // Papers must be on every selected shelf and carry every selected tag.
+  shelfIds: string[];
+  tags: string[];
+  // Includes papers in nested collections.
+  collectionId: string | null;
+}
+
+// A saved arXiv query whose new submissions are pulled into the inbox.
+export interface Subscription {
+  id: string;
+  name: string;
+  query: ArxivQuery;
+  createdAt: string;
+  lastCheckedAt: string | null;
+}
+
+export interface InboxItem {
+  // `${subscriptionId}:${arxivId}`, so a paper appears once per subscription.
+  id: string;
+  subscriptionId: string;
+  paper: ArxivPaper;
+  foundAt: string;
+  status: 'unseen' | 'seen' | 'added' | 'dismissed';
+}
+
+export interface ArxivAuthor {
+  name: string;
+  affiliations: string[];
+}
+
+export interface ArxivPaper {
+  id: string;
+  version: number | null;
+  title: string;
+  authors: ArxivAuthor[];
+  summary: string;
+  published: string;
+  updated: string;
+  pdfLink: string;
+  journalRef?: string;
+  doi?: string;
+  comment?: string;
+  primaryCategory: string | null;
+  categories: string[];
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ArxivRequestError, fetchArxivPage } from './arxiv-client';
+import type { ArxivSearchPage } from './arxiv-client';
+import { compileArxivQuery, isArxivQueryEmpty } from './arxiv-query';
+import type { ArxivQuery } from './arxiv-query';
+import { LruCache } from './lru-cache';
+import { describeProxyError } from './proxy-client';
+import type { ArxivPaper } from './types';
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+const searchCache = new LruCache<string, ArxivSearchPage>(50);
+
+function cacheKey(query: ArxivQuery, start: number): string {
+  return [compileArxivQuery(query), query.sortBy, query.sortOrder, start].join('|');
+}
+
+export interface ArxivSearch {
+  results: ArxivPaper[];
+  totalResults: number;
+  activeQuery: ArxivQuery | null;
+  // False while `results` still belong to an earlier query, since the next
+  // page would be fetched for `activeQuery` at the old offset.
+  canLoadMore: boolean;
+  isSearching: boolean;
+  error: string | null;
+  search: (query: ArxivQuery, options?: { immediate?: boolean }) => void;
+  loadMore: () => void;
+  clear: () => void;
+}
+
+export function useArxivSearch(): ArxivSearch {
+  const [results, setResults] = useState<ArxivPaper[]>([]);
+  const [totalResults, setTotalResults] = useState<number>(0);
+  const [activeQuery, setActiveQuery] = useState<ArxivQuery | null>(null);
+  const [resultsQuery, setResultsQuery] = useState<ArxivQuery | null>(null);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancelPending = useCallback((): void => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const applyPage = useCallback((query: ArxivQuery, start: number, page: ArxivSearchPage): void => {
+    setResults(prev => (start === 0 ? page.papers : [...prev, ...page.papers]));
+    setTotalResults(page.totalResults);
+    setResultsQuery(query);
+  }, []);
+
+  const runSearch = useCallback(async (query: ArxivQuery, start: number): Promise<void> => {
+    cancelPending();
+
+    const key = cacheKey(query, start);
+    const cached = searchCache.get(key);
+    if (cached) {
+      applyPage(query, start, cached);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsSearching(true);
+    setError(null);
+
+    try {
+      const page = await fetchArxivPage(query, start, controller.signal);
+      searchCache.set(key, page);
+      if (!controller.signal.aborted) {
+        applyPage(query, start, page);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error searching arXiv:', err);
+      setError(err instanceof ArxivRequestError ? `arXiv: ${err.message}` : describeProxyError(err));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsSearching(false);
+      }
+    }
+  }, [applyPage, cancelPending]);
+
+  const clear = useCallback((): void => {
+    cancelPending();
+    setResults([]);
+    setTotalResults(0);
+    setActiveQuery(null);
+    setResultsQuery(null);
+    setError(null);
+    setIsSearching(false);
+  }, [cancelPending]);
+
+  const search = useCallback((query: ArxivQuery, options: { immediate?: boolean } = {}): void => {
+    if (isArxivQueryEmpty(query)) {
+      clear();
+      return;
+    }
+
+    cancelPending();
+    setActiveQuery(query);
+    setError(null);
+
+    if (options.immediate) {
+      runSearch(query, 0);
+    } else {
+      setIsSearching(true);
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        runSearch(query, 0);
+      }, SEARCH_DEBOUNCE_MS);
+    }
+  }, [cancelPending, clear, runSearch]);
+
+  const canLoadMore = activeQuery !== null && resultsQuery === activeQuery && results.length < totalResults;
+
+  const loadMore = useCallback((): void => {
+    if (activeQuery && canLoadMore) {
+      runSearch(activeQuery, results.length);
+    }
+  }, [activeQuery, canLoadMore, results.length, runSearch]);
+
+  useEffect(() => cancelPending, [cancelPending]);
+
+  return { results, totalResults, activeQuery, canLoadMore, isSearching, error, search, loadMore, clear };
+}
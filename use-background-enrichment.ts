@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { needsEnrichment } from './enrichment';
+import type { EnrichmentProvider, EnrichmentResult } from './enrichment';
+import type { Paper } from './types';
+
+export function useBackgroundEnrichment(
+  papers: Paper[],
+  enabled: boolean,
+  provider: EnrichmentProvider,
+  onResult: (paperId: string, result: EnrichmentResult | null, checkedAt: string) => void
+): void {
+  const papersRef = useRef<Paper[]>(papers);
+  const failedIdsRef = useRef<Set<string>>(new Set());
+  papersRef.current = papers;
+
+  const staleIds = papers
+    .filter(paper => needsEnrichment(paper, Date.now()) && !failedIdsRef.current.has(paper.id))
+    .map(paper => paper.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!enabled || !staleIds) return;
+
+    const controller = new AbortController();
+
+    (async () => {
+      for (const paperId of staleIds.split(',')) {
+        const paper = papersRef.current.find(candidate => candidate.id === paperId);
+        if (!paper) continue;
+
+        try {
+          const result = await provider.resolve(paper, controller.signal);
+          if (controller.signal.aborted) return;
+          onResult(paperId, result, new Date().toISOString());
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error(`Error enriching paper via ${provider.name}:`, error);
+          failedIdsRef.current.add(paperId);
+        }
+      }
+    })();
+
+    return () => controller.abort();
+  }, [enabled, staleIds, provider, onResult]);
+}
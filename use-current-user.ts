@@ -0,0 +1,67 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AuthError } from './auth';
+import type { AuthProvider } from './auth';
+import type { UserProfile } from './types';
+
+export interface CurrentUser {
+  user: UserProfile | null;
+  // Profiles known to the provider, for @mentions.
+  users: UserProfile[];
+  isLoading: boolean;
+  error: string | null;
+  signIn: (displayName: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export function useCurrentUser(provider: AuthProvider): CurrentUser {
+  const [user, setUser] = useState<UserProfile | null>(null);
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([provider.getCurrentUser(), provider.listUsers()])
+      .then(([currentUser, knownUsers]) => {
+        if (cancelled) return;
+        setUser(currentUser);
+        setUsers(knownUsers);
+      })
+      .catch(err => {
+        console.error(`Error restoring user from ${provider.name}:`, err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider]);
+
+  const signIn = useCallback(async (displayName: string): Promise<void> => {
+    setError(null);
+    try {
+      const signedIn = await provider.signIn(displayName);
+      setUser(signedIn);
+      setUsers(prev => (prev.some(known => known.id === signedIn.id) ? prev : [...prev, signedIn]));
+    } catch (err) {
+      console.error(`Error signing in with ${provider.name}:`, err);
+      setError(err instanceof AuthError ? err.message : 'Sign in failed. Please try again.');
+    }
+  }, [provider]);
+
+  const signOut = useCallback(async (): Promise<void> => {
+    try {
+      await provider.signOut();
+      setUser(null);
+    } catch (err) {
+      console.error(`Error signing out of ${provider.name}:`, err);
+    }
+  }, [provider]);
+
+  return { user, users, isLoading, error, signIn, signOut };
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useCallback, useEffect, useReducer } from 'react';
+import { initialLibraryState, libraryReducer, selectedPaper } from './library-store';
+import type { LibraryAction } from './library-store';
+import type { Collection, Paper, Shelf } from './types';
+
+export interface LibraryStore {
+  papers: Paper[];
+  shelves: Shelf[];
+  collections: Collection[];
+  selectedPaper: Paper | null;
+  dispatch: (action: LibraryAction) => void;
+  undo: () => void;
+  redo: () => void;
+  // What undo or redo would revert, e.g. 'rating'; null when there is nothing.
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+// Text fields keep the browser's own undo for typing.
+function isEditingText(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+// The library with undo and redo, bound to Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y).
+export function useLibraryStore(): LibraryStore {
+  const [state, dispatch] = useReducer(libraryReducer, initialLibraryState);
+
+  const undo = useCallback((): void => dispatch({ type: 'undo' }), []);
+  const redo = useCallback((): void => dispatch({ type: 'redo' }), []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditingText(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    papers: state.papers,
+    shelves: state.shelves,
+    collections: state.collections,
+    selectedPaper: selectedPaper(state),
+    dispatch,
+    undo,
+    redo,
+    undoLabel: state.past[state.past.length - 1]?.label ?? null,
+    redoLabel: state.future[state.future.length - 1]?.label ?? null
+  };
+}
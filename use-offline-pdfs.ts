@@ -0,0 +1,140 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  deleteOfflinePdf,
+  isOfflineStorageSupported,
+  listOfflinePdfs,
+  saveOfflinePdf,
+  storageUsage,
+  wantsOffline
+} from './offline-pdfs';
+import type { OfflinePdf, StorageUsage } from './offline-pdfs';
+import { downloadPdfBytes } from './pdf-loader';
+import type { Paper, Shelf } from './types';
+
+export interface OfflinePdfs {
+  isSupported: boolean;
+  isOnline: boolean;
+  // Cached copies by PDF URL.
+  cached: Map<string, OfflinePdf>;
+  // PDFs marked for offline reading that aren't cached yet.
+  pendingCount: number;
+  usage: StorageUsage | null;
+  error: string | null;
+}
+
+function useIsOnline(): boolean {
+  const [isOnline, setIsOnline] = useState<boolean>(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  useEffect(() => {
+    const update = (): void => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+}
+
+// Keeps the offline cache in step with the papers and shelves marked for
+// offline reading: missing PDFs are downloaded one at a time while online,
+// and copies nothing asks for any more are evicted.
+export function useOfflinePdfs(papers: Paper[], shelves: Shelf[], enabled: boolean): OfflinePdfs {
+  const isSupported = isOfflineStorageSupported();
+  const isOnline = useIsOnline();
+  const [cached, setCached] = useState<Map<string, OfflinePdf>>(new Map());
+  const [isCacheLoaded, setIsCacheLoaded] = useState<boolean>(false);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cachedRef = useRef<Map<string, OfflinePdf>>(cached);
+  const failedUrlsRef = useRef<Set<string>>(new Set());
+  cachedRef.current = cached;
+
+  const refreshUsage = useCallback((): void => {
+    storageUsage()
+      .then(setUsage)
+      .catch(err => {
+        console.error('Error estimating storage usage:', err);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isSupported) return;
+
+    let cancelled = false;
+    listOfflinePdfs()
+      .then(entries => {
+        if (cancelled) return;
+        setCached(new Map(entries.map(entry => [entry.url, entry])));
+        setIsCacheLoaded(true);
+      })
+      .catch(err => {
+        console.error('Error listing offline PDFs:', err);
+      });
+    refreshUsage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSupported, refreshUsage]);
+
+  const wantedUrls = Array.from(new Set(
+    papers.flatMap(paper => (paper.pdfUrl && wantsOffline(paper, shelves) ? [paper.pdfUrl] : []))
+  ));
+  const wantedKey = wantedUrls.sort().join('\n');
+  const pendingCount = wantedUrls.filter(url => !cached.has(url)).length;
+
+  // Coming back online is a chance to retry failed downloads.
+  useEffect(() => {
+    if (isOnline) failedUrlsRef.current.clear();
+  }, [isOnline]);
+
+  useEffect(() => {
+    if (!enabled || !isCacheLoaded) return;
+
+    const wanted = new Set(wantedKey ? wantedKey.split('\n') : []);
+    const unwanted = Array.from(cachedRef.current.keys()).filter(url => !wanted.has(url));
+    if (unwanted.length > 0) {
+      Promise.all(unwanted.map(deleteOfflinePdf))
+        .then(() => {
+          setCached(prev => new Map(Array.from(prev).filter(([url]) => wanted.has(url))));
+          refreshUsage();
+        })
+        .catch(err => {
+          console.error('Error removing offline PDFs:', err);
+        });
+    }
+
+    const missing = Array.from(wanted).filter(url => !cachedRef.current.has(url) && !failedUrlsRef.current.has(url));
+    if (!isOnline || missing.length === 0) return;
+
+    const controller = new AbortController();
+
+    (async () => {
+      setError(null);
+      for (const url of missing) {
+        try {
+          const bytes = await downloadPdfBytes(url, controller.signal);
+          if (controller.signal.aborted) return;
+          const entry = await saveOfflinePdf(url, bytes);
+          setCached(prev => new Map(prev).set(url, entry));
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          console.error('Error saving PDF for offline reading:', err);
+          failedUrlsRef.current.add(url);
+          const failed = failedUrlsRef.current.size;
+          setError(`${failed} ${failed === 1 ? 'PDF' : 'PDFs'} could not be saved for offline reading`);
+        }
+      }
+      refreshUsage();
+    })();
+
+    return () => controller.abort();
+  }, [enabled, isCacheLoaded, isOnline, wantedKey, refreshUsage]);
+
+  return { isSupported, isOnline, cached, pendingCount, usage, error };
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useRef } from 'react';
+import type { Paper } from './types';
+
+// Projections are plain data: strings, numbers, null, arrays and objects.
+function sameData(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key =>
+    sameData((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+// Each paper projected to the fields something derived from the library
+// depends on. Papers are replaced, never mutated, so a paper object seen
+// before reuses its projection; a replaced paper whose projection is
+// unchanged keeps the previous object. The list itself keeps its identity
+// until an entry changes, so memos depending on it skip page turns, ratings
+// and other edits outside the projected fields.
+export function usePaperProjection<T>(papers: Paper[], project: (paper: Paper) => T): T[] {
+  const byPaperRef = useRef(new WeakMap<Paper, T>());
+  const byIdRef = useRef(new Map<string, T>());
+  const listRef = useRef<T[]>([]);
+
+  const byId = new Map<string, T>();
+  const list = papers.map(paper => {
+    let projection = byPaperRef.current.get(paper);
+    if (projection === undefined) {
+      const fresh = project(paper);
+      const previous = byIdRef.current.get(paper.id);
+      projection = previous !== undefined && sameData(previous, fresh) ? previous : fresh;
+      byPaperRef.current.set(paper, projection);
+    }
+    byId.set(paper.id, projection);
+    return projection;
+  });
+  byIdRef.current = byId;
+
+  const previousList = listRef.current;
+  if (list.length !== previousList.length || list.some((projection, index) => projection !== previousList[index])) {
+    listRef.current = list;
+  }
+  return listRef.current;
+}
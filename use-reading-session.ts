@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { createId } from './ids';
+import type { ReadingEvent } from './types';
+
+// A session ends after this long without turning a page.
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+// Opening a paper briefly to check something isn't a reading session.
+const MIN_SESSION_MS = 30 * 1000;
+
+interface ActiveSession {
+  paperId: string;
+  startedAt: number;
+  lastActiveAt: number;
+  pages: Set<number>;
+}
+
+function startSession(paperId: string, page: number): ActiveSession {
+  const now = Date.now();
+  return { paperId, startedAt: now, lastActiveAt: now, pages: new Set([page]) };
+}
+
+function toSessionEvent(session: ActiveSession): ReadingEvent | null {
+  const endedAt = Math.min(Date.now(), session.lastActiveAt + IDLE_TIMEOUT_MS);
+  if (session.pages.size < 2 && endedAt - session.startedAt < MIN_SESSION_MS) return null;
+
+  return {
+    type: 'session',
+    id: createId(),
+    paperId: session.paperId,
+    timestamp: new Date(session.startedAt).toISOString(),
+    endedAt: new Date(endedAt).toISOString(),
+    pagesRead: session.pages.size
+  };
+}
+
+// Records time spent in the reader as session events, ending a session when
+// the paper is closed, the tab is hidden or the reader goes idle.
+export function useReadingSession(
+  paperId: string | null,
+  currentPage: number,
+  onSessionEnd: (event: ReadingEvent) => void
+): void {
+  const sessionRef = useRef<ActiveSession | null>(null);
+  const onSessionEndRef = useRef(onSessionEnd);
+  onSessionEndRef.current = onSessionEnd;
+  const currentPageRef = useRef<number>(currentPage);
+  currentPageRef.current = currentPage;
+
+  useEffect(() => {
+    if (!paperId) return;
+
+    const end = (): void => {
+      const event = sessionRef.current && toSessionEvent(sessionRef.current);
+      sessionRef.current = null;
+      if (event) onSessionEndRef.current(event);
+    };
+
+    const handleVisibilityChange = (): void => {
+      end();
+      if (document.visibilityState === 'visible') {
+        sessionRef.current = startSession(paperId, currentPageRef.current);
+      }
+    };
+
+    sessionRef.current = startSession(paperId, currentPageRef.current);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      end();
+    };
+  }, [paperId]);
+
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    if (Date.now() - session.lastActiveAt > IDLE_TIMEOUT_MS) {
+      // Coming back after a break starts a new session.
+      const event = toSessionEvent(session);
+      if (event) onSessionEndRef.current(event);
+      sessionRef.current = startSession(session.paperId, currentPage);
+      return;
+    }
+
+    session.pages.add(currentPage);
+    session.lastActiveAt = Date.now();
+  }, [currentPage]);
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { lookUpReferences, needsReferenceLookup } from './reference-lookup';
+import type { ReferenceLookupProvider } from './reference-lookup';
+import type { Paper, PaperReference } from './types';
+
+export function useReferenceLookup(
+  papers: Paper[],
+  enabled: boolean,
+  provider: ReferenceLookupProvider,
+  onResult: (paperId: string, extractedAt: string, references: PaperReference[], lookedUpAt: string) => void
+): void {
+  const papersRef = useRef<Paper[]>(papers);
+  const failedIdsRef = useRef<Set<string>>(new Set());
+  papersRef.current = papers;
+
+  const pendingIds = papers
+    .filter(paper => needsReferenceLookup(paper) && !failedIdsRef.current.has(paper.id))
+    .map(paper => paper.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!enabled || !pendingIds) return;
+
+    const controller = new AbortController();
+
+    (async () => {
+      for (const paperId of pendingIds.split(',')) {
+        const paper = papersRef.current.find(candidate => candidate.id === paperId);
+        if (!paper || !paper.referencesExtractedAt) continue;
+
+        try {
+          const references = await lookUpReferences(paper.references, provider, controller.signal);
+          if (controller.signal.aborted) return;
+          onResult(paperId, paper.referencesExtractedAt, references, new Date().toISOString());
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error(`Error looking up references via ${provider.name}:`, error);
+          failedIdsRef.current.add(paperId);
+        }
+      }
+    })();
+
+    return () => controller.abort();
+  }, [enabled, pendingIds, provider, onResult]);
+}
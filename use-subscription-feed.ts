@@ -0,0 +1,106 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ArxivRequestError, fetchArxivPage } from './arxiv-client';
+import { ARXIV_PAGE_SIZE } from './arxiv-query';
+import { describeProxyError } from './proxy-client';
+import { feedQuery, needsPolling, pollingSince } from './subscriptions';
+import type { ArxivPaper, Subscription } from './types';
+
+// How often to look for subscriptions that are due for a check.
+const TICK_MS = 5 * 60 * 1000;
+// A busy category can have more new papers than this; older ones are skipped
+// rather than paging through the whole feed.
+const MAX_PAGES = 5;
+
+async function fetchNewSubmissions(subscription: Subscription, signal: AbortSignal): Promise<ArxivPaper[]> {
+  const since = pollingSince(subscription).getTime();
+  const papers: ArxivPaper[] = [];
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await fetchArxivPage(feedQuery(subscription), page * ARXIV_PAGE_SIZE, signal);
+    const fresh = result.papers.filter(paper => new Date(paper.published).getTime() > since);
+    papers.push(...fresh);
+    if (fresh.length < result.papers.length || result.papers.length < ARXIV_PAGE_SIZE) break;
+  }
+  return papers;
+}
+
+export interface SubscriptionFeed {
+  isChecking: boolean;
+  error: string | null;
+  checkNow: (subscriptionId: string) => void;
+}
+
+// Pulls new submissions for subscriptions every SUBSCRIPTION_POLL_INTERVAL_MS.
+export function useSubscriptionFeed(
+  subscriptions: Subscription[],
+  enabled: boolean,
+  onResults: (subscriptionId: string, papers: ArxivPaper[], checkedAt: string) => void
+): SubscriptionFeed {
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [forcedIds, setForcedIds] = useState<string[]>([]);
+  // Re-renders periodically so subscriptions become due as time passes.
+  const [, setTick] = useState<number>(0);
+  const subscriptionsRef = useRef<Subscription[]>(subscriptions);
+  const failedIdsRef = useRef<Set<string>>(new Set());
+  subscriptionsRef.current = subscriptions;
+
+  const dueIds = subscriptions
+    .filter(subscription =>
+      forcedIds.includes(subscription.id) ||
+      (needsPolling(subscription, Date.now()) && !failedIdsRef.current.has(subscription.id))
+    )
+    .map(subscription => subscription.id)
+    .join(',');
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      // Failed subscriptions get another try on the next tick.
+      failedIdsRef.current.clear();
+      setTick(tick => tick + 1);
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // One subscription per run: recording its results changes `dueIds`, which
+  // starts the next one.
+  useEffect(() => {
+    if (!enabled || !dueIds) {
+      setIsChecking(false);
+      return;
+    }
+
+    const subscriptionId = dueIds.split(',')[0];
+    const subscription = subscriptionsRef.current.find(candidate => candidate.id === subscriptionId);
+    if (!subscription) return;
+    const controller = new AbortController();
+
+    (async () => {
+      setIsChecking(true);
+      setError(null);
+      try {
+        const papers = await fetchNewSubmissions(subscription, controller.signal);
+        if (controller.signal.aborted) return;
+        setForcedIds(prev => prev.filter(id => id !== subscriptionId));
+        onResults(subscriptionId, papers, new Date().toISOString());
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error checking subscription:', err);
+        setError(err instanceof ArxivRequestError ? `arXiv: ${err.message}` : describeProxyError(err));
+        failedIdsRef.current.add(subscriptionId);
+        setForcedIds(prev => prev.filter(id => id !== subscriptionId));
+      }
+    })();
+
+    return () => controller.abort();
+  }, [enabled, dueIds, onResults]);
+
+  const checkNow = useCallback((subscriptionId: string): void => {
+    failedIdsRef.current.delete(subscriptionId);
+    setForcedIds(prev => (prev.includes(subscriptionId) ? prev : [...prev, subscriptionId]));
+  }, []);
+
+  return { isChecking, error, checkNow };
+}
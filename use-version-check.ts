@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { fetchArxivPapersById } from './arxiv-client';
+import { needsVersionCheck } from './arxiv-versions';
+import type { ArxivPaper, Paper } from './types';
+
+// arXiv asks API clients to keep requests small and infrequent.
+const BATCH_SIZE = 20;
+
+// Checks arXiv papers in the library for newer versions, a batch of ids per
+// request. `onResults` gets the arXiv records found for each checked paper id.
+export function useVersionCheck(
+  papers: Paper[],
+  enabled: boolean,
+  onResults: (results: Map<string, ArxivPaper | undefined>, checkedAt: string) => void
+): void {
+  const papersRef = useRef<Paper[]>(papers);
+  const failedIdsRef = useRef<Set<string>>(new Set());
+  papersRef.current = papers;
+
+  const staleIds = papers
+    .filter(paper => needsVersionCheck(paper, Date.now()) && !failedIdsRef.current.has(paper.id))
+    .map(paper => paper.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!enabled || !staleIds) return;
+
+    const controller = new AbortController();
+    const paperIds = staleIds.split(',');
+
+    (async () => {
+      for (let start = 0; start < paperIds.length; start += BATCH_SIZE) {
+        const batchIds = paperIds.slice(start, start + BATCH_SIZE);
+        const batch = papersRef.current.flatMap(paper =>
+          batchIds.includes(paper.id) && paper.arxivId ? [{ paperId: paper.id, arxivId: paper.arxivId }] : []
+        );
+        if (batch.length === 0) continue;
+
+        try {
+          const remote = await fetchArxivPapersById(batch.map(entry => entry.arxivId), controller.signal);
+          if (controller.signal.aborted) return;
+          const byArxivId = new Map(remote.map(arxivPaper => [arxivPaper.id, arxivPaper]));
+          onResults(
+            new Map(batch.map(entry => [entry.paperId, byArxivId.get(entry.arxivId)])),
+            new Date().toISOString()
+          );
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error('Error checking arXiv for new versions:', error);
+          batch.forEach(entry => failedIdsRef.current.add(entry.paperId));
+        }
+      }
+    })();
+
+    return () => controller.abort();
+  }, [enabled, staleIds, onResults]);
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import type { CurrentUser } from './use-current-user';
+
+interface UserMenuProps {
+  currentUser: CurrentUser;
+}
+
+export default function UserMenu({ currentUser }: UserMenuProps): JSX.Element | null {
+  const [displayName, setDisplayName] = useState<string>('');
+  const { user, isLoading, error, signIn, signOut } = currentUser;
+
+  if (isLoading) return null;
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-[#1B3A33]">
+          Signed in as <span className="font-semibold">{user.displayName}</span>
+        </span>
+        <button onClick={signOut} className="text-gray-600 hover:text-gray-900 hover:underline">
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="flex items-center gap-2 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        signIn(displayName).then(() => setDisplayName(''));
+      }}
+    >
+      <input
+        type="text"
+        value={displayName}
+        onChange={(e) => setDisplayName(e.target.value)}
+        placeholder="Your name"
+        className="p-1 border border-[#D6D0C4] rounded bg-white focus:ring-2 focus:ring-[#1B3A33]"
+        aria-label="Your name"
+      />
+      <button type="submit" className="px-3 py-1 bg-[#1B3A33] text-white rounded hover:bg-[#152E28]">
+        Sign in
+      </button>
+      {error && <span className="text-red-700">{error}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { versionChanges } from './arxiv-versions';
+import type { DiffPart } from './arxiv-versions';
+import type { ArxivUpdate, Paper } from './types';
+
+interface VersionUpdateProps {
+  paper: Paper;
+  update: ArxivUpdate;
+  onSwitch: () => void;
+  onDismiss: () => void;
+}
+
+function DiffText({ parts }: { parts: DiffPart[] }): JSX.Element {
+  return (
+    <p className="text-xs text-gray-700 leading-relaxed">
+      {parts.map((part, index) => {
+        const text = index > 0 ? ` ${part.text}` : part.text;
+        if (part.type === 'added') return <ins key={index} className="bg-green-100 no-underline">{text}</ins>;
+        if (part.type === 'removed') return <del key={index} className="bg-red-100 text-red-800">{text}</del>;
+        return <span key={index}>{text}</span>;
+      })}
+    </p>
+  );
+}
+
+function versionLabel(version: number | null): string {
+  return version ? `v${version}` : 'latest version';
+}
+
+export default function VersionUpdate({ paper, update, onSwitch, onDismiss }: VersionUpdateProps): JSX.Element {
+  const changes = versionChanges(paper, update);
+
+  return (
+    <div className="mt-3 p-3 border border-[#FF9900]/50 bg-[#FF9900]/5 rounded text-sm">
+      <p className="font-medium text-[#1B3A33]">
+        {paper.arxivVersion ? `v${paper.arxivVersion}` : 'Your version'} → {versionLabel(update.version)}
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          updated {new Date(update.updated).toLocaleDateString()}
+        </span>
+      </p>
+      {update.comment && <p className="text-xs text-gray-500 mt-1">{update.comment}</p>}
+      <div className="mt-2 space-y-2">
+        {changes.map(change => (
+          <div key={change.field}>
+            <p className="text-xs font-medium text-gray-600">{change.label}</p>
+            <DiffText parts={change.diff} />
+          </div>
+        ))}
+        {changes.length === 0 && (
+          <p className="text-xs text-gray-500">Title, authors and abstract are unchanged</p>
+        )}
+      </div>
+      <div className="flex gap-3 mt-3">
+        <button onClick={onSwitch} className="px-3 py-1 text-xs bg-[#1B3A33] text-white rounded hover:bg-[#152E28]">
+          Switch to {versionLabel(update.version)}
+        </button>
+        <button onClick={onDismiss} className="text-xs text-gray-500 hover:text-[#1B3A33]">
+          Keep current version
+        </button>
+      </div>
+    </div>
+  );
+}